@@ -0,0 +1,179 @@
+/**
+ * ARIA role and accessible name computation, close enough to the browser's accessibility tree
+ * to identify controls by what assistive tech would announce ("button, Save changes").
+ * This follows the common cases of the accname spec, not every edge of it.
+ */
+export class Accessibility {
+  private static readonly IMPLICIT_ROLES: { [tag: string]: string } = {
+    a: 'link', area: 'link', article: 'article', aside: 'complementary', button: 'button',
+    datalist: 'listbox', details: 'group', dialog: 'dialog', fieldset: 'group', figure: 'figure',
+    form: 'form', h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+    hr: 'separator', img: 'img', li: 'listitem', main: 'main', menu: 'list', nav: 'navigation',
+    ol: 'list', optgroup: 'group', option: 'option', output: 'status', progress: 'progressbar',
+    section: 'region', select: 'combobox', summary: 'button', table: 'table', tbody: 'rowgroup',
+    td: 'cell', textarea: 'textbox', tfoot: 'rowgroup', th: 'columnheader', thead: 'rowgroup',
+    tr: 'row', ul: 'list', header: 'banner', footer: 'contentinfo'
+  };
+
+  private static readonly INPUT_ROLES: { [type: string]: string } = {
+    button: 'button', checkbox: 'checkbox', email: 'textbox', image: 'button', number: 'spinbutton',
+    radio: 'radio', range: 'slider', reset: 'button', search: 'searchbox', submit: 'button',
+    tel: 'textbox', text: 'textbox', url: 'textbox', password: 'textbox'
+  };
+
+  static readonly LANDMARK_ROLES = ['banner', 'complementary', 'contentinfo', 'form', 'main', 'navigation', 'region', 'search', 'dialog'];
+
+  /**
+   * Explicit role attribute first, otherwise the role implied by the tag (and input type)
+   */
+  static getRole(element: Element): string | null {
+    const explicit = (element.getAttribute('role') || '').trim().split(/\s+/)[0];
+    if (explicit) return explicit.toLowerCase();
+    return this.getImplicitRole(element.tagName, element.getAttribute('type'), element);
+  }
+
+  /**
+   * Role implied by a tag name, e.g. for recorded element data that only has tagName
+   */
+  static getImplicitRole(tagName: string, inputType?: string | null, element?: Element): string | null {
+    const tag = tagName.toLowerCase();
+    if (tag === 'input') {
+      return this.INPUT_ROLES[(inputType || 'text').toLowerCase()] || null;
+    }
+    if (tag === 'a' && element && !element.hasAttribute('href')) return null;
+    // A section is only a region landmark when it has an author-provided name
+    if (tag === 'section' && element && !this.hasNameFromAuthor(element)) return null;
+    return this.IMPLICIT_ROLES[tag] || null;
+  }
+
+  /**
+   * CSS selector for elements that may have a role: the explicit attribute plus every tag implying it.
+   * Candidates still need checking with getRole (e.g. <a> without href has no link role).
+   */
+  static getRoleSelector(role: string): string {
+    const escaped = role.replace(/"/g, '\\"');
+    const selectors = [`[role="${escaped}"]`];
+    Object.keys(this.IMPLICIT_ROLES)
+      .filter(tag => this.IMPLICIT_ROLES[tag] === role)
+      .forEach(tag => selectors.push(`${tag}:not([role])`));
+    Object.keys(this.INPUT_ROLES)
+      .filter(type => this.INPUT_ROLES[type] === role)
+      .forEach(type => selectors.push(`input[type="${type}" i]:not([role])`));
+    if (role === 'textbox') selectors.push('input:not([type]):not([role])');
+    return selectors.join(', ');
+  }
+
+  /**
+   * Tags that imply a role without a role attribute ('input' for any input type implying it)
+   */
+  static getImpliedTags(role: string): string[] {
+    const tags = Object.keys(this.IMPLICIT_ROLES).filter(tag => this.IMPLICIT_ROLES[tag] === role);
+    if (Object.keys(this.INPUT_ROLES).some(type => this.INPUT_ROLES[type] === role)) tags.push('input');
+    return tags;
+  }
+
+  /**
+   * Accessible name: aria-labelledby, aria-label, associated label, alt/title/placeholder, then content
+   */
+  static getAccessibleName(element: Element): string {
+    const doc = element.ownerDocument;
+
+    const labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/)
+        .map(id => doc.getElementById(id))
+        .filter((label): label is HTMLElement => !!label)
+        .map(label => this.getTextAlternative(label))
+        .join(' ');
+      if (text.trim()) return this.normalize(text);
+    }
+
+    const ariaLabel = element.getAttribute('aria-label');
+    if (ariaLabel && ariaLabel.trim()) return this.normalize(ariaLabel);
+
+    const labelText = this.getLabelText(element);
+    if (labelText) return labelText;
+
+    const tag = element.tagName.toLowerCase();
+    if ((tag === 'img' || tag === 'area' || (tag === 'input' && element.getAttribute('type') === 'image')) && element.getAttribute('alt')) {
+      return this.normalize(element.getAttribute('alt')!);
+    }
+    if (tag === 'input') {
+      const type = (element.getAttribute('type') || 'text').toLowerCase();
+      if (['button', 'submit', 'reset'].includes(type)) {
+        return this.normalize((element as HTMLInputElement).value || (type === 'submit' ? 'Submit' : type === 'reset' ? 'Reset' : ''));
+      }
+    }
+
+    const role = this.getRole(element);
+    if (!role || this.NAME_FROM_CONTENT_ROLES.includes(role)) {
+      const content = this.getTextAlternative(element);
+      if (content) return content;
+    }
+
+    const fallback = element.getAttribute('title') || element.getAttribute('placeholder') || '';
+    return this.normalize(fallback);
+  }
+
+  /**
+   * Text of the <label> elements associated with a form control
+   */
+  static getLabelText(element: Element): string {
+    const labels = (element as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      return this.normalize(Array.from(labels).map(label => label.textContent || '').join(' '));
+    }
+    const wrappingLabel = element.closest('label');
+    return wrappingLabel ? this.normalize(wrappingLabel.textContent || '') : '';
+  }
+
+  static normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  // Roles whose name comes from their content
+  private static readonly NAME_FROM_CONTENT_ROLES = [
+    'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem',
+    'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch', 'tab',
+    'tooltip', 'treeitem'
+  ];
+
+  private static hasNameFromAuthor(element: Element): boolean {
+    return !!(element.getAttribute('aria-label') || element.getAttribute('aria-labelledby') || element.getAttribute('title'));
+  }
+
+  // Visible text content, skipping hidden subtrees and using alt text for images
+  private static getTextAlternative(element: Element): string {
+    const parts: string[] = [];
+    const walk = (node: Node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        parts.push(node.textContent || '');
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const child = node as Element;
+      if (child.getAttribute('aria-hidden') === 'true' || (child as HTMLElement).hidden) return;
+      const tag = child.tagName.toLowerCase();
+      if (tag === 'script' || tag === 'style') return;
+      if (tag === 'img' && child.getAttribute('alt')) {
+        parts.push(` ${child.getAttribute('alt')} `);
+        return;
+      }
+      const label = child !== element ? child.getAttribute('aria-label') : null;
+      if (label) {
+        parts.push(` ${label} `);
+        return;
+      }
+      if (tag === 'slot') {
+        // Slotted light-DOM content is what actually renders inside a web component
+        const assigned = (child as HTMLSlotElement).assignedNodes({ flatten: true });
+        (assigned.length > 0 ? assigned : Array.from(child.childNodes)).forEach(walk);
+        return;
+      }
+      const children = child.shadowRoot ? child.shadowRoot.childNodes : child.childNodes;
+      children.forEach(walk);
+    };
+    walk(element);
+    return this.normalize(parts.join(''));
+  }
+}
@@ -1,24 +1,49 @@
-import axios, { AxiosInstance } from 'axios';
+import { ApiTransport, SelectorDriftReport, StepPerformanceMetrics, TransportRequest } from './types';
+import { AxiosTransport, TransportError } from './transport';
+import { Logger } from './logger';
+
+const log = Logger.for('api');
+
+// Hosted backend used when no apiUrl is configured
+export const DEFAULT_API_URL = 'https://hyphenbox-backend.onrender.com';
+// export const DEFAULT_API_URL = 'http://localhost:8000';
 
 export class ApiClient {
   private baseUrl: string;
-  private client: AxiosInstance;
+  private transport: ApiTransport;
   private apiKey: string;
   private userId: string;
+  private static readonly TIMEOUT_MS = 10000;
   
-  constructor(baseUrl: string, apiKey: string, userId: string) {
-    this.baseUrl = baseUrl;
+  constructor(baseUrl: string, apiKey: string, userId: string, transport?: ApiTransport) {
+    this.baseUrl = baseUrl || DEFAULT_API_URL;
     this.apiKey = apiKey;
     this.userId = userId;
-    this.client = axios.create({
-      baseURL: baseUrl,
-      timeout: 10000,
+    this.transport = transport || new AxiosTransport();
+  }
+
+  /**
+   * Send a request through the configured transport with auth headers applied
+   */
+  private async request<T = any>(
+    method: TransportRequest['method'],
+    path: string,
+    options: { params?: TransportRequest['params']; body?: any } = {}
+  ): Promise<T> {
+    const response = await this.transport.request<T>({
+      method,
+      baseUrl: this.baseUrl,
+      path,
+      params: options.params,
+      body: options.body,
       headers: {
         'Content-Type': 'application/json',
         'X-API-Key': this.apiKey,
         'X-External-User-ID': this.userId
-      }
+      },
+      timeout: ApiClient.TIMEOUT_MS
     });
+    return response.data;
   }
   
   /**
@@ -26,12 +51,12 @@ export class ApiClient {
    */
   async getRecording(id: string): Promise<any> {
     try {
-      const response = await this.client.get(`/api/sdk/flows/${id}`, {
+      const data = await this.request('GET', `/api/sdk/flows/${id}`, {
         params: { external_user_id: this.userId }
       });
-      return response.data; // The flow data is returned directly now
+      return data; // The flow data is returned directly now
     } catch (error) {
-      console.error('Failed to fetch flow:', error);
+      log.error('Failed to fetch flow:', error);
       throw error;
     }
   }
@@ -48,12 +73,12 @@ export class ApiClient {
         params.searchQuery = searchQuery;
       }
       
-      const response = await this.client.get('/api/sdk/flows', {
+      const data = await this.request('GET', '/api/sdk/flows', {
         params
       });
-      return response.data.flows;
+      return data.flows;
     } catch (error) {
-      console.error('Failed to fetch flows list:', error);
+      log.error('Failed to fetch flows list:', error);
       throw error;
     }
   }
@@ -75,7 +100,7 @@ export class ApiClient {
         isHidden: false
       }));
     } catch (error) {
-      console.error('Failed to extract annotations:', error);
+      log.error('Failed to extract annotations:', error);
       throw error;
     }
   }
@@ -85,10 +110,10 @@ export class ApiClient {
    */
   async checkHealth(): Promise<boolean> {
     try {
-      const response = await this.client.get('/api/health', {
+      const data = await this.request('GET', '/api/health', {
         params: { external_user_id: this.userId }
       });
-      return response.data.status === 'ok';
+      return data.status === 'ok';
     } catch (error) {
       return false;
     }
@@ -99,10 +124,10 @@ export class ApiClient {
    */
   async validateRecording(id: string): Promise<boolean> {
     try {
-      const response = await this.client.get(`/api/sdk/flows/${id}/validate`, {
+      const data = await this.request('GET', `/api/sdk/flows/${id}/validate`, {
         params: { external_user_id: this.userId }
       });
-      return response.data.valid;
+      return data.valid;
     } catch (error) {
       return false;
     }
@@ -115,20 +140,22 @@ export class ApiClient {
    */
   async semanticSearch(query: string): Promise<{ id: string, name: string } | null> {
     try {
-      console.log(`[API Client] Performing semantic search for query: "${query}"`);
-      const response = await this.client.post('/api/sdk/flows/semantic-search', {
-        query: query,
-        external_user_id: this.userId
+      log.debug(`[API Client] Performing semantic search for query: "${query}"`);
+      const data = await this.request('POST', '/api/sdk/flows/semantic-search', {
+        body: {
+          query: query,
+          external_user_id: this.userId
+        }
       });
 
       // The endpoint returns { match: { id, name } | null }
-      console.log('[API Client] Semantic search response:', response.data);
-      return response.data.match; 
+      log.debug('[API Client] Semantic search response:', data);
+      return data.match; 
     } catch (error) {
-      console.error('Failed semantic search:', error);
+      log.error('Failed semantic search:', error);
       // Check if the error is specific, e.g., function not found
-      if (axios.isAxiosError(error) && error.response?.status === 501) {
-        console.error("Semantic search functionality might not be configured on the backend.");
+      if (error instanceof TransportError && error.status === 501) {
+        log.error("Semantic search functionality might not be configured on the backend.");
         // Optionally re-throw a more specific error or return a specific indicator
       }
       // For other errors, return null to indicate no match found due to error
@@ -142,22 +169,22 @@ export class ApiClient {
    */
   async getOrganizationTheme(): Promise<{ brand_color: string, cursor_company_label: string | null, logo_url: string | null } | null> {
     try {
-      console.log(`[API Client] Fetching theme for current organization (via API Key)`);
-      const response = await this.client.get(`/api/sdk/theme`, {
+      log.debug(`[API Client] Fetching theme for current organization (via API Key)`);
+      const data = await this.request('GET', `/api/sdk/theme`, {
         params: { external_user_id: this.userId }
       });
       
       // The endpoint returns { theme: { ... } } or an error
-      console.log('[API Client] Organization theme response:', response.data);
-      return response.data.theme;
+      log.debug('[API Client] Organization theme response:', data);
+      return data.theme;
     } catch (error) {
-      console.error('Failed to fetch organization theme:', error);
+      log.error('Failed to fetch organization theme:', error);
       // Check for 404 explicitly
-      if (axios.isAxiosError(error) && error.response?.status === 404) {
-        console.warn(`[API Client] Theme not found for organization.`);
+      if (error instanceof TransportError && error.status === 404) {
+        log.warn(`[API Client] Theme not found for organization.`);
       } else {
         // Log other errors
-        console.error('Error fetching theme details:', error);
+        log.error('Error fetching theme details:', error);
       }
       // Return null if theme is not found or any other error occurs
       return null;
@@ -170,11 +197,10 @@ export class ApiClient {
    */
   async getOnboardingChecklists(): Promise<any[]> {
     try {
-      console.log('[API Client] Fetching onboarding checklists');
-      const response = await this.client.get('/api/sdk/onboarding-checklists');
-      return response.data;
+      log.debug('[API Client] Fetching onboarding checklists');
+      return await this.request('GET', '/api/sdk/onboarding-checklists');
     } catch (error) {
-      console.error('Failed to fetch onboarding checklists:', error);
+      log.error('Failed to fetch onboarding checklists:', error);
       return [];
     }
   }
@@ -187,14 +213,16 @@ export class ApiClient {
    */
   async startFlowExecution(flowId: string, sessionDetails?: any): Promise<string | null> {
     try {
-      console.log(`[API Client] Starting flow execution for flow: ${flowId}`);
-      const response = await this.client.post('/api/sdk/flow-executions', {
-        flow_id: flowId,
-        session_details: sessionDetails || null
+      log.debug(`[API Client] Starting flow execution for flow: ${flowId}`);
+      const data = await this.request('POST', '/api/sdk/flow-executions', {
+        body: {
+          flow_id: flowId,
+          session_details: sessionDetails || null
+        }
       });
-      return response.data.execution_id;
+      return data.execution_id;
     } catch (error) {
-      console.error('Failed to start flow execution:', error);
+      log.error('Failed to start flow execution:', error);
       return null;
     }
   }
@@ -215,7 +243,7 @@ export class ApiClient {
     failureReasonDetails?: string
   ): Promise<boolean> {
     try {
-      console.log(`[API Client] Updating flow execution progress: ${executionId}`);
+      log.debug(`[API Client] Updating flow execution progress: ${executionId}`);
       const payload: any = {
         last_successful_step_id: lastSuccessfulStepId,
         last_successful_step_position: lastSuccessfulStepPosition
@@ -229,10 +257,10 @@ export class ApiClient {
         payload.failure_reason_details = failureReasonDetails;
       }
       
-      const response = await this.client.put(`/api/sdk/flow-executions/${executionId}/progress`, payload);
-      return response.data.success;
+      const data = await this.request('PUT', `/api/sdk/flow-executions/${executionId}/progress`, { body: payload });
+      return data.success;
     } catch (error) {
-      console.error('Failed to update flow progress:', error);
+      log.error('Failed to update flow progress:', error);
       return false;
     }
   }
@@ -243,11 +271,143 @@ export class ApiClient {
    */
   async completeFlowExecution(executionId: string): Promise<boolean> {
     try {
-      console.log(`[API Client] Completing flow execution: ${executionId}`);
-      const response = await this.client.put(`/api/sdk/flow-executions/${executionId}/complete`, {});
-      return response.data.success;
+      log.debug(`[API Client] Completing flow execution: ${executionId}`);
+      const data = await this.request('PUT', `/api/sdk/flow-executions/${executionId}/complete`, { body: {} });
+      return data.success;
+    } catch (error) {
+      log.error('Failed to complete flow execution:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark a flow execution as paused
+   * @param executionId - The execution ID
+   * @param stepPosition - Position of the step the guide was paused on
+   */
+  async pauseFlowExecution(executionId: string, stepPosition?: number): Promise<boolean> {
+    try {
+      log.debug(`[API Client] Pausing flow execution: ${executionId}`);
+      const data = await this.request('PUT', `/api/sdk/flow-executions/${executionId}/pause`, {
+        body: { step_position: stepPosition ?? null }
+      });
+      return data.success;
+    } catch (error) {
+      log.error('Failed to pause flow execution:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark a paused flow execution as resumed
+   * @param executionId - The execution ID
+   * @param pausedMs - How long the guide was paused, in milliseconds
+   */
+  async resumeFlowExecution(executionId: string, pausedMs?: number): Promise<boolean> {
+    try {
+      log.debug(`[API Client] Resuming flow execution: ${executionId}`);
+      const data = await this.request('PUT', `/api/sdk/flow-executions/${executionId}/resume`, {
+        body: { paused_ms: pausedMs ?? null }
+      });
+      return data.success;
+    } catch (error) {
+      log.error('Failed to resume flow execution:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record a step that was passed over instead of completed
+   * @param executionId - The execution ID
+   * @param stepId - ID of the skipped step, if known
+   * @param stepPosition - Position of the skipped step
+   * @param reason - Why it was skipped (optional, condition, branch)
+   */
+  async skipFlowStep(executionId: string, stepId: string | undefined, stepPosition: number, reason: string): Promise<boolean> {
+    try {
+      log.debug(`[API Client] Recording skipped step ${stepPosition} for execution ${executionId}`);
+      const data = await this.request('PUT', `/api/sdk/flow-executions/${executionId}/skip`, {
+        body: { step_id: stepId ?? null, step_position: stepPosition, reason }
+      });
+      return data.success;
+    } catch (error) {
+      log.error('Failed to record skipped step:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record that the user stepped back to an earlier step
+   * @param executionId - The execution ID
+   * @param fromPosition - Position of the step the user was on
+   * @param toPosition - Position of the step the user went back to
+   */
+  async rewindFlowExecution(executionId: string, fromPosition: number, toPosition: number): Promise<boolean> {
+    try {
+      log.debug(`[API Client] Rewinding flow execution ${executionId}: ${fromPosition} -> ${toPosition}`);
+      const data = await this.request('PUT', `/api/sdk/flow-executions/${executionId}/rewind`, {
+        body: { from_position: fromPosition, to_position: toPosition }
+      });
+      return data.success;
+    } catch (error) {
+      log.error('Failed to record flow rewind:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record how long a step took to resolve and show, per phase
+   * @param executionId - The execution ID
+   * @param metrics - Phase timings and budget for the step
+   */
+  async reportStepPerformance(executionId: string, metrics: StepPerformanceMetrics): Promise<boolean> {
+    try {
+      log.debug(`[API Client] Reporting step ${metrics.position} performance for execution ${executionId}`);
+      const data = await this.request('POST', `/api/sdk/flow-executions/${executionId}/step-metrics`, {
+        body: {
+          step_id: metrics.stepId ?? null,
+          step_position: metrics.position,
+          phases: metrics.phases,
+          total_ms: metrics.totalMs,
+          budget_ms: metrics.budgetMs,
+          over_budget: metrics.overBudget,
+          outcome: metrics.outcome
+        }
+      });
+      return data.success;
+    } catch (error) {
+      log.error('Failed to report step performance:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Suggest an updated selector for a step whose stored selector has drifted
+   * @param report - Which strategy found the element, and its current selector, id and attributes
+   * @param executionId - The execution ID, if the flow is being tracked
+   */
+  async reportSelectorDrift(report: SelectorDriftReport, executionId?: string): Promise<boolean> {
+    try {
+      log.debug(`[API Client] Reporting selector drift for step ${report.stepPosition} of flow ${report.flowId}`);
+      const data = await this.request('POST', `/api/sdk/flows/${report.flowId}/selector-drift`, {
+        body: {
+          execution_id: executionId ?? null,
+          step_id: report.stepId ?? null,
+          step_position: report.stepPosition,
+          matched_strategy: report.matchedStrategy,
+          confidence: report.confidence,
+          recorded_selector: report.recorded.cssSelector ?? null,
+          recorded_id: report.recorded.id ?? null,
+          current_selector: report.current.cssSelector,
+          current_id: report.current.id,
+          current_attributes: report.current.attributes,
+          current_path: report.current.path,
+          page_url: report.pageUrl
+        }
+      });
+      return data.success;
     } catch (error) {
-      console.error('Failed to complete flow execution:', error);
+      log.error('Failed to report selector drift:', error);
       return false;
     }
   }
@@ -268,7 +428,7 @@ export class ApiClient {
     lastSuccessfulStepPosition?: number
   ): Promise<boolean> {
     try {
-      console.log(`[API Client] Abandoning flow execution: ${executionId}`);
+      log.debug(`[API Client] Abandoning flow execution: ${executionId}`);
       const payload: any = {
         reason_code: reasonCode,
         details: details
@@ -279,10 +439,10 @@ export class ApiClient {
         payload.last_successful_step_position = lastSuccessfulStepPosition;
       }
       
-      const response = await this.client.put(`/api/sdk/flow-executions/${executionId}/abandon`, payload);
-      return response.data.success;
+      const data = await this.request('PUT', `/api/sdk/flow-executions/${executionId}/abandon`, { body: payload });
+      return data.success;
     } catch (error) {
-      console.error('Failed to abandon flow execution:', error);
+      log.error('Failed to abandon flow execution:', error);
       return false;
     }
   }
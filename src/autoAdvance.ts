@@ -0,0 +1,157 @@
+import { AutoAdvanceTrigger } from './types';
+import { NetworkMonitor } from './networkMonitor';
+import { Logger } from './logger';
+
+const log = Logger.for('steps');
+
+export interface AutoAdvanceProgress {
+  fraction: number | null;      // 0-1 for timed triggers, null while waiting on an event
+  label: string;
+}
+
+/**
+ * Watches a step's auto-advance triggers and fires once, when the first of them is met.
+ * Reports progress (countdown or "waiting") so the UI can show an indicator.
+ */
+export class AutoAdvanceWatcher {
+  static readonly TRIGGER_TYPES: AutoAdvanceTrigger['type'][] = [
+    'delay', 'element-appears', 'element-disappears', 'url-changes', 'network-request'
+  ];
+
+  private triggers: AutoAdvanceTrigger[];
+  private onTrigger: (trigger: AutoAdvanceTrigger) => void;
+  private onProgress: (progress: AutoAdvanceProgress) => void;
+  private cleanups: Array<() => void> = [];
+  private fired = false;
+  private stopped = false;
+
+  constructor(
+    triggers: AutoAdvanceTrigger | AutoAdvanceTrigger[],
+    onTrigger: (trigger: AutoAdvanceTrigger) => void,
+    onProgress: (progress: AutoAdvanceProgress) => void = () => {}
+  ) {
+    this.triggers = Array.isArray(triggers) ? triggers : [triggers];
+    this.onTrigger = onTrigger;
+    this.onProgress = onProgress;
+  }
+
+  start(): void {
+    this.triggers.forEach(trigger => this.watch(trigger));
+
+    // Timed triggers drive the progress bar; otherwise show an indeterminate "waiting" state
+    if (!this.triggers.some(trigger => trigger.type === 'delay')) {
+      this.onProgress({ fraction: null, label: 'Continues automatically' });
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+  }
+
+  private fire(trigger: AutoAdvanceTrigger): void {
+    if (this.fired) return;
+    this.fired = true;
+    this.stop();
+    this.onTrigger(trigger);
+  }
+
+  private watch(trigger: AutoAdvanceTrigger): void {
+    switch (trigger.type) {
+      case 'delay':
+        this.watchDelay(trigger.seconds, trigger);
+        break;
+
+      case 'element-appears':
+      case 'element-disappears': {
+        const wantPresent = trigger.type === 'element-appears';
+        const check = () => {
+          let present = false;
+          try {
+            present = document.querySelector(trigger.selector) !== null;
+          } catch (e) {
+            log.warn(`[AutoAdvance] Invalid selector "${trigger.selector}"`);
+          }
+          if (present === wantPresent) this.fire(trigger);
+        };
+        const observer = new MutationObserver(check);
+        observer.observe(document.body, { childList: true, subtree: true, attributes: true });
+        this.cleanups.push(() => observer.disconnect());
+        this.defer(check);
+        break;
+      }
+
+      case 'url-changes': {
+        const startUrl = window.location.href;
+        let pattern: RegExp | null = null;
+        if (trigger.pattern) {
+          try {
+            pattern = new RegExp(trigger.pattern);
+          } catch (e) {
+            log.warn(`[AutoAdvance] Invalid URL pattern "${trigger.pattern}"`);
+            return;
+          }
+        }
+        // Polling catches pushState/replaceState without patching history a second time
+        const intervalId = setInterval(() => {
+          const url = window.location.href;
+          if (url !== startUrl && (!pattern || pattern.test(url))) {
+            this.fire(trigger);
+          }
+        }, 250);
+        this.cleanups.push(() => clearInterval(intervalId));
+        break;
+      }
+
+      case 'network-request': {
+        let pattern: RegExp;
+        try {
+          pattern = new RegExp(trigger.urlPattern);
+        } catch (e) {
+          log.warn(`[AutoAdvance] Invalid request URL pattern "${trigger.urlPattern}"`);
+          return;
+        }
+        const method = trigger.method ? trigger.method.toUpperCase() : null;
+        const unsubscribe = NetworkMonitor.subscribe(event => {
+          if (event.phase !== 'end') return;
+          if (method && event.method !== method) return;
+          if (trigger.successOnly && (event.status < 200 || event.status >= 300)) return;
+          if (pattern.test(event.url)) this.fire(trigger);
+        });
+        this.cleanups.push(unsubscribe);
+        break;
+      }
+
+      default:
+        log.warn('[AutoAdvance] Unknown trigger type:', (trigger as any).type);
+    }
+  }
+
+  private watchDelay(seconds: number, trigger: AutoAdvanceTrigger): void {
+    const durationMs = Math.max(0, seconds * 1000);
+    const startedAt = Date.now();
+
+    const tick = () => {
+      const elapsed = Date.now() - startedAt;
+      if (elapsed >= durationMs) {
+        this.fire(trigger);
+        return;
+      }
+      const remaining = Math.ceil((durationMs - elapsed) / 1000);
+      this.onProgress({ fraction: elapsed / durationMs, label: `Continuing in ${remaining}s` });
+    };
+
+    const intervalId = setInterval(tick, 100);
+    this.cleanups.push(() => clearInterval(intervalId));
+    this.defer(tick);
+  }
+
+  // Initial checks run after start() returns, so a trigger that is already met
+  // can't advance the guide before the caller has finished showing the step
+  private defer(check: () => void): void {
+    queueMicrotask(() => {
+      if (!this.stopped) check();
+    });
+  }
+}
@@ -0,0 +1,176 @@
+import { CandidateSignals, InteractionData, ScoredCandidate } from './types';
+import { FrameUtils } from './frameUtils';
+import { ShadowDom } from './shadowDom';
+import { ElementFingerprinter } from './elementFingerprint';
+import { Accessibility } from './accessibility';
+import { TextSimilarity } from './textSimilarity';
+
+/**
+ * Ranks candidate elements against the recorded target.
+ * Each signal (id, selector, attributes, text, DOM path, geometry, role, fingerprint) scores 0-1; the confidence
+ * is their weighted average over the signals the recording actually has.
+ */
+export class CandidateScorer {
+  static readonly DEFAULT_MIN_CONFIDENCE = 0.45;
+  // Top two candidates closer than this are reported as ambiguous
+  static readonly AMBIGUITY_MARGIN = 0.05;
+
+  private static readonly WEIGHTS: { [K in keyof CandidateSignals]: number } = {
+    id: 3,
+    selector: 2,
+    attributes: 2,
+    text: 2.5,
+    path: 1.5,
+    geometry: 0.75,
+    role: 1,
+    fingerprint: 2.5
+  };
+
+  // Attributes stable enough to identify an element across builds
+  private static readonly STABLE_ATTRIBUTES = ['name', 'data-testid', 'data-test', 'href', 'src', 'placeholder', 'title', 'aria-label', 'type'];
+
+  /**
+   * Score and sort candidates, best first
+   */
+  static rank(elements: HTMLElement[], interaction: InteractionData): ScoredCandidate[] {
+    return Array.from(new Set(elements))
+      .map(element => this.score(element, interaction))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Score a single candidate against the interaction's recorded element data
+   */
+  static score(element: HTMLElement, interaction: InteractionData): ScoredCandidate {
+    const elementData = interaction.element || {};
+    const attributes = this.parseAttributes(elementData.attributes);
+    const signals: CandidateSignals = {
+      id: elementData.id && !elementData.id.startsWith('headlessui-') ? (element.id === elementData.id ? 1 : 0) : null,
+      selector: this.scoreSelector(element, elementData.cssSelector || interaction.cssSelector),
+      attributes: this.scoreAttributes(element, attributes),
+      text: this.scoreText(element, interaction.text || elementData.textContent),
+      path: this.scorePath(element, elementData.path),
+      geometry: this.scoreGeometry(element, elementData.rect),
+      role: this.scoreRole(
+        element,
+        elementData.tagName,
+        elementData.role || (attributes ? attributes['role'] : undefined),
+        attributes ? attributes['type'] : undefined
+      ),
+      fingerprint: ElementFingerprinter.isUsable(elementData.fingerprint)
+        ? ElementFingerprinter.compare(element, elementData.fingerprint)
+        : null
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    (Object.keys(signals) as Array<keyof CandidateSignals>).forEach(signal => {
+      const value = signals[signal];
+      if (value === null) return;
+      weighted += value * this.WEIGHTS[signal];
+      totalWeight += this.WEIGHTS[signal];
+    });
+
+    return {
+      element,
+      // With nothing recorded to compare against, the finder's own match is all we have
+      confidence: totalWeight > 0 ? weighted / totalWeight : 0.5,
+      signals
+    };
+  }
+
+  /**
+   * Whether the best candidate is too close to the runner-up to be trusted on its own
+   */
+  static isAmbiguous(ranked: ScoredCandidate[]): boolean {
+    return ranked.length > 1 && ranked[0].confidence - ranked[1].confidence < this.AMBIGUITY_MARGIN;
+  }
+
+  private static scoreSelector(element: HTMLElement, selector: string | undefined): number | null {
+    if (!selector || selector.includes(':contains(')) return null;
+    try {
+      return element.matches(selector) ? 1 : 0;
+    } catch (e) {
+      return null; // Not a valid selector in this browser; no evidence either way
+    }
+  }
+
+  private static scoreAttributes(element: HTMLElement, attributes: { [key: string]: string } | null): number | null {
+    if (!attributes) return null;
+    const recorded = this.STABLE_ATTRIBUTES.filter(attr => attributes[attr]);
+    if (recorded.length === 0) return null;
+    const matching = recorded.filter(attr => element.getAttribute(attr) === attributes[attr]);
+    return matching.length / recorded.length;
+  }
+
+  private static scoreText(element: HTMLElement, targetText: string | undefined): number | null {
+    if (!targetText || !targetText.trim()) return null;
+    const texts = [
+      element.innerText || element.textContent || '',
+      (element as HTMLInputElement).value || '',
+      element.getAttribute('aria-label') || ''
+    ].filter(text => TextSimilarity.normalize(text).length > 0);
+    if (texts.length === 0) return 0;
+    return Math.max(...texts.map(text => TextSimilarity.compare(targetText, text)));
+  }
+
+  private static scorePath(element: HTMLElement, recordedPath: string[] | undefined): number | null {
+    if (!recordedPath || recordedPath.length === 0) return null;
+    const livePath = ShadowDom.getPath(element);
+    const normalize = (segments: string[]) => segments
+      .filter(segment => !/^(html|body)$/i.test(segment))
+      .map(segment => segment.toLowerCase().replace(/^\/+/, ''));
+    const recorded = normalize(recordedPath);
+    const live = normalize(livePath);
+    if (recorded.length === 0 || live.length === 0) return null;
+
+    // Compare from the target upwards: the closest ancestors matter most
+    let common = 0;
+    while (
+      common < recorded.length &&
+      common < live.length &&
+      recorded[recorded.length - 1 - common] === live[live.length - 1 - common]
+    ) {
+      common++;
+    }
+    return common / Math.max(recorded.length, live.length);
+  }
+
+  private static scoreGeometry(element: HTMLElement, rect: { x: number; y: number; width: number; height: number } | undefined): number | null {
+    if (!rect || !rect.width || !rect.height) return null;
+    const live = FrameUtils.getViewportRect(element);
+    if (live.width === 0 || live.height === 0) return 0;
+
+    const sizeScore = (Math.min(live.width, rect.width) / Math.max(live.width, rect.width) +
+      Math.min(live.height, rect.height) / Math.max(live.height, rect.height)) / 2;
+    // Scrolling moves everything vertically, so position only weighs the horizontal offset fully
+    const dx = Math.abs(live.x - rect.x) / Math.max(window.innerWidth, 1);
+    const dy = Math.abs(live.y - rect.y) / Math.max(window.innerHeight * 4, 1);
+    const positionScore = Math.max(0, 1 - Math.min(1, dx + dy));
+    return sizeScore * 0.6 + positionScore * 0.4;
+  }
+
+  private static scoreRole(element: HTMLElement, tagName: string | undefined, role: string | undefined, inputType: string | undefined): number | null {
+    const recordedTag = tagName ? tagName.toLowerCase() : null;
+    const recordedRole = role || (recordedTag ? Accessibility.getImplicitRole(recordedTag, inputType) : null);
+    if (!recordedRole && !recordedTag) return null;
+
+    const liveTag = element.tagName.toLowerCase();
+    const liveRole = Accessibility.getRole(element);
+    if (recordedRole && liveRole === recordedRole) {
+      return recordedTag && liveTag !== recordedTag ? 0.8 : 1; // Same role on a different tag (e.g. div[role=button])
+    }
+    if (recordedTag && liveTag === recordedTag) return recordedRole ? 0.5 : 1;
+    return 0;
+  }
+
+  private static parseAttributes(attrs: string | { [key: string]: string } | undefined): { [key: string]: string } | null {
+    if (!attrs) return null;
+    if (typeof attrs === 'object') return attrs;
+    try {
+      return JSON.parse(attrs);
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { ConditionContext, StepCondition } from './types';
+import { Logger } from './logger';
+
+const log = Logger.for('steps');
+
+/**
+ * Evaluates step conditions (element presence, URL, user attributes, host predicates).
+ * Evaluation never throws: a condition that can't be evaluated counts as false.
+ */
+export class ConditionEvaluator {
+  static readonly CONDITION_TYPES: StepCondition['type'][] = [
+    'element-present', 'element-absent', 'url-matches', 'user-attribute', 'predicate', 'all', 'any', 'not'
+  ];
+
+  /**
+   * Evaluate a condition in the current page/user context
+   * @param condition - Condition from the step definition
+   * @param context - User attributes, host predicates and the step being evaluated
+   */
+  static evaluate(condition: StepCondition, context: ConditionContext): boolean {
+    try {
+      switch (condition.type) {
+        case 'element-present':
+          return this.queryElement(condition.selector) !== null;
+
+        case 'element-absent':
+          return this.queryElement(condition.selector) === null;
+
+        case 'url-matches':
+          return new RegExp(condition.pattern).test(window.location.href);
+
+        case 'user-attribute': {
+          const attributes = context.userAttributes || {};
+          const hasAttribute = Object.prototype.hasOwnProperty.call(attributes, condition.attribute);
+          const actual = attributes[condition.attribute];
+          if (condition.exists !== undefined && hasAttribute !== condition.exists) return false;
+          if (condition.equals !== undefined && actual !== condition.equals) return false;
+          if (condition.in !== undefined && !condition.in.includes(actual)) return false;
+          // A bare attribute check means "is set"
+          if (condition.exists === undefined && condition.equals === undefined && condition.in === undefined) {
+            return hasAttribute && actual !== null && actual !== undefined && actual !== false;
+          }
+          return true;
+        }
+
+        case 'predicate': {
+          const predicate = context.predicates?.[condition.name];
+          if (!predicate) {
+            log.warn(`[ConditionEvaluator] No predicate registered as "${condition.name}"`);
+            return false;
+          }
+          return !!predicate(condition.args, context);
+        }
+
+        case 'all':
+          return condition.conditions.every(child => this.evaluate(child, context));
+
+        case 'any':
+          return condition.conditions.some(child => this.evaluate(child, context));
+
+        case 'not':
+          return !this.evaluate(condition.condition, context);
+
+        default:
+          log.warn('[ConditionEvaluator] Unknown condition type:', (condition as any).type);
+          return false;
+      }
+    } catch (error) {
+      log.warn('[ConditionEvaluator] Error evaluating condition, treating as false:', condition, error);
+      return false;
+    }
+  }
+
+  /**
+   * Describe structural problems with a condition (used by FlowValidator)
+   * @returns One line per issue, empty if the condition is well-formed
+   */
+  static validate(condition: any, label: string): string[] {
+    if (!condition || typeof condition !== 'object') {
+      return [`${label}: condition must be an object`];
+    }
+    if (!(this.CONDITION_TYPES as string[]).includes(condition.type)) {
+      return [`${label}: unknown condition type "${condition.type}"`];
+    }
+
+    switch (condition.type) {
+      case 'element-present':
+      case 'element-absent':
+        return typeof condition.selector === 'string' && condition.selector
+          ? []
+          : [`${label}: ${condition.type} condition needs a selector`];
+
+      case 'url-matches':
+        if (typeof condition.pattern !== 'string') {
+          return [`${label}: url-matches condition needs a pattern`];
+        }
+        try {
+          new RegExp(condition.pattern);
+          return [];
+        } catch (e) {
+          return [`${label}: url-matches pattern is not a valid regular expression`];
+        }
+
+      case 'user-attribute':
+        return typeof condition.attribute === 'string' && condition.attribute
+          ? []
+          : [`${label}: user-attribute condition needs an attribute name`];
+
+      case 'predicate':
+        return typeof condition.name === 'string' && condition.name
+          ? []
+          : [`${label}: predicate condition needs a name`];
+
+      case 'all':
+      case 'any':
+        if (!Array.isArray(condition.conditions)) {
+          return [`${label}: ${condition.type} condition needs a conditions array`];
+        }
+        return condition.conditions.reduce(
+          (issues: string[], child: any) => issues.concat(this.validate(child, label)),
+          []
+        );
+
+      case 'not':
+        return this.validate(condition.condition, label);
+
+      default:
+        return [];
+    }
+  }
+
+  private static queryElement(selector: string): Element | null {
+    try {
+      return document.querySelector(selector);
+    } catch (e) {
+      log.warn(`[ConditionEvaluator] Invalid selector "${selector}"`);
+      return null;
+    }
+  }
+}
@@ -1,11 +1,14 @@
-import { ApiClient } from './apiClient';
-import { ThemeOptions } from './types'; // Import from types.ts instead of uiComponents.ts
+import { FlowProvider, ThemeOptions } from './types'; // Import from types.ts instead of uiComponents.ts
 import hyphenboxSvg from '../assets/hyphenbox.svg'; // Import the SVG
 import { OnboardingModal } from './onboardingChecklist';
+import { CursorFlowUI } from './uiComponents';
+import { Logger } from './logger';
+
+const log = Logger.for('ui');
 
 export class CopilotModal {
     private static activeModal: HTMLElement | null = null;
-    private static apiClient: ApiClient | null = null; // To perform the search
+    private static flowProvider: FlowProvider | null = null; // To perform the search
     private static onGuideFound: (guideId: string) => void = () => {}; // Callback when guide found
     // private static onViewAllGuides: () => void = () => {}; // No longer needed, handled internally
     private static theme: ThemeOptions = {};
@@ -15,11 +18,11 @@ export class CopilotModal {
     private static loadingDotsStyleAdded: boolean = false; // Ensure style is added only once
 
     static init(
-        apiClient: ApiClient, 
+        flowProvider: FlowProvider, 
         onGuideFound: (guideId: string) => void,
         theme: ThemeOptions = {}
     ) {
-        this.apiClient = apiClient;
+        this.flowProvider = flowProvider;
         this.onGuideFound = onGuideFound;
         this.theme = theme;
     }
@@ -81,6 +84,7 @@ export class CopilotModal {
         // Create overlay - Updated background color
         const overlay = document.createElement('div');
         overlay.id = 'hyphen-search-overlay';
+        CursorFlowUI.markAsSdkUi(overlay);
         overlay.style.cssText = `
             position: fixed;
             top: 0;
@@ -370,9 +374,9 @@ export class CopilotModal {
         try {
             // Fetch guides only if not cached or cache is empty
             if (!this.allGuides || this.allGuides.length === 0) {
-                if (!this.apiClient) throw new Error("API Client not initialized");
-                console.log('Fetching all guides for list view...');
-                this.allGuides = await this.apiClient.getRecordings(); // Fetch all guides (no query)
+                if (!this.flowProvider) throw new Error("Flow provider not initialized");
+                log.debug('Fetching all guides for list view...');
+                this.allGuides = await this.flowProvider.listFlows(); // Fetch all guides (no query)
             }
 
             loadingIndicator.remove(); // Remove loading indicator
@@ -425,7 +429,7 @@ export class CopilotModal {
             });
 
         } catch (error) {
-            console.error('Failed to fetch or render guides:', error);
+            log.error('Failed to fetch or render guides:', error);
             guideListArea.innerHTML = `<div style="padding: 20px; text-align: center; color: #dc3545;">Failed to load guides.</div>`;
         }
     }
@@ -473,7 +477,7 @@ export class CopilotModal {
                 if (modalContent) {
                     this.renderListView(modalContent);
                 } else {
-                    console.error("Could not find modal content container to render list view.");
+                    log.error("Could not find modal content container to render list view.");
                 }
                 // Don't close modal here
             });
@@ -496,23 +500,23 @@ export class CopilotModal {
             onboardingButton.addEventListener('mouseout', () => onboardingButton.style.color = '#555');
             onboardingButton.addEventListener('click', () => {
                 // Don't close the modal, instead render onboarding view in this modal
-                console.log('[CopilotModal] Onboarding button clicked, switching to onboarding view');
+                log.debug('[CopilotModal] Onboarding button clicked, switching to onboarding view');
                 const modalContent = document.getElementById('hyphen-modal-content');
                 if (modalContent) {
                     // Show loading state while we fetch onboarding data
                     this.renderOnboardingLoadingState(modalContent);
                     
                     // Call OnboardingModal to render in our container
-                    if (this.apiClient) {
+                    if (this.flowProvider) {
                         OnboardingModal.renderInExistingModal(modalContent, () => {
                             // Back function - return to search view
                             this.renderSearchView(modalContent);
                         });
                     } else {
-                        console.error("[CopilotModal] API client not initialized for onboarding view");
+                        log.error("[CopilotModal] Flow provider not initialized for onboarding view");
                     }
                 } else {
-                    console.error("[CopilotModal] Could not find modal content container to render onboarding view.");
+                    log.error("[CopilotModal] Could not find modal content container to render onboarding view.");
                 }
             });
             leftSide.appendChild(onboardingButton);
@@ -552,7 +556,7 @@ export class CopilotModal {
     }
 
     private static async handleSearch(query: string) {
-        if (!query.trim() || !this.apiClient) {
+        if (!query.trim() || !this.flowProvider) {
             this.updateResultsMessage('Please enter a question or task.', 'warning');
             return;
         }
@@ -560,15 +564,15 @@ export class CopilotModal {
         this.showSearchLoading(); // Show loading indicator
 
         try {
-            const match = await this.apiClient.semanticSearch(query);
+            const match = await this.flowProvider.searchFlows(query);
             this.hideSearchLoading(); // Hide indicator after API call
 
             if (match && match.id) {
-                console.log(`Semantic search found match: ${match.name} (${match.id})`);
+                log.debug(`Semantic search found match: ${match.name} (${match.id})`);
                 // Display message and "Start Guide" button
                 this.updateResultsMessage(`Found guide: "${match.name || 'Untitled'}"`, 'success', true, match.id);
             } else {
-                console.log('Semantic search found no high-confidence match.');
+                log.debug('Semantic search found no high-confidence match.');
                 this.updateResultsMessage(
                     'Sorry, no exact match found. Try rephrasing or view all guides.',
                     'info'
@@ -576,7 +580,7 @@ export class CopilotModal {
             }
         } catch (error) {
             this.hideSearchLoading(); // Ensure indicator is hidden on error
-            console.error('Error during semantic search:', error);
+            log.error('Error during semantic search:', error);
             this.updateResultsMessage('Search failed. Please try again later.', 'error');
         }
     }
@@ -742,7 +746,7 @@ export class CopilotModal {
         logoContainer.style.cssText = `display: flex; align-items: center; justify-content: center; height: 18px; width: 55px; position: relative; transform: translateY(1px); cursor: pointer;`; // Added cursor: pointer
         
         // Footer logo is ALWAYS Hyphenbox logo
-        console.log('[CopilotModal Footer] Using Hyphenbox logo.');
+        log.debug('[CopilotModal Footer] Using Hyphenbox logo.');
         logoContainer.innerHTML = hyphenboxSvg;
         this.styleFallbackSvg(logoContainer.querySelector('svg')); // Use helper to style it
 
@@ -776,7 +780,7 @@ export class CopilotModal {
             svg.setAttribute('preserveAspectRatio', 'xMidYMid meet');
             svg.setAttribute('viewBox', '0 0 3163 849');
         } else {
-             console.warn('[Hyphen CopilotModal] Fallback SVG element not found in container.');
+             log.warn('[Hyphen CopilotModal] Fallback SVG element not found in container.');
         }
     }
 
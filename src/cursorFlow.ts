@@ -1,31 +1,50 @@
-import { ApiClient } from './apiClient';
+import { ApiClient, DEFAULT_API_URL } from './apiClient';
 import { StateManager } from './manageState';
 import { CursorFlowUI } from './uiComponents';
-import { CursorFlowOptions, CursorFlowState, InteractionData, NotificationType, StopNotificationOptions } from './types';
+import { AbandonReason, ConditionContext, CursorFlowController, CursorFlowEventHandler, CursorFlowEventName, CursorFlowEvents, CursorFlowOptions, CursorFlowState, Flow, FlowProvider, HandoffChannel, HandoffPayload, InteractionData, LocatorDiagnostics, NotificationType, OffTargetClickPolicy, OffTargetClickSettings, ScoredCandidate, StartFlowOptions, Step, StepEventPayload, StepPerformanceMetrics, StepSkipReason, StopNotificationOptions, ValueMatchRule } from './types';
 import { RobustElementFinder } from './robustElementFinder';
 import { SelectiveDomAnalyzer } from './selectiveDomAnalyzer';
 import { CopilotModal } from './copilotModal';
 import { FlowExecutionTracker } from './flowExecutionTracker';
-
-// Define API URL as a constant - this is the same for all instances
-const API_URL = 'https://hyphenbox-backend.onrender.com';
+import { ApiFlowProvider } from './flowProvider';
+import { FlowValidationError, FlowValidator } from './flowValidator';
+import { TypedEventEmitter } from './eventEmitter';
+import { ValueMatcher } from './valueMatcher';
+import { ConditionEvaluator } from './conditionEvaluator';
+import { AutoAdvanceWatcher } from './autoAdvance';
+import { StepReadiness } from './stepReadiness';
+import { FlowHandoff } from './flowHandoff';
+import { FrameUtils } from './frameUtils';
+import { ShadowDom } from './shadowDom';
+import { CandidateScorer } from './candidateScorer';
+import { SelectorDrift } from './selectorDrift';
+import { LocatorDiagnosticsCollector } from './locatorDiagnostics';
+import { StepPerformance } from './stepPerformance';
+import { DomIndex } from './domIndex';
+import { Logger } from './logger';
+
+const log = Logger.for('core');
 
 export default class CursorFlow {
     // Properties
     private options: CursorFlowOptions;
     private apiClient: ApiClient;
+    private flowProvider: FlowProvider;
     private state: CursorFlowState;
     private executionTracker: FlowExecutionTracker;
     private cursorElement: HTMLElement | null = null;
     private highlightElement: HTMLElement | null = null;
     private currentTargetElement: HTMLElement | null = null;
     private currentListener: EventListener | null = null;
+    private currentListenerTarget: EventTarget | null = null;
+    private cancelHoverDwell: (() => void) | null = null;
+    private cancelSubmitFallback: (() => void) | null = null;
     private currentInteractionType: string | null = null;
-    private recording: any = null;
+    private recording: Flow | null = null;
     private guides: any[] = [];
-    private autoProgressTimeout: any = null;
+    private autoAdvanceWatcher: AutoAdvanceWatcher | null = null;
     private startButton: HTMLElement | null = null;
-    private sortedSteps: any[] = [];
+    private sortedSteps: Step[] = [];
     private isHandlingNavigation = false;
     private thinkingIndicator: HTMLElement | null = null;
     private validationLoopId: number | null = null;
@@ -35,15 +54,30 @@ export default class CursorFlow {
     private isDropdownOpen = false;
     private guidanceCardElement: HTMLElement | null = null;
     private textPopupElement: HTMLElement | null = null;
+    private events = new TypedEventEmitter<CursorFlowEvents>();
+    private static readonly OPTIONAL_STEP_TIMEOUT_MS = 3000;
+    // How long a submit may take to change the URL before we treat it as saved in place
+    private static readonly SUBMIT_NAVIGATION_GRACE_MS = 1500;
+    private offTargetListener: ((event: Event) => void) | null = null;
+    private offTargetDocuments: Document[] = [];
+    private offTargetClickCount = 0;
+    private handoff: FlowHandoff;
+    private handoffFallbackTimeout: any = null;
+    private lastLocatorDiagnostics: LocatorDiagnostics | null = null;
+    private domIndex: DomIndex | null = null;
   
     constructor(options: CursorFlowOptions) {
+      // Logging is silent unless the host configures it; debug: true is shorthand for debug-level console output
+      Logger.reset();
+      Logger.configure({ ...(options.debug ? { level: 'debug' } : {}), ...(options.logger || {}) });
+
       // Initialize with default options
-      console.log('[CURSOR-FLOW-DEBUG] Initializing with options:', options);
-      console.log('[CURSOR-FLOW-DEBUG] Original buttonText:', options.buttonText);
+      log.debug('[CURSOR-FLOW-DEBUG] Initializing with options:', options);
+      log.debug('[CURSOR-FLOW-DEBUG] Original buttonText:', options.buttonText);
       
       // Ensure userId is provided
       if (!options.userId) {
-        console.error('[CURSOR-FLOW-DEBUG] ERROR: userId is required but was not provided');
+        log.error('[CURSOR-FLOW-DEBUG] ERROR: userId is required but was not provided');
         throw new Error('userId is required for CursorFlow initialization');
       }
       
@@ -57,22 +91,26 @@ export default class CursorFlow {
         debug: options.debug || false
       };
       
-      console.log('[CURSOR-FLOW-DEBUG] Final options after defaults:', this.options);
+      log.debug('[CURSOR-FLOW-DEBUG] Final options after defaults:', this.options);
       
       // Use provided ApiClient if available, otherwise create a new one
       if (options.apiClient) {
-        console.log('[CURSOR-FLOW-DEBUG] Using provided ApiClient');
+        log.debug('[CURSOR-FLOW-DEBUG] Using provided ApiClient');
         this.apiClient = options.apiClient;
       } else {
-        console.log('[CURSOR-FLOW-DEBUG] Creating new ApiClient');
-        // Create API client with userId - use the fixed API_URL
+        log.debug('[CURSOR-FLOW-DEBUG] Creating new ApiClient');
+        // Create API client with userId - use the configured apiUrl/transport if provided
         this.apiClient = new ApiClient(
-          API_URL, 
+          this.options.apiUrl || DEFAULT_API_URL, 
           this.options.apiKey,
-          this.options.userId
+          this.options.userId,
+          this.options.transport
         );
       }
       
+      // Flows come from the provided FlowProvider, or the backend by default
+      this.flowProvider = options.flowProvider || new ApiFlowProvider(this.apiClient);
+      
       // Initialize empty state
       this.state = {
         isPlaying: false,
@@ -85,13 +123,43 @@ export default class CursorFlow {
       // Initialize flow execution tracker
       this.executionTracker = new FlowExecutionTracker(this.apiClient);
       
+      // Lets a new tab or another allowed origin pick the guide up where this one left off
+      this.handoff = new FlowHandoff(this.options.handoffTokens, this.options.handoffDomains);
+      
       if (this.options.debug) {
-        console.log('CursorFlow initialized with options:', this.options);
+        log.debug('CursorFlow initialized with options:', this.options);
       }
       
       this.operationToken = this.generateToken();
     }
     
+    /**
+     * Subscribe to engine events (flowStarted, stepShown, stepCompleted, ...)
+     * @returns Function that removes the handler
+     */
+    on<K extends CursorFlowEventName>(event: K, handler: CursorFlowEventHandler<K>): () => void {
+      return this.events.on(event, handler);
+    }
+
+    /**
+     * Remove a handler registered with on()
+     */
+    off<K extends CursorFlowEventName>(event: K, handler: CursorFlowEventHandler<K>): void {
+      this.events.off(event, handler);
+    }
+
+    // Build the common payload for step-level events
+    private getStepEventPayload(step?: Step): StepEventPayload {
+      const target = step || this.sortedSteps[this.state.currentStep];
+      const index = target ? this.sortedSteps.indexOf(target) : this.state.currentStep;
+      return {
+        flowId: this.state.recordingId || '',
+        stepId: target?.id,
+        position: target?.position ?? this.state.currentStep,
+        index: index >= 0 ? index : this.state.currentStep
+      };
+    }
+
     // --- NEW Encapsulated State Setter ---
     private setIsPlaying(value: boolean, immediateSave = false): void {
       if (this.state.isPlaying === value) return; // Avoid redundant updates
@@ -105,41 +173,49 @@ export default class CursorFlow {
   
     async init(): Promise<boolean> {
       try {
-        // Check if API is accessible
-        const isHealthy = await this.apiClient.checkHealth();
+        // Check if the flow source is accessible
+        const isHealthy = await this.flowProvider.isAvailable();
         if (!isHealthy) {
-          console.error('API is not available');
+          log.error('API is not available');
           return false;
         }
         
         if (this.options.debug) {
-          console.log('API health check successful');
+          log.debug('API health check successful');
         }
         
         let needsAutoStart = false;
         let redirectGuideId: string | null = null;
+        let redirectFromStep: number | string | undefined;
         
         // Restore state if available
         const savedState = StateManager.restore();
         if (savedState) {
           this.state = savedState;
-          
+        }
+        
+        // A fresh tab may be continuing a guide handed over by another tab or origin
+        if (!StateManager.isSessionActive()) {
+          await this.claimHandoff(!!savedState && savedState.isPlaying);
+        }
+        
+        if (savedState || this.state.isPlaying) {
           // Check if tab was closed during active session
           if (this.state.isPlaying && !StateManager.isSessionActive()) {
             // Tab was closed, reset playing state using the setter
-            console.log('Tab was closed, resetting playing state');
+            log.debug('Tab was closed, resetting playing state');
             this.setIsPlaying(false, true); // Immediate save on reset
           }
           
           if (this.options.debug) {
-            console.log('Restored state:', this.state);
+            log.debug('Restored state:', this.state);
           }
         }
         
         // Fetch theme data BEFORE creating UI elements
         this.debugLog('Fetching organization theme...');
         try {
-          const fetchedTheme = await this.apiClient.getOrganizationTheme();
+          const fetchedTheme = await this.flowProvider.getTheme();
           if (fetchedTheme) {
             this.options.theme = { ...this.options.theme, ...fetchedTheme }; // Merge fetched theme into existing
             this.debugLog('Successfully fetched and merged theme:', this.options.theme);
@@ -148,7 +224,7 @@ export default class CursorFlow {
             // Keep existing this.options.theme (which might be {} or from constructor)
           }
         } catch (themeError) {
-          console.error('Error fetching organization theme during init:', themeError);
+          log.error('Error fetching organization theme during init:', themeError);
           // Continue initialization with default/existing theme
         }
         
@@ -156,14 +232,25 @@ export default class CursorFlow {
         try {
           redirectGuideId = localStorage.getItem('hyphen_redirect_guide_id');
           if (redirectGuideId) {
-            console.log('Found guide requiring redirect to auto-start:', redirectGuideId);
+            log.debug('Found guide requiring redirect to auto-start:', redirectGuideId);
+            // Deep links into the middle of a flow keep their start step across the redirect
+            const storedFromStep = localStorage.getItem('hyphen_redirect_from_step');
+            if (storedFromStep) {
+              try {
+                const parsed = JSON.parse(storedFromStep);
+                if (typeof parsed === 'number' || typeof parsed === 'string') redirectFromStep = parsed;
+              } catch (parseError) {
+                log.warn('Ignoring unreadable redirect start step:', storedFromStep);
+              }
+            }
             // Remove the guide ID immediately to prevent loops
             localStorage.removeItem('hyphen_redirect_guide_id');
+            localStorage.removeItem('hyphen_redirect_from_step');
             needsAutoStart = true;
             // DO NOT set isPlaying here
           }
         } catch (err) {
-          console.error('Error checking for redirect guide:', err);
+          log.error('Error checking for redirect guide:', err);
         }
         
         // Fetch available guides
@@ -175,7 +262,7 @@ export default class CursorFlow {
         
         // *** Initialize CopilotModal ***
         CopilotModal.init(
-          this.apiClient, 
+          this.flowProvider, 
           (guideId) => this.startGuideAfterSearch(guideId), // Callback for when search finds a guide
           // () => this.showGuidesDropdown(), // Callback for 'View All Guides' button
           this.options.theme || {}
@@ -192,7 +279,7 @@ export default class CursorFlow {
         if (needsAutoStart && redirectGuideId) {
           // Wait a short moment for the page to fully load
           setTimeout(() => {
-            console.log('Executing auto-start for redirect guide:', redirectGuideId);
+            log.debug('Executing auto-start for redirect guide:', redirectGuideId);
             // Generate operation token
             this.operationToken = this.generateToken();
             const currentToken = this.operationToken;
@@ -206,22 +293,27 @@ export default class CursorFlow {
             }
             
             // Start the guide automatically
-            this.retrieveGuideData(redirectGuideId, currentToken);
+            this.retrieveGuideData(redirectGuideId, currentToken, redirectFromStep);
           }, 1000); // Keep delay for page load stability
         } else if (this.state.isPlaying && this.state.recordingId) {
           // Handle standard restored playback state (only if not auto-starting)
-          console.log('Guide is active from restored state, loading recording');
+          log.debug('Guide is active from restored state, loading recording');
           await this.loadRecording(this.state.recordingId);
           this.setupNavigationDetection();
-          console.log('Active guide detected, finding appropriate step to play');
-          setTimeout(() => {
-            this.handleNavigation(true); // Check where to resume
-          }, 500);
+          if (this.state.isPaused) {
+            // Stay hidden until the host (or the start button) resumes the guide
+            log.debug('Restored guide is paused, waiting for resume');
+          } else {
+            log.debug('Active guide detected, finding appropriate step to play');
+            setTimeout(() => {
+              this.handleNavigation(true); // Check where to resume
+            }, 500);
+          }
         }
         
         return true;
       } catch (error) {
-        console.error('Failed to initialize CursorFlow:', error);
+        log.error('Failed to initialize CursorFlow:', error);
         return false;
       }
     }
@@ -229,14 +321,14 @@ export default class CursorFlow {
     private async fetchGuides() {
       try {
         // API now returns flows instead of recordings
-        const flows = await this.apiClient.getRecordings();
+        const flows = await this.flowProvider.listFlows();
         this.guides = flows;
         
         if (this.options.debug) {
-          console.log('Available guides:', this.guides);
+          log.debug('Available guides:', this.guides);
         }
       } catch (error) {
-        console.error('Failed to fetch guides:', error);
+        log.error('Failed to fetch guides:', error);
         this.guides = [];
       }
     }
@@ -245,14 +337,14 @@ export default class CursorFlow {
     private ensureStartButtonExists(): void {
       if (this.startButton && document.body.contains(this.startButton)) {
         // Button already exists and is in DOM
-        console.log('[CURSOR-FLOW-DEBUG] Start button already exists.');
+        log.debug('[CURSOR-FLOW-DEBUG] Start button already exists.');
         return;
       }
       
       // Try finding existing button in DOM first
       const existingButton = document.querySelector('.hyphen-start-button') as HTMLElement;
       if (existingButton) {
-        console.log('[CURSOR-FLOW-DEBUG] Found existing start button in DOM.');
+        log.debug('[CURSOR-FLOW-DEBUG] Found existing start button in DOM.');
         this.startButton = existingButton;
         // Re-attach listener just in case
         this.startButton.removeEventListener('click', this.handleToggleClick); // Remove old if any
@@ -261,7 +353,7 @@ export default class CursorFlow {
       }
       
       // If not found, create it
-      console.log('[CURSOR-FLOW-DEBUG] Creating new start button with theme:', this.options.theme);
+      log.debug('[CURSOR-FLOW-DEBUG] Creating new start button with theme:', this.options.theme);
       this.startButton = CursorFlowUI.createStartButton(
           this.options.buttonText || 'Guides',
           this.options.theme?.buttonColor || '#007bff',
@@ -273,8 +365,10 @@ export default class CursorFlow {
     
     // Method to handle the button click, bound in constructor or ensureStartButtonExists
     private handleToggleClick = () => {
-        // If guide is playing, stop it
-        if (this.state.isPlaying) {
+        // If guide is paused, resume it; if playing, stop it
+        if (this.state.isPlaying && this.state.isPaused) {
+            this.resume();
+        } else if (this.state.isPlaying) {
             this.stop();
         } else {
             // If guide is not playing, show the SEARCH MODAL instead of the dropdown
@@ -285,7 +379,7 @@ export default class CursorFlow {
     private updateButtonState() {
       // Add robustness check
       if (!this.startButton || !document.body.contains(this.startButton)) {
-          console.error('[CURSOR-FLOW-DEBUG] Attempted to update button state, but button not found or not in DOM.');
+          log.error('[CURSOR-FLOW-DEBUG] Attempted to update button state, but button not found or not in DOM.');
           // Maybe try to re-ensure button exists?
           // this.ensureStartButtonExists();
           // if (!this.startButton) return; // If still not found, give up
@@ -298,7 +392,7 @@ export default class CursorFlow {
       // Get or create the text span
       let textSpan = this.startButton.querySelector('.hyphen-text');
       if (!textSpan) {
-          console.warn('[CURSOR-FLOW-DEBUG] Button text span not found, creating it.');
+          log.warn('[CURSOR-FLOW-DEBUG] Button text span not found, creating it.');
           textSpan = document.createElement('span');
           textSpan.className = 'hyphen-text';
           // Ensure icon exists before appending text next to it
@@ -311,7 +405,11 @@ export default class CursorFlow {
       }
       
       // Update text and class in a single operation
-      if (this.state.isPlaying) {
+      if (this.state.isPlaying && this.state.isPaused) {
+          this.debugLog('Setting button to "Resume Guide"');
+          textSpan.textContent = 'Resume Guide';
+          this.startButton.classList.add('hyphen-playing');
+      } else if (this.state.isPlaying) {
           this.debugLog('Setting button to "Stop Guide"');
           textSpan.textContent = 'Stop Guide';
           this.startButton.classList.add('hyphen-playing');
@@ -327,7 +425,7 @@ export default class CursorFlow {
     // but user interaction primarily goes through toggleGuideState -> showGuidesDropdown
     private start() { 
       if (this.options.debug) {
-        console.log('Attempting to start guide selection process...');
+        log.debug('Attempting to start guide selection process...');
       }
        // Use CopilotModal instead of the old dropdown
        CopilotModal.showSearchModal();
@@ -344,13 +442,14 @@ export default class CursorFlow {
       this.isDropdownOpen = false;
     }
   
-    private async retrieveGuideData(guideId: string, token: string) {
+    private async retrieveGuideData(guideId: string, token: string, fromStep?: number | string) {
       try {
         // Clear any previous redirect guide ID 
         try {
           localStorage.removeItem('hyphen_redirect_guide_id');
+          localStorage.removeItem('hyphen_redirect_from_step');
         } catch (err) {
-          console.warn('Failed to clear previous redirect guide ID:', err);
+          log.warn('Failed to clear previous redirect guide ID:', err);
         }
         
         this.debugLog(`Retrieving guide data for ID: ${guideId}, Token: ${token}`);
@@ -363,7 +462,7 @@ export default class CursorFlow {
         }
         
         // Fetch recording data
-        const flowData = await this.apiClient.getRecording(guideId);
+        const flowData = await this.flowProvider.getFlow(guideId);
         
         // Check token again after async operation
         if (token !== this.operationToken) {
@@ -372,30 +471,19 @@ export default class CursorFlow {
           return;
         }
         
+        // Annotations are included in the flow data, no separate texts fetch needed
         this.debugLog('Retrieved guide data:', flowData);
         
-        // Get texts if needed
-        const texts = await this.apiClient.getTexts(guideId);
-        
-        // Check token again
-        if (token !== this.operationToken) {
-          this.debugLog('Operation was cancelled during texts fetch, aborting guide processing');
-          this.setIsPlaying(false, true);
-          return;
-        }
-        
-        this.debugLog('Retrieved guide texts:', texts);
-        
-        // Store the recording
-        this.recording = flowData;
+        // Validate and store the recording
+        this.recording = FlowValidator.validate(flowData);
         
         // Sort steps
         if (this.recording && this.recording.steps) {
-          console.time('Sort steps');
+          log.time('Sort steps');
           this.sortedSteps = [...this.recording.steps].sort((a, b) => {
             return (a.position || 0) - (b.position || 0);
           });
-          console.timeEnd('Sort steps');
+          log.timeEnd('Sort steps');
         }
         
         // Final token check before proceeding
@@ -415,7 +503,9 @@ export default class CursorFlow {
             return (a.position || 0) - (b.position || 0);
           });
           
-          const firstStep = sortedSteps[0];
+          // When starting mid-flow, the requested step decides the starting page
+          const startIndex = fromStep !== undefined ? Math.max(0, this.resolveStepIndex(fromStep)) : 0;
+          const firstStep = sortedSteps[startIndex];
           
           // Add debugging logs
           this.debugLog('URL CHECK DEBUG: First step data:', {
@@ -465,9 +555,12 @@ export default class CursorFlow {
               // Store the guide ID in localStorage for auto-start after redirect
               try {
                 localStorage.setItem('hyphen_redirect_guide_id', guideId);
-                this.debugLog('Stored redirect guide ID in localStorage:', guideId);
+                if (fromStep !== undefined) {
+                  localStorage.setItem('hyphen_redirect_from_step', JSON.stringify(fromStep));
+                }
+                this.debugLog('Stored redirect guide ID in localStorage:', guideId, fromStep);
               } catch (err) {
-                console.error('Failed to store guide ID in localStorage:', err);
+                log.error('Failed to store guide ID in localStorage:', err);
               }
               
               // Show notification with redirect option
@@ -502,22 +595,25 @@ export default class CursorFlow {
            CursorFlowUI.hideThinkingIndicator(this.thinkingIndicator);
            this.thinkingIndicator = null;
         }
-        await this.startGuide(guideId, token);
+        await this.startGuide(guideId, token, fromStep);
       } catch (error) {
-        console.error('Failed to retrieve guide data:', error);
+        log.error('Failed to retrieve guide data:', error);
         
         // Clear redirect guide ID on error
         try {
           localStorage.removeItem('hyphen_redirect_guide_id');
+          localStorage.removeItem('hyphen_redirect_from_step');
         } catch (err) {
-          console.warn('Failed to clear redirect guide ID on error:', err);
+          log.warn('Failed to clear redirect guide ID on error:', err);
         }
         
         // Only stop if this is still the current operation
         if (token === this.operationToken) {
           // Use stop method which handles resetting isPlaying
           this.stop({
-            message: 'Failed to load guide. Please try again.',
+            message: error instanceof FlowValidationError
+              ? `This guide is misconfigured: ${error.issues[0]}`
+              : 'Failed to load guide. Please try again.',
             type: 'error',
             autoClose: 5000
           });
@@ -535,9 +631,9 @@ export default class CursorFlow {
       const wasPlaying = this.state.isPlaying;
       const flowId = this.state.recordingId;
       
-      if (wasPlaying && flowId && this.executionTracker.isActive()) {
+      if (wasPlaying && flowId) {
         // Determine abandonment reason based on notification type
-        let abandonReason: 'user_initiated' | 'element_not_found' | 'sdk_error' | 'navigation' = 'user_initiated';
+        let abandonReason: AbandonReason = 'user_initiated';
         let details = 'User stopped the guide';
         
         if (notificationOptions) {
@@ -557,11 +653,16 @@ export default class CursorFlow {
         
         // Only record abandonment for actual stops, not completions
         if (!(notificationOptions?.type === 'success' && notificationOptions?.message?.includes('completed'))) {
-          this.executionTracker.trackAbandonment(abandonReason, details)
-            .catch(error => {
-              console.warn(`Failed to track flow abandonment: ${error}`);
-              // Continue with stop even if tracking fails
-            });
+          this.events.emit('flowAbandoned', { flowId, reason: abandonReason, details });
+          
+          if (this.executionTracker.isActive()) {
+            const trackedDetails = abandonReason === 'element_not_found' ? this.withLocatorDiagnostics(details) : details;
+            this.executionTracker.trackAbandonment(abandonReason, trackedDetails)
+              .catch(error => {
+                log.warn(`Failed to track flow abandonment: ${error}`);
+                // Continue with stop even if tracking fails
+              });
+          }
         }
       }
       
@@ -580,8 +681,9 @@ export default class CursorFlow {
       // Clear any redirect guide ID
       try {
         localStorage.removeItem('hyphen_redirect_guide_id');
+        localStorage.removeItem('hyphen_redirect_from_step');
       } catch (err) {
-        console.warn('Failed to clear redirect guide ID on stop:', err);
+        log.warn('Failed to clear redirect guide ID on stop:', err);
       }
       
       // Clean up thinking indicator immediately
@@ -616,8 +718,14 @@ export default class CursorFlow {
       this.state.currentStep = 0;
       this.state.recordingId = null;
       this.state.completedSteps = [];
+      this.state.skippedSteps = [];
+      this.state.isPaused = false;
       this.state.timestamp = Date.now();
       
+      this.handoff.cancelOffer();
+      this.clearHandoffFallback();
+      this.stopDomIndex();
+      
       // Use immediate clear instead of debounced save for main state
       StateManager.clear();
       StateManager.clearSession();
@@ -644,19 +752,19 @@ export default class CursorFlow {
     private async loadRecording(recordingId: string) {
       try {
         this.debugLog(`Loading recording: ${recordingId}`);
-        // Fetch recording data from API
-        const flowData = await this.apiClient.getRecording(recordingId);
+        // Fetch recording data from the flow provider
+        const flowData = await this.flowProvider.getFlow(recordingId);
         
-        // Store the recording
-        this.recording = flowData;
+        // Validate and store the recording
+        this.recording = FlowValidator.validate(flowData);
         
         // Pre-sort steps once and cache them 
         if (this.recording && this.recording.steps) {
-          console.time('Sort steps');
+          log.time('Sort steps');
           this.sortedSteps = [...this.recording.steps].sort((a, b) => {
             return (a.position || 0) - (b.position || 0);
           });
-          console.timeEnd('Sort steps');
+          log.timeEnd('Sort steps');
         }
         
         // Preserve completedSteps when it's the same recording ID
@@ -680,13 +788,16 @@ export default class CursorFlow {
         
         return flowData;
       } catch (error) {
-        console.error('Failed to load recording:', error);
-        this.stop({ message: 'Failed to load guide data.', type: 'error'}); // Stop if loading fails
+        log.error('Failed to load recording:', error);
+        const message = error instanceof FlowValidationError
+          ? `This guide is misconfigured: ${error.issues[0]}`
+          : 'Failed to load guide data.';
+        this.stop({ message, type: 'error'}); // Stop if loading fails
         throw error;
       }
     }
   
-    private async startGuide(guideId: string, token: string) {
+    private async startGuide(guideId: string, token: string, fromStep?: number | string) {
       try {
         // Check token validity before starting
         if (token !== this.operationToken) {
@@ -705,6 +816,7 @@ export default class CursorFlow {
         this.state.currentStep = 0;
         this.state.recordingId = guideId;
         this.state.completedSteps = []; // Always start fresh
+        this.state.skippedSteps = [];
         this.state.timestamp = Date.now();
         
         // Add debug logging
@@ -713,12 +825,24 @@ export default class CursorFlow {
         // Load recording (should already be loaded by retrieveGuideData, but maybe call loadRecording for consistency?)
         // Or assume this.recording is populated correctly by retrieveGuideData
         if (!this.recording || this.recording.id !== guideId) {
-           console.warn('Recording mismatch in startGuide, attempting to reload');
+           log.warn('Recording mismatch in startGuide, attempting to reload');
            await this.loadRecording(guideId);
         } else {
           this.debugLog('Recording already loaded.');
         }
         
+        // Jump ahead when a starting step was requested (deep links, programmatic start)
+        if (fromStep !== undefined) {
+          const startIndex = this.resolveStepIndex(fromStep);
+          if (startIndex === -1) {
+            log.warn(`[CursorFlow] Step ${fromStep} not found in flow ${guideId}, starting from the beginning`);
+          } else {
+            this.state.currentStep = startIndex;
+            this.state.completedSteps = this.sortedSteps.slice(0, startIndex).map(step => step.position);
+            this.debugLog(`Starting from step index ${startIndex} (requested: ${fromStep})`);
+          }
+        }
+        
         // Start tracking flow execution
         try {
           const trackingStarted = await this.executionTracker.trackStart(guideId);
@@ -728,13 +852,15 @@ export default class CursorFlow {
             this.debugLog(`Failed to start flow execution tracking for flow ${guideId}, but continuing with guide`);
           }
         } catch (trackingError) {
-          console.error('Error starting flow execution tracking:', trackingError);
+          log.error('Error starting flow execution tracking:', trackingError);
           // Continue with guide execution even if tracking fails
         }
         
         // Set session active
         StateManager.setSessionActive();
         
+        this.events.emit('flowStarted', { flowId: guideId, flowName: this.recording?.name });
+        
         // Create visual elements if needed
         this.createVisualElements();
         
@@ -749,7 +875,7 @@ export default class CursorFlow {
         
         return true;
       } catch (error) {
-        console.error('Failed to start guide:', error);
+        log.error('Failed to start guide:', error);
         this.stop({ message: 'Failed to start guide', type: 'error'}); // Stop on error
         return false;
       }
@@ -768,9 +894,9 @@ export default class CursorFlow {
       }
       
       // Find steps that match the current URL without excessive logging
-      console.time('Find matching steps');
+      log.time('Find matching steps');
       // Use cached sortedSteps instead of re-filtering recording.steps
-      const matchingSteps = this.sortedSteps.filter((step: any) => {
+      const matchingSteps = this.sortedSteps.filter((step: Step) => {
         // The pageInfo is inside the interaction object
         const pageInfo = step.interaction?.pageInfo;
         
@@ -785,7 +911,7 @@ export default class CursorFlow {
         // Return true if either URL or path matches
         return urlMatches || pathMatches;
       });
-      console.timeEnd('Find matching steps');
+      log.timeEnd('Find matching steps');
       
       if (matchingSteps.length === 0) {
         if (this.options.debug) {
@@ -794,9 +920,9 @@ export default class CursorFlow {
         return null;
       }
       
-      console.time('Find uncompleted step');
+      log.time('Find uncompleted step');
       // Find the earliest uncompleted step for this URL
-      const uncompletedSteps = matchingSteps.filter((step: any) => {
+      const uncompletedSteps = matchingSteps.filter((step: Step) => {
         const stepIndex = step.position || 0;
         return !this.state.completedSteps.includes(stepIndex);
       });
@@ -805,21 +931,19 @@ export default class CursorFlow {
         // Get earliest uncompleted step by position
         // The steps are already sorted, so just take the first one
         const earliestStep = uncompletedSteps[0];
-        console.timeEnd('Find uncompleted step');
+        log.timeEnd('Find uncompleted step');
         return earliestStep;
       }
       
       // All steps for this URL are completed, return the last step for navigation context
       // Since we know sortedSteps is sorted by position, we can use the last matching step
-      console.timeEnd('Find uncompleted step');
+      log.timeEnd('Find uncompleted step');
       return matchingSteps[matchingSteps.length - 1];
     }
   
     // Add this helper method for debug logging
     private debugLog(...args: any[]): void {
-      if (this.options.debug) {
-        console.log('[CursorFlow]', ...args);
-      }
+      log.debug('[CursorFlow]', ...args);
     }
     
     private async playCurrentStep() {
@@ -836,12 +960,20 @@ export default class CursorFlow {
       }
       
       if (!this.recording || !this.state.isPlaying) {
-        console.warn('[CursorFlow] No active recording or not in playing state');
+        log.warn('[CursorFlow] No active recording or not in playing state');
+        return false;
+      }
+
+      if (this.state.isPaused) {
+        this.debugLog('playCurrentStep: Guide is paused, not playing step');
         return false;
       }
+
+      // Each attempt at a step starts with a clean off-target click count
+      this.offTargetClickCount = 0;
       
       // Get current step from recording
-      let currentStep: any; // Use 'any' for simplicity or define a proper Step type
+      let currentStep: Step | undefined;
        if (this.recording.steps && this.recording.steps.length > 0) {
           // Find the current step based on state.currentStep and sortedSteps
           // Find step by position if available
@@ -875,17 +1007,32 @@ export default class CursorFlow {
               this.debugLog(`State inconsistency? Found next logical step at index ${this.state.currentStep}, position ${currentStep.position}. Proceeding.`);
               StateManager.saveWithDebounce(this.state); // Save corrected state
           } else {
-              console.warn('[CursorFlow] No current or next step found. Guide might be complete or state is invalid.');
+              log.warn('[CursorFlow] No current or next step found. Guide might be complete or state is invalid.');
               this.completeGuide(); // Assume completion if no steps left
               return false;
           }
       }
 
 
+      // Conditions and branches may route us past this step
+      if (!this.state.completedSteps.includes(currentStep.position)) {
+          const routedStep = this.routeFromStep(currentStep);
+          if (!routedStep) {
+              this.debugLog('No step left to show after evaluating conditions. Completing guide.');
+              this.completeGuide();
+              return false;
+          }
+          if (routedStep !== currentStep) {
+              currentStep = routedStep;
+              this.state.currentStep = this.sortedSteps.indexOf(routedStep);
+              StateManager.saveWithDebounce(this.state);
+          }
+      }
+
       this.debugLog(`Playing step ${this.state.currentStep} (Position: ${currentStep.position || 'N/A'})`);
 
       // Find target element from interaction data
-      const interaction = currentStep.interaction || {}; // interaction object also contains isHighlightStep
+      const interaction: InteractionData = currentStep.interaction || {}; // interaction object also contains isHighlightStep
       // Ensure interaction text is populated if available in element data
       if (!interaction.text && interaction.element?.textContent) {
           interaction.text = interaction.element.textContent;
@@ -909,81 +1056,83 @@ export default class CursorFlow {
           this.debugLog(`Navigation expected from ${currentPath} to ${expectedPath}`);
       }
 
-      // --- Use RobustElementFinder to get candidates ---
-      this.debugLog('Finding candidate elements using RobustElementFinder...');
-      console.time('Find candidate elements');
-      // ADDED: Log the debug value being passed
-      const debugValueForFinder = this.options.debug || false;
-      this.debugLog(`[DEBUG-VERIFY] Passing debug=${debugValueForFinder} to RobustElementFinder.setDebugMode`);
-      RobustElementFinder.setDebugMode(debugValueForFinder);
-      let candidateElements = await RobustElementFinder.findCandidates(interaction);
-      console.timeEnd('Find candidate elements');
-      this.debugLog(`RobustFinder found ${candidateElements.length} candidate(s).`);
+      const stepToken = this.operationToken;
 
-      let finalTargetElement: HTMLElement | null = null;
+      // Let slow SPAs finish loading before we start looking for the target
+      let readinessWaitMs = 0;
+      if (currentStep.waitFor && !isNavigationExpected) {
+          this.debugLog('Waiting for step readiness rules:', currentStep.waitFor);
+          const readiness = await StepReadiness.wait(currentStep.waitFor, this.options.waitForCallbacks || {});
+          if (this.operationToken !== stepToken || !this.state.isPlaying || this.state.isPaused) {
+              this.debugLog('[playCurrentStep] Operation cancelled while waiting for readiness rules.');
+              return false;
+          }
+          readinessWaitMs = readiness.waitedMs;
+          if (readiness.ready) {
+              this.debugLog(`Step ready after ${readiness.waitedMs}ms`);
+          } else {
+              log.warn(`[CursorFlow] waitFor timed out after ${readiness.waitedMs}ms (unmet: ${readiness.unmetRules.join(', ')}). Playing step anyway.`);
+          }
+      }
 
-      // --- Validate candidates using SelectiveDomAnalyzer ---
-      if (candidateElements.length > 0) {
-          this.debugLog('Validating candidate(s) using SelectiveDomAnalyzer...');
-          SelectiveDomAnalyzer.clearCache(); // Clear cache for this step's validation
-          SelectiveDomAnalyzer.setDebugMode(this.options.debug || false);
+      // The step's time budget starts now; waiting on readiness rules is reported but not counted
+      const stepPerformance = new StepPerformance(this.getStepTimeBudgetMs(currentStep));
+      if (readinessWaitMs > 0) {
+          stepPerformance.record('readiness', readinessWaitMs);
+      }
 
-          const validCandidates: HTMLElement[] = [];
-          for (const candidate of candidateElements) {
-              if (SelectiveDomAnalyzer.validateCandidateElement(candidate, interaction)) {
-                  validCandidates.push(candidate);
-              }
-              // Logging for failed validation happens inside SelectiveDomAnalyzer if debugMode is on
-          }
+      const stepStartTime = Date.now();
+      let finalTargetElement = await this.locateTargetElement(interaction, stepPerformance);
 
-          if (validCandidates.length === 1) {
-              this.debugLog('Validation successful: 1 valid candidate found.');
-              finalTargetElement = validCandidates[0];
-          } else if (validCandidates.length > 1) {
-              console.warn(`[CursorFlow] Ambiguity detected: ${validCandidates.length} candidates passed validation.`);
-              this.debugLog('Candidates passing validation:', validCandidates.map(el => el.outerHTML.substring(0, 100) + '...'));
-              // **** Future: Add LLM or other disambiguation logic here ****
-              // For now, pick the first valid candidate as a fallback
-              finalTargetElement = validCandidates[0];
-              console.log('[CursorFlow] Fallback: Picking the first valid candidate.');
-          } else {
-              // No candidates passed validation
-              this.debugLog('Validation failed: No candidates passed deeper checks.');
-              finalTargetElement = null;
+      // Optional steps get a grace period for late-rendering targets before being skipped
+      if (!finalTargetElement && currentStep.optional && !isNavigationExpected) {
+          const timeoutMs = currentStep.optionalTimeoutMs ?? CursorFlow.OPTIONAL_STEP_TIMEOUT_MS;
+          finalTargetElement = await this.waitForOptionalTarget(interaction, stepStartTime + timeoutMs, stepToken, stepPerformance);
+          if (this.operationToken !== stepToken) {
+              this.debugLog('[playCurrentStep] Operation cancelled while waiting for optional step target.');
+              this.reportStepPerformance(stepPerformance, currentStep, 'cancelled');
+              return false;
           }
-      } else {
-           // No initial candidates found
-          this.debugLog('Validation skipped: RobustFinder found no initial candidates.');
-          finalTargetElement = null;
       }
-      // --- End Validation ---
 
       // Set the determined target element
       this.currentTargetElement = finalTargetElement;
 
       // --- Handle Outcome ---
       if (!this.currentTargetElement) {
-          console.warn('[CursorFlow] Target element could not be definitively determined for step:', currentStep);
+          log.warn('[CursorFlow] Target element could not be definitively determined for step:', currentStep);
+          this.reportStepPerformance(stepPerformance, currentStep, 'not_found');
           if (isNavigationExpected) {
               this.debugLog('Element not found/validated, but navigation is expected. Allowing navigation.');
               // Don't show error UI if navigation is the expected next action
               return true; // Allow potential navigation to proceed without error UI
           }
+          if (currentStep.optional) {
+              // Optional steps only apply sometimes (cookie banners, what's-new popups) - move on quietly
+              this.debugLog(`Optional step ${currentStep.position} target not found. Skipping.`);
+              this.skipStep(currentStep, 'optional');
+              return this.playNextStep();
+          }
           // Only show error UI if navigation wasn't expected
-          console.log('DOM content at time of search:', document.body.innerHTML.substring(0, 500) + '...');
+          log.debug('DOM content at time of search:', document.body.innerHTML.substring(0, 500) + '...');
           this.handleInteractionError();
           return false;
       }
 
       // ADDED: Scroll into view logic *after* validation, *before* showing visuals
+      const stopScrollTimer = stepPerformance.start('scroll');
       try {
-          if (!this.isElementPartiallyInViewport(this.currentTargetElement)) {
+          // scroll-to steps ask the user to do the scrolling, so don't do it for them
+          const isScrollStep = interaction.action?.toLowerCase() === 'scroll-to';
+          if (isScrollStep) {
+              this.debugLog('[CursorFlow] scroll-to step: leaving scroll position to the user.');
+          } else if (!this.isElementPartiallyInViewport(this.currentTargetElement)) {
               this.debugLog('[CursorFlow] Target element not in viewport, attempting to scroll...');
               // Use the helper from RobustElementFinder (keeping it there for now)
               // Alternatively, implement scroll logic directly in CursorFlowUI or here
               const scrolledCandidates = await RobustElementFinder.ensureCandidatesInView([this.currentTargetElement]);
               if (scrolledCandidates.length === 0) {
-                   console.warn('[CursorFlow] Failed to scroll the validated element into view.');
+                   log.warn('[CursorFlow] Failed to scroll the validated element into view.');
                    // Decide if this is critical enough to stop
                    // For now, let's proceed but log the warning. The validation loop might catch issues.
               } else {
@@ -996,40 +1145,45 @@ export default class CursorFlow {
               // Re-check connection and visibility after scroll attempt
               if (!this.currentTargetElement.isConnected) {
                    this.debugLog('[CursorFlow] CRITICAL: Target element disconnected after scroll attempt!');
+                   stopScrollTimer();
+                   this.reportStepPerformance(stepPerformance, currentStep, 'not_found');
                    this.handleInteractionError(); // Use existing error handler
                    return false;
               }
               // Optionally re-check viewport if needed, but partial visibility check is lenient
               // if (!this.isElementPartiallyInViewport(this.currentTargetElement)) {
-              //    console.warn('[CursorFlow] Element still not sufficiently visible after scroll.');
+              //    log.warn('[CursorFlow] Element still not sufficiently visible after scroll.');
               // }
           } else {
               this.debugLog('[CursorFlow] Target element already sufficiently in viewport. No scroll needed.');
           }
       } catch (scrollError) {
-           console.error('[CursorFlow] Error during scroll attempt:', scrollError);
+           log.error('[CursorFlow] Error during scroll attempt:', scrollError);
            // Continue execution? Or handle as error? Let's continue for now.
       }
+      stopScrollTimer();
       // --- End Scroll Logic ---
 
       // Proceed ONLY if element is still valid after potential scroll
       if (!this.currentTargetElement || !this.currentTargetElement.isConnected) {
            this.debugLog('[CursorFlow] Target element became invalid after scroll checks. Aborting step.');
+           this.reportStepPerformance(stepPerformance, currentStep, 'not_found');
            this.handleInteractionError();
            return false;
        }
 
       this.debugLog('Successfully identified target element:', this.currentTargetElement.outerHTML.substring(0, 150) + '...');
 
-      console.time('Show visual elements');
       const currentToken = this.operationToken; 
       // Pass currentStep.annotation as the displayText argument
-      await this.showVisualElements(this.currentTargetElement, currentStep.interaction, currentStep.annotation || '', isHighlightStep, isLastStep);
-      console.timeEnd('Show visual elements');
+      await stepPerformance.measure('render', () =>
+          this.showVisualElements(this.currentTargetElement, currentStep!.interaction, currentStep!.annotation || '', isHighlightStep, isLastStep)
+      );
       
       // Check token again after showing visuals, before setting up interaction
       if (this.operationToken !== currentToken) { 
           this.debugLog(`[playCurrentStep] Operation cancelled after showVisualElements. Aborting interaction setup.`);
+          this.reportStepPerformance(stepPerformance, currentStep, 'cancelled');
           // Explicitly clean up visuals shown if cancelled mid-step
           this.hideVisualElements(); 
           return false; 
@@ -1040,9 +1194,9 @@ export default class CursorFlow {
         this.setupHighlightStepCompletion(isLastStep);
       } else {
         this.debugLog('[CursorFlow] Setting up standard element interaction tracking.');
-        console.time('Setup interaction tracking');
+        log.time('Setup interaction tracking');
         this.setupElementInteractionTracking(this.currentTargetElement, interaction);
-        console.timeEnd('Setup interaction tracking');
+        log.timeEnd('Setup interaction tracking');
       }
 
       // Start the validation loop *after* visuals and tracking are set up
@@ -1051,9 +1205,182 @@ export default class CursorFlow {
         this.startValidationLoop();
       }
 
+      // Auto-advance has to start after listener setup, which clears any previous watcher
+      if (currentStep.autoAdvance) {
+        this.startAutoAdvance(currentStep, isLastStep);
+      }
+
+      this.events.emit('stepShown', { ...this.getStepEventPayload(currentStep), isHighlightStep, isLastStep });
+      this.reportStepPerformance(stepPerformance, currentStep, 'shown');
+
       return true;
     }
   
+    /**
+     * Find the step's target: RobustElementFinder candidates, confirmed by SelectiveDomAnalyzer.
+     * Each attempt produces a LocatorDiagnostics record (emitted as 'locatorDiagnostics').
+     * @returns The validated element, or null if none was found
+     */
+    private async locateTargetElement(interaction: InteractionData, stepPerformance: StepPerformance): Promise<HTMLElement | null> {
+      const minConfidence = this.getMinTargetConfidence(interaction);
+      const diagnostics = new LocatorDiagnosticsCollector(this.getStepEventPayload(), interaction, minConfidence);
+      let outcome: LocatorDiagnostics['outcome'] = 'not_found';
+      let finalTargetElement: HTMLElement | null = null;
+
+      RobustElementFinder.setDiagnostics(diagnostics);
+      SelectiveDomAnalyzer.setDiagnostics(diagnostics);
+      try {
+        // --- Use RobustElementFinder to get candidates ---
+        this.debugLog('Finding candidate elements using RobustElementFinder...');
+        // ADDED: Log the debug value being passed
+        const debugValueForFinder = this.options.debug || Logger.isEnabled('finder', 'debug');
+        this.debugLog(`[DEBUG-VERIFY] Passing debug=${debugValueForFinder} to RobustElementFinder.setDebugMode`);
+        RobustElementFinder.setDebugMode(debugValueForFinder);
+        const rankedCandidates = await stepPerformance.measure('find', () => {
+            this.startDomIndex(); // The first search of a guide builds the index, so it counts as finding
+            return RobustElementFinder.findRankedCandidates(interaction, stepPerformance.deadline);
+        });
+        this.debugLog(`RobustFinder found ${rankedCandidates.length} candidate(s).`);
+        diagnostics.recordRanking(rankedCandidates);
+
+        // --- Validate candidates using SelectiveDomAnalyzer ---
+        if (rankedCandidates.length > 0) {
+            this.debugLog('Validating candidate(s) using SelectiveDomAnalyzer...');
+            SelectiveDomAnalyzer.clearCache(); // Clear cache for this step's validation
+            SelectiveDomAnalyzer.setDebugMode(this.options.debug || Logger.isEnabled('analyzer', 'debug'));
+
+            // Ranking order is preserved, so the first valid candidate is the best remaining match
+            const stopValidateTimer = stepPerformance.start('validate');
+            diagnostics.beginStrategy('Final validation');
+            diagnostics.recordQuery('ranked candidates', rankedCandidates.length, rankedCandidates.length);
+            const validCandidates: ScoredCandidate[] = [];
+            for (const candidate of rankedCandidates) {
+                if (SelectiveDomAnalyzer.validateCandidateElement(candidate.element, interaction)) {
+                    validCandidates.push(candidate);
+                }
+                // Logging for failed validation happens inside SelectiveDomAnalyzer if debugMode is on
+            }
+            diagnostics.endStrategy(validCandidates.length);
+            stopValidateTimer();
+
+            if (validCandidates.length > 0) {
+                const best = validCandidates[0];
+                this.debugLog(`Best candidate confidence ${best.confidence.toFixed(2)} (threshold ${minConfidence}), signals:`, best.signals);
+
+                if (CandidateScorer.isAmbiguous(validCandidates)) {
+                    log.warn(`[CursorFlow] Ambiguity detected: top candidates scored ${best.confidence.toFixed(2)} and ${validCandidates[1].confidence.toFixed(2)}.`);
+                    this.debugLog('Candidates passing validation:', validCandidates.map(c => `${c.confidence.toFixed(2)} ${c.element.outerHTML.substring(0, 100)}...`));
+                }
+
+                if (best.confidence >= minConfidence) {
+                    finalTargetElement = best.element;
+                    outcome = 'found';
+                    this.reportSelectorDrift(best, interaction);
+                } else {
+                    // Too unsure to point at anything; the caller treats this like a missing element
+                    log.warn(`[CursorFlow] Best candidate confidence ${best.confidence.toFixed(2)} is below the threshold ${minConfidence}. Not using it.`);
+                    outcome = 'low_confidence';
+                }
+            } else {
+                // No candidates passed validation
+                this.debugLog('Validation failed: No candidates passed deeper checks.');
+            }
+        } else {
+             // No initial candidates found
+            this.debugLog('Validation skipped: RobustFinder found no initial candidates.');
+        }
+        // --- End Validation ---
+      } finally {
+        RobustElementFinder.setDiagnostics(null);
+        SelectiveDomAnalyzer.setDiagnostics(null);
+      }
+
+      this.lastLocatorDiagnostics = diagnostics.finish(outcome, finalTargetElement);
+      this.events.emit('locatorDiagnostics', this.lastLocatorDiagnostics);
+      return finalTargetElement;
+    }
+  
+    // Abandonment details plus the latest locator summary, when the host opted in
+    private withLocatorDiagnostics(details: string): string {
+      if (!this.options.attachLocatorDiagnostics || !this.lastLocatorDiagnostics) return details;
+      return `${details}\n\n${LocatorDiagnosticsCollector.summarize(this.lastLocatorDiagnostics)}`;
+    }
+  
+    // Found through a fallback strategy? Tell the backend so the step's selector can be updated
+    private reportSelectorDrift(candidate: ScoredCandidate, interaction: InteractionData): void {
+      const step = this.getStepEventPayload();
+      if (!step.flowId) return;
+      const report = SelectorDrift.detect(candidate, interaction, step);
+      if (!report) return;
+
+      log.warn(`[CursorFlow] Selector drift on step ${report.stepPosition}: stored selector no longer matches, found via ${report.matchedStrategy}. Current selector: ${report.current.cssSelector}`);
+      this.executionTracker.trackSelectorDrift(report)
+        .catch(error => log.error('[CursorFlow] Error reporting selector drift:', error));
+    }
+  
+    // Built on the first search of a guide and kept current until it stops (only with options.domIndex)
+    private startDomIndex(): void {
+      if (!this.options.domIndex || this.domIndex) return;
+      this.domIndex = new DomIndex();
+      this.domIndex.start();
+      RobustElementFinder.setIndex(this.domIndex);
+    }
+  
+    private stopDomIndex(): void {
+      if (!this.domIndex) return;
+      this.domIndex.stop();
+      this.domIndex = null;
+      RobustElementFinder.setIndex(null);
+    }
+  
+    // Step setting first, then the instance option, then the default budget
+    private getStepTimeBudgetMs(step: Step): number {
+      return step.timeBudgetMs ?? this.options.stepTimeBudgetMs ?? StepPerformance.DEFAULT_BUDGET_MS;
+    }
+  
+    // Emit a step's phase timings and send them with the execution
+    private reportStepPerformance(stepPerformance: StepPerformance, step: Step, outcome: StepPerformanceMetrics['outcome']): void {
+      const metrics = stepPerformance.toMetrics(this.getStepEventPayload(step), outcome);
+      this.debugLog(`Step ${metrics.position} ${outcome} in ${metrics.totalMs}ms (budget ${metrics.budgetMs}ms):`, metrics.phases);
+      this.events.emit('stepPerformance', metrics);
+
+      if (metrics.overBudget) {
+        log.warn(`[CursorFlow] Step ${metrics.position} took ${metrics.totalMs}ms, over its ${metrics.budgetMs}ms budget:`, metrics.phases);
+        this.events.emit('stepBudgetExceeded', metrics);
+      }
+
+      if (this.executionTracker.isActive()) {
+        this.executionTracker.trackStepPerformance(metrics)
+          .catch(error => log.error('[CursorFlow] Error tracking step performance:', error));
+      }
+    }
+  
+    // Step setting first, then the instance option, then the scorer's default
+    private getMinTargetConfidence(interaction: InteractionData): number {
+      return interaction.minConfidence ?? this.options.minTargetConfidence ?? CandidateScorer.DEFAULT_MIN_CONFIDENCE;
+    }
+  
+    // Keep looking for an optional step's target until the deadline, the step's time budget runs out,
+    // or the step is cancelled
+    private async waitForOptionalTarget(interaction: InteractionData, deadline: number, token: string, stepPerformance: StepPerformance): Promise<HTMLElement | null> {
+      while (Date.now() < deadline) {
+        if (stepPerformance.isOverBudget()) {
+          this.debugLog('Step time budget used up while waiting for the optional step target.');
+          return null;
+        }
+        await new Promise(resolve => setTimeout(resolve, 500));
+        if (this.operationToken !== token || !this.state.isPlaying) {
+          return null;
+        }
+        const element = await this.locateTargetElement(interaction, stepPerformance);
+        if (element) {
+          this.debugLog('Optional step target appeared within the timeout.');
+          return element;
+        }
+      }
+      return null;
+    }
+  
     private async showVisualElements(
       targetElement: HTMLElement | null,
       interactionForContext: InteractionData, // Renamed to avoid confusion, primarily for context/flags
@@ -1061,7 +1388,7 @@ export default class CursorFlow {
       isHighlightStep: boolean,
       isLastStep: boolean
     ): Promise<void> {
-      console.log('[CursorFlow] [VISUAL-ELEMENTS] showVisualElements called with:', {
+      log.debug('[CursorFlow] [VISUAL-ELEMENTS] showVisualElements called with:', {
         element: targetElement ? `${targetElement.tagName}#${targetElement.id || 'noId'}` : 'null',
         displayedText: displayText, // Log the actual text being displayed
         isHighlightStep,
@@ -1069,6 +1396,9 @@ export default class CursorFlow {
         theme: this.options.theme
       });
 
+      // Offer a way back whenever there is an earlier step the user saw
+      const canGoBack = this.getPreviousStepIndex() !== -1;
+
       const existingPopup = document.getElementById('hyphenbox-text-popup');
       if (existingPopup && existingPopup.parentNode) {
         existingPopup.parentNode.removeChild(existingPopup);
@@ -1079,7 +1409,7 @@ export default class CursorFlow {
       }
 
       if (isHighlightStep) {
-        console.log('[CursorFlow] [VISUAL-ELEMENTS] Handling highlight step.');
+        log.debug('[CursorFlow] [VISUAL-ELEMENTS] Handling highlight step.');
 
         if (targetElement && targetElement.isConnected) {
           if (!this.highlightElement) {
@@ -1090,22 +1420,23 @@ export default class CursorFlow {
           }
           CursorFlowUI.positionHighlightOnElement(targetElement, this.highlightElement);
           if(this.highlightElement) this.highlightElement.style.display = 'block';
-          console.log('[CursorFlow] [VISUAL-ELEMENTS] Highlight shown for highlight step.');
+          log.debug('[CursorFlow] [VISUAL-ELEMENTS] Highlight shown for highlight step.');
         } else {
-          console.log('[CursorFlow] [VISUAL-ELEMENTS] No targetElement or element not connected for highlight step. Skipping highlight.');
+          log.debug('[CursorFlow] [VISUAL-ELEMENTS] No targetElement or element not connected for highlight step. Skipping highlight.');
           if (this.highlightElement) {
             this.highlightElement.style.display = 'none';
           }
         }
 
         // Use displayText for the guidance card
-        this.guidanceCardElement = CursorFlowUI.createGuidanceCard(displayText || 'Please follow the instruction.', isLastStep, this.options.theme || {});
+        this.guidanceCardElement = CursorFlowUI.createGuidanceCard(displayText || 'Please follow the instruction.', isLastStep, this.options.theme || {}, canGoBack);
         if (this.guidanceCardElement) {
+          this.attachPreviousButtonListener(this.guidanceCardElement);
           document.body.appendChild(this.guidanceCardElement); // Append to DOM first
           // Now call positionGuidanceCard, passing the targetElement (which can be null)
           CursorFlowUI.positionGuidanceCard(this.guidanceCardElement, targetElement);
         }
-        console.log('[CursorFlow] [VISUAL-ELEMENTS] Guidance card shown and positioned for highlight step.');
+        log.debug('[CursorFlow] [VISUAL-ELEMENTS] Guidance card shown and positioned for highlight step.');
 
         if (this.cursorElement || document.getElementById('hyphenbox-cursor-wrapper')) { 
           const cursorWrapper = document.getElementById('hyphenbox-cursor-wrapper');
@@ -1114,13 +1445,13 @@ export default class CursorFlow {
           }
           this.cursorElement = null;
         }
-        console.log('[CursorFlow] [VISUAL-ELEMENTS] Cursor explicitly hidden/removed for highlight step.');
+        log.debug('[CursorFlow] [VISUAL-ELEMENTS] Cursor explicitly hidden/removed for highlight step.');
 
       } else {
-        console.log('[CursorFlow] [VISUAL-ELEMENTS] Handling interactive (non-highlight) step.');
+        log.debug('[CursorFlow] [VISUAL-ELEMENTS] Handling interactive (non-highlight) step.');
 
         if (!targetElement || !targetElement.isConnected) {
-          console.warn('[CursorFlow] [VISUAL-ELEMENTS] Target element not found or not connected for interactive step. Aborting visual elements.');
+          log.warn('[CursorFlow] [VISUAL-ELEMENTS] Target element not found or not connected for interactive step. Aborting visual elements.');
           CursorFlowUI.cleanupAllUI(true, true);
           return;
         }
@@ -1131,7 +1462,7 @@ export default class CursorFlow {
         // Pass interactionForContext for cursor positioning if it contains element details
         CursorFlowUI.moveCursorToElement(targetElement, this.cursorElement, interactionForContext);
         if(this.cursorElement) this.cursorElement.style.display = 'block';
-        console.log('[CursorFlow] [VISUAL-ELEMENTS] Cursor shown for interactive step.');
+        log.debug('[CursorFlow] [VISUAL-ELEMENTS] Cursor shown for interactive step.');
 
         if (!this.highlightElement) {
           this.highlightElement = CursorFlowUI.createHighlight(this.options.theme || {});
@@ -1141,23 +1472,77 @@ export default class CursorFlow {
         }
         CursorFlowUI.positionHighlightOnElement(targetElement, this.highlightElement);
         if(this.highlightElement) this.highlightElement.style.display = 'block';
-        console.log('[CursorFlow] [VISUAL-ELEMENTS] Highlight shown for interactive step.');
+        log.debug('[CursorFlow] [VISUAL-ELEMENTS] Highlight shown for interactive step.');
         
         // Use displayText for the text popup
         if (displayText) { 
-          this.textPopupElement = CursorFlowUI.createTextPopup(displayText, this.options.theme || {});
+          this.textPopupElement = CursorFlowUI.createTextPopup(displayText, this.options.theme || {}, canGoBack);
+          this.attachPreviousButtonListener(this.textPopupElement);
           if (this.cursorElement && this.textPopupElement) {
               CursorFlowUI.positionTextPopupNearCursor(this.cursorElement, this.textPopupElement);
-              console.log('[CursorFlow] [VISUAL-ELEMENTS] Text popup shown for interactive step.');
+              log.debug('[CursorFlow] [VISUAL-ELEMENTS] Text popup shown for interactive step.');
           } else {
-              console.warn('[CursorFlow] [VISUAL-ELEMENTS] Cursor or text popup element missing for positioning.');
+              log.warn('[CursorFlow] [VISUAL-ELEMENTS] Cursor or text popup element missing for positioning.');
           }
         } else {
-          console.log('[CursorFlow] [VISUAL-ELEMENTS] No display text provided for interactive step popup.');
+          log.debug('[CursorFlow] [VISUAL-ELEMENTS] No display text provided for interactive step popup.');
         }
       }
     }
   
+    // The guidance card or text popup currently on screen (stale references are ignored)
+    private getGuidanceContainer(): HTMLElement | null {
+      if (this.guidanceCardElement && this.guidanceCardElement.isConnected) return this.guidanceCardElement;
+      if (this.textPopupElement && this.textPopupElement.isConnected) return this.textPopupElement;
+      return null;
+    }
+  
+    // Complete the step by itself once one of its auto-advance triggers is met
+    private startAutoAdvance(step: Step, isLastStep: boolean) {
+      this.stopAutoAdvance();
+      if (!step.autoAdvance) return;
+      
+      const token = this.operationToken;
+      this.autoAdvanceWatcher = new AutoAdvanceWatcher(
+        step.autoAdvance,
+        trigger => {
+          this.autoAdvanceWatcher = null;
+          if (this.operationToken !== token || !this.state.isPlaying || this.state.isPaused) return;
+          if (this.sortedSteps[this.state.currentStep] !== step) return;
+          
+          this.debugLog(`Auto-advancing step ${step.position} (trigger: ${trigger.type})`);
+          this.events.emit('stepAutoAdvanced', { ...this.getStepEventPayload(step), trigger: trigger.type });
+          this.completeStep(step.position);
+          if (isLastStep) {
+            this.completeGuide();
+          } else {
+            this.playNextStep();
+          }
+        },
+        progress => CursorFlowUI.setAutoAdvanceProgress(this.getGuidanceContainer(), progress, this.options.theme || {})
+      );
+      this.autoAdvanceWatcher.start();
+    }
+  
+    private stopAutoAdvance() {
+      if (this.autoAdvanceWatcher) {
+        this.autoAdvanceWatcher.stop();
+        this.autoAdvanceWatcher = null;
+      }
+    }
+  
+    // Wire the "Previous" control in a guidance card or text popup, if it has one
+    private attachPreviousButtonListener(container: HTMLElement) {
+      const previousButton = container.querySelector('.hyphen-previous-button');
+      if (!previousButton) return;
+      previousButton.addEventListener('click', (event: Event) => {
+        event.stopPropagation();
+        event.preventDefault();
+        this.debugLog('[CursorFlow] Previous button clicked.');
+        this.previous();
+      });
+    }
+  
     private hideVisualElements() {
       // Stop the validation loop when hiding elements between steps
       this.stopValidationLoop();
@@ -1172,13 +1557,13 @@ export default class CursorFlow {
       // Don't reset cursorElement if keepCursor is true
 
       if (this.options.debug) {
-        console.log(`Visual elements hidden/cleaned up ${keepCursor ? '(keeping cursor)' : '(removing cursor)'}`);
+        log.debug(`Visual elements hidden/cleaned up ${keepCursor ? '(keeping cursor)' : '(removing cursor)'}`);
       }
     }
   
     private setupNavigationDetection() {
       if (this.options.debug) {
-        console.log('Setting up navigation detection');
+        log.debug('Setting up navigation detection');
       }
       
       // Use history API to detect navigation events
@@ -1189,7 +1574,7 @@ export default class CursorFlow {
       history.pushState = (...args) => {
         originalPushState.apply(history, args);
         if (this.options.debug) {
-          console.log('pushState called, args:', args);
+          log.debug('pushState called, args:', args);
         }
         this.handleNavigation();
       };
@@ -1198,7 +1583,7 @@ export default class CursorFlow {
       history.replaceState = (...args) => {
         originalReplaceState.apply(history, args);
         if (this.options.debug) {
-          console.log('replaceState called, args:', args);
+          log.debug('replaceState called, args:', args);
         }
         this.handleNavigation();
       };
@@ -1206,45 +1591,52 @@ export default class CursorFlow {
       // Listen for popstate event (browser back/forward buttons)
       window.addEventListener('popstate', () => {
         if (this.options.debug) {
-          console.log('popstate event triggered');
+          log.debug('popstate event triggered');
         }
         this.handleNavigation();
       });
       
       if (this.options.debug) {
-        console.log('Navigation detection set up');
+        log.debug('Navigation detection set up');
       }
     }
   
     private handleNavigation(continueThroughSteps = false) {
       if (!this.state.isPlaying || this.isHandlingNavigation || this.invalidationInProgress) {
-        console.log('handleNavigation: Initial check failed - Not playing, already handling, or invalidation in progress. Returning early');
+        log.debug('handleNavigation: Initial check failed - Not playing, already handling, or invalidation in progress. Returning early');
+        return;
+      }
+      
+      if (this.state.isPaused) {
+        // Navigation while paused is the user's business; resume() works out where to continue
+        this.debugLog('handleNavigation: Guide is paused, ignoring navigation');
         return;
       }
       
       this.isHandlingNavigation = true;
-      console.log('handleNavigation: Current URL:', window.location.href);
-      console.time('Navigation handling');
+      log.debug('handleNavigation: Current URL:', window.location.href);
+      this.events.emit('navigationDetected', { flowId: this.state.recordingId, url: window.location.href });
+      log.time('Navigation handling');
       
       setTimeout(async () => {
         // **** ADDED CHECK INSIDE TIMEOUT ****
         // Check if stop() was called while we were waiting for the timeout
-        if (!this.state.isPlaying) {
-            console.log('handleNavigation: state.isPlaying is false after timeout. Aborting navigation handling.');
+        if (!this.state.isPlaying || this.state.isPaused) {
+            log.debug('handleNavigation: Not playing or paused after timeout. Aborting navigation handling.');
             this.isHandlingNavigation = false; // Ensure flag is reset
-            console.timeEnd('Navigation handling'); // End timer here
+            log.timeEnd('Navigation handling'); // End timer here
             return;
         }
           
         try {
-          console.time('Check completed steps');
+          log.time('Check completed steps');
           // Check if we have completed the previous step and moved to a new URL
           if (this.state.completedSteps.length > 0) {
             const lastCompletedPosition = this.state.completedSteps[this.state.completedSteps.length - 1];
             const currentPath = window.location.pathname;
             
             // Find next step more efficiently using array method instead of a loop
-            const nextStepIndex = this.sortedSteps.findIndex((step: any) => {
+            const nextStepIndex = this.sortedSteps.findIndex((step: Step) => {
               const stepPosition = step.position || 0;
               return stepPosition > lastCompletedPosition && 
                     !this.state.completedSteps.includes(stepPosition);
@@ -1258,48 +1650,48 @@ export default class CursorFlow {
               
               // Fast path check
               if (nextStepPath && nextStepPath === currentPath) {
-                console.log('handleNavigation: Path match found');
-                this.state.currentStep = this.recording.steps.indexOf(nextExpectedStep);
-                console.timeEnd('Check completed steps');
-                console.time('Play step');
+                log.debug('handleNavigation: Path match found');
+                this.state.currentStep = this.sortedSteps.indexOf(nextExpectedStep);
+                log.timeEnd('Check completed steps');
+                log.time('Play step');
                 // IMPORTANT: Added visual cleanup before playing next step
                 this.hideVisualElements();
-                console.log('handleNavigation: Cleaned up visuals before playing next step');
+                log.debug('handleNavigation: Cleaned up visuals before playing next step');
                 await this.playCurrentStep();
-                console.timeEnd('Play step');
-                console.timeEnd('Navigation handling');
+                log.timeEnd('Play step');
+                log.timeEnd('Navigation handling');
                 this.isHandlingNavigation = false;
                 return;
               }
             }
           }
-          console.timeEnd('Check completed steps');
+          log.timeEnd('Check completed steps');
           
           // Only run detectCurrentContext if needed
-          console.time('Detect context');
+          log.time('Detect context');
           const contextStep = await this.detectCurrentContext();
-          console.timeEnd('Detect context');
+          log.timeEnd('Detect context');
           
           if (contextStep) {
-            console.time('Process context step');
+            log.time('Process context step');
             // Found a matching step for this URL
-            console.log('handleNavigation: Found matching step for this URL');
-            const stepIndex = contextStep.position || this.recording.steps.indexOf(contextStep);
+            log.debug('handleNavigation: Found matching step for this URL');
+            const stepIndex = contextStep.position || this.sortedSteps.indexOf(contextStep);
             
             // Check if this is a backward navigation to a completed step
             const isBackNavigation = this.state.completedSteps.includes(stepIndex);
             
             if (isBackNavigation) {
-              console.log('handleNavigation: Back navigation detected, showing step again');
-              this.state.currentStep = this.recording.steps.indexOf(contextStep);
+              log.debug('handleNavigation: Back navigation detected, showing step again');
+              this.state.currentStep = this.sortedSteps.indexOf(contextStep);
               // IMPORTANT: Added visual cleanup before re-showing the same step
               this.hideVisualElements();
-              console.log('handleNavigation: Cleaned up visuals before re-showing same step');
+              log.debug('handleNavigation: Cleaned up visuals before re-showing same step');
               
               // *** ADDED CHECK ***
               const stepPlayedSuccessfully = await this.playCurrentStep();
               if (!stepPlayedSuccessfully) {
-                console.log('handleNavigation: playCurrentStep failed after back navigation. Stopping guide.');
+                log.debug('handleNavigation: playCurrentStep failed after back navigation. Stopping guide.');
                 this.stop({
                     message: 'Guide stopped: Element for this step could not be found or validated.',
                     type: 'error',
@@ -1307,28 +1699,28 @@ export default class CursorFlow {
                 });
                 // Exit navigation handling early
                  this.isHandlingNavigation = false; 
-                 console.timeEnd('Process context step'); // End timer here before returning
-                 console.timeEnd('Navigation handling');
+                 log.timeEnd('Process context step'); // End timer here before returning
+                 log.timeEnd('Navigation handling');
                  return;
               }
             } else {
               // Forward navigation - check if prerequisites are met
-              const prerequisitesMet = this.sortedSteps.every((step: any) => {
+              const prerequisitesMet = this.sortedSteps.every((step: Step) => {
                 const position = step.position || 0;
                 return position >= stepIndex || this.state.completedSteps.includes(position);
               });
               
               if (prerequisitesMet) {
-                console.log('handleNavigation: Prerequisites met, playing step');
-                this.state.currentStep = this.recording.steps.indexOf(contextStep);
+                log.debug('handleNavigation: Prerequisites met, playing step');
+                this.state.currentStep = this.sortedSteps.indexOf(contextStep);
                 // IMPORTANT: Added visual cleanup before playing step in forward navigation
                 this.hideVisualElements();
-                console.log('handleNavigation: Cleaned up visuals before forward navigation step');
+                log.debug('handleNavigation: Cleaned up visuals before forward navigation step');
                 
                  // *** ADDED CHECK ***
                  const stepPlayedSuccessfully = await this.playCurrentStep();
                  if (!stepPlayedSuccessfully) {
-                    console.log('handleNavigation: playCurrentStep failed during forward navigation. Stopping guide.');
+                    log.debug('handleNavigation: playCurrentStep failed during forward navigation. Stopping guide.');
                     this.stop({
                         message: 'Guide stopped: Element for this step could not be found or validated.',
                         type: 'error',
@@ -1336,19 +1728,19 @@ export default class CursorFlow {
                     });
                      // Exit navigation handling early
                      this.isHandlingNavigation = false; 
-                     console.timeEnd('Process context step'); // End timer here before returning
-                     console.timeEnd('Navigation handling');
+                     log.timeEnd('Process context step'); // End timer here before returning
+                     log.timeEnd('Navigation handling');
                      return;
                 }
               } else {
-                console.log('handleNavigation: Prerequisites not met, showing warning');
+                log.debug('handleNavigation: Prerequisites not met, showing warning');
                 
                 // IMPORTANT: Added visual cleanup before showing error
                 this.hideVisualElements();
-                console.log('handleNavigation: Cleaned up visuals before prerequisites warning');
+                log.debug('handleNavigation: Cleaned up visuals before prerequisites warning');
                 
                 // Find first incomplete step more efficiently
-                const firstIncompleteStep = this.sortedSteps.find((step: any) => {
+                const firstIncompleteStep = this.sortedSteps.find((step: Step) => {
                   const position = step.position || 0;
                   return position < stepIndex && !this.state.completedSteps.includes(position);
                 });
@@ -1374,26 +1766,26 @@ export default class CursorFlow {
                 });
               }
             }
-            console.timeEnd('Process context step');
+            log.timeEnd('Process context step');
           } else {
-            console.log('handleNavigation: No matching steps for this URL');
+            log.debug('handleNavigation: No matching steps for this URL');
             // Check if all steps are completed
-            console.time('Check completion');
-            const allSteps = this.recording.steps || [];
-            const allCompleted = allSteps.every((step: { position?: number }) => {
+            log.time('Check completion');
+            const allSteps = this.recording?.steps || [];
+            const allCompleted = allSteps.every((step: Step) => {
                 const stepPosition = step.position || 0;
                 return this.state.completedSteps.includes(stepPosition);
             });
             if (allCompleted && allSteps.length > 0) {
-                console.log('handleNavigation: All guide steps completed');
+                log.debug('handleNavigation: All guide steps completed');
                 // IMPORTANT: Added visual cleanup before completing guide
                 this.hideVisualElements();
-                console.log('handleNavigation: Cleaned up visuals before completing guide');
+                log.debug('handleNavigation: Cleaned up visuals before completing guide');
                 this.completeGuide();
             } else {
                 // IMPORTANT: Added visual cleanup before showing navigation error
                 this.hideVisualElements();
-                console.log('handleNavigation: Cleaned up visuals before showing navigation error');
+                log.debug('handleNavigation: Cleaned up visuals before showing navigation error');
                 
                 // Track navigation abandonment if we're actively tracking
                 if (this.executionTracker.isActive() && this.state.recordingId) {
@@ -1402,7 +1794,7 @@ export default class CursorFlow {
                     'navigation',
                     `User navigated away from guide path to ${currentUrl}`
                   ).catch(error => {
-                    console.warn(`Failed to track navigation abandonment: ${error}`);
+                    log.warn(`Failed to track navigation abandonment: ${error}`);
                     // Continue with stop even if tracking fails
                   });
                 }
@@ -1420,103 +1812,134 @@ export default class CursorFlow {
                     type: 'warning'
                 });
             }
-            console.timeEnd('Check completion');
+            log.timeEnd('Check completion');
           }
         } catch (error) {
-          console.error('Error handling navigation:', error);
+          log.error('Error handling navigation:', error);
           // Ensure stop is called even on error during navigation handling
           // Check isPlaying again before stopping to avoid redundant calls if stop was already called
           if (this.state.isPlaying) {
               // IMPORTANT: Added visual cleanup before stopping due to error
               this.hideVisualElements();
-              console.log('handleNavigation: Cleaned up visuals before stopping due to error');
+              log.debug('handleNavigation: Cleaned up visuals before stopping due to error');
               this.stop({ message: 'Error during navigation', type: 'error' });
           }
         } finally {
-          console.timeEnd('Navigation handling');
+          log.timeEnd('Navigation handling');
           this.isHandlingNavigation = false;
         }
       }, 50); 
     }
   
-    private setupElementInteractionTracking(element: HTMLElement, interaction: any) {
+    private setupElementInteractionTracking(element: HTMLElement, interaction: InteractionData) {
       // Remove previous listener IF IT EXISTS AND IS DIFFERENT
       this.removeExistingListeners(); // Call this first
 
       if (!element || !interaction) return;
 
       if (this.options.debug) {
-          console.log('[CursorFlow] Setting up interaction tracking for element:', element);
-          console.log('[CursorFlow] Interaction data for tracking:', interaction);
+          log.debug('[CursorFlow] Setting up interaction tracking for element:', element);
+          log.debug('[CursorFlow] Interaction data for tracking:', interaction);
       }
 
       // Store current interaction type
       this.currentInteractionType = interaction.action || 'click';
 
       if (!this.currentInteractionType) {
-          console.warn('[CursorFlow] No interaction type specified');
+          log.warn('[CursorFlow] No interaction type specified');
           return;
       }
 
       const eventType = this.getEventTypeForInteraction(this.currentInteractionType);
       if (!eventType) {
-          console.warn('[CursorFlow] Unknown interaction type for tracking:', this.currentInteractionType);
+          log.warn('[CursorFlow] Unknown interaction type for tracking:', this.currentInteractionType);
           return;
       }
 
+      const actionType = this.currentInteractionType.toLowerCase();
+      // Most actions are observed on the element itself; submit, scroll-to and global shortcuts are not
+      const listenerTarget = this.getListenerTargetForInteraction(actionType, element);
+
+      const completeInteraction = (event: Event) => {
+          // Stop the validation loop as soon as a valid interaction starts
+          this.stopValidationLoop();
+
+          const currentStep = this.sortedSteps[this.state.currentStep]; // Use sortedSteps
+          const stepIndex = currentStep?.position !== undefined ? currentStep.position : this.state.currentStep;
+
+          this.debugLog(`Marking step completed: Index=${this.state.currentStep}, Position=${stepIndex}`);
+          
+          // Track step completion via the FlowExecutionTracker 
+          if (currentStep && currentStep.id && this.executionTracker.isActive()) {
+            this.debugLog(`Tracking completion of step ID=${currentStep.id}, Position=${stepIndex}`);
+          }
+          
+          this.completeStep(stepIndex); // Pass the correct identifier
+
+          // Links that leave this tab or origin hand the guide over instead of navigating under it
+          const link = event.type === 'click' && FrameUtils.isInstance(event.target, 'Element') ? event.target.closest('a[href]') as HTMLAnchorElement | null : null;
+          if (link && this.handoff.canHandOffTo(link.href)) {
+              event.preventDefault();
+              this.handOffToOrigin(link.href, this.opensInNewTab(link, event));
+              return;
+          }
+          if (link && this.opensInNewTab(link, event)) {
+              this.offerHandoffToNewTab(link.href);
+              return;
+          }
+
+           // If this interaction causes navigation (e.g., clicking a link/button that changes URL)
+          const isNavigationTrigger =
+              (FrameUtils.isInstance(event.target, 'HTMLAnchorElement') && event.target.href && !event.target.target) ||
+              actionType === 'navigation'; // Explicit navigation step type?
+          // Form submission only navigates if the app lets it; SPAs often save in place
+          const isSubmitTrigger =
+              (FrameUtils.isInstance(event.target, 'HTMLButtonElement') && event.target.type === 'submit') ||
+              actionType === 'submit';
+
+          const currentURL = window.location.href;
+          // Check if URL is likely to change after a microtask delay
+          queueMicrotask(() => {
+              if (window.location.href !== currentURL || isNavigationTrigger) {
+                  this.debugLog('Navigation detected or expected after interaction. Letting handleNavigation take over.');
+                  StateManager.saveWithDebounce(this.state, true); // Save state immediately before potential navigation
+                  this.hideVisualElements(); // Clean up visuals
+                  this.removeExistingListeners(); // Remove listener before navigating
+                  // DO NOT CALL playNextStep here, handleNavigation will manage it.
+              } else if (isSubmitTrigger) {
+                  this.awaitSubmitNavigation(currentURL);
+              } else {
+                   // Only play next step if no navigation occurred
+                   this.debugLog('No navigation detected. Moving to next step...');
+                   this.playNextStep();
+              }
+          });
+      };
+
       // Create handler
       this.currentListener = (event) => {
           this.debugLog(`${eventType} event triggered:`, event);
           this.debugLog('Target element:', event.target);
 
           // Check if the event originated from the expected element or its child
-          if (!element.contains(event.target as Node)) {
+          // (document/window level listeners accept events from anywhere)
+          // (frame nodes fail instanceof Node, so check for contains() instead)
+          if (typeof (listenerTarget as Node).contains === 'function' && !(listenerTarget as Node).contains(event.target as Node)) {
               this.debugLog('Event target is outside the tracked element. Ignoring.');
               return; // Ignore events bubbling up from outside the target
           }
 
-          // Stop the validation loop as soon as a valid interaction starts
-          this.stopValidationLoop();
-
           // Validate interaction (e.g., check input value if needed)
           if (this.validateInteraction(event, interaction)) {
               this.debugLog('Interaction validated successfully.');
 
-              const currentStep = this.sortedSteps[this.state.currentStep]; // Use sortedSteps
-              const stepIndex = currentStep?.position !== undefined ? currentStep.position : this.state.currentStep;
-
-              this.debugLog(`Marking step completed: Index=${this.state.currentStep}, Position=${stepIndex}`);
-              
-              // Track step completion via the FlowExecutionTracker 
-              if (currentStep && currentStep.id && this.executionTracker.isActive()) {
-                this.debugLog(`Tracking completion of step ID=${currentStep.id}, Position=${stepIndex}`);
+              // Hover steps may require the pointer to stay on the element for a while
+              if (actionType === 'hover' && interaction.dwellMs && interaction.dwellMs > 0) {
+                  this.startHoverDwell(element, interaction.dwellMs, () => completeInteraction(event));
+                  return;
               }
-              
-              this.completeStep(stepIndex); // Pass the correct identifier
-
-               // If this interaction causes navigation (e.g., clicking a link/button that changes URL)
-              const isNavigationTrigger =
-                  (event.target instanceof HTMLAnchorElement && event.target.href && !event.target.target) ||
-                  (event.target instanceof HTMLButtonElement && event.target.type === 'submit') || // Form submission
-                  interaction.action === 'navigation'; // Explicit navigation step type?
-
-              const currentURL = window.location.href;
-              // Check if URL is likely to change after a microtask delay
-              queueMicrotask(() => {
-                  if (window.location.href !== currentURL || isNavigationTrigger) {
-                      this.debugLog('Navigation detected or expected after interaction. Letting handleNavigation take over.');
-                      StateManager.saveWithDebounce(this.state, true); // Save state immediately before potential navigation
-                      this.hideVisualElements(); // Clean up visuals
-                      this.removeExistingListeners(); // Remove listener before navigating
-                      // DO NOT CALL playNextStep here, handleNavigation will manage it.
-                  } else {
-                       // Only play next step if no navigation occurred
-                       this.debugLog('No navigation detected. Moving to next step...');
-                       this.playNextStep();
-                  }
-              });
-
 
+              completeInteraction(event);
           } else {
               this.debugLog('Interaction validation failed.');
               // Optionally handle failed validation (e.g., show error)
@@ -1524,11 +1947,169 @@ export default class CursorFlow {
       };
 
       // ADDED: Log the specific element the listener is being added to.
-      console.log(`[CursorFlow] Adding ${eventType} listener to element:`, element);
-      element.addEventListener(eventType, this.currentListener, { capture: true }); // Use capture phase maybe? Test this.
+      log.debug(`[CursorFlow] Adding ${eventType} listener to:`, listenerTarget);
+      listenerTarget.addEventListener(eventType, this.currentListener, { capture: true }); // Use capture phase maybe? Test this.
+      this.currentListenerTarget = listenerTarget;
+
+      if (eventType === 'click') {
+        this.setupOffTargetClickDetection(element);
+      }
+
+      // The element may already be where a scroll-to step wants it
+      if (actionType === 'scroll-to' && this.isElementScrolledIntoView(element, interaction)) {
+        this.debugLog('scroll-to target already in view. Completing step.');
+        requestAnimationFrame(() => {
+          if (this.currentListenerTarget === listenerTarget && this.currentInteractionType) {
+            completeInteraction(new Event('scroll'));
+          }
+        });
+      }
 
       if (this.options.debug) {
-          console.log(`[CursorFlow] Set up ${eventType} listener for element:`, element);
+          log.debug(`[CursorFlow] Set up ${eventType} listener for element:`, element);
+      }
+    }
+  
+    private getListenerTargetForInteraction(actionType: string, element: HTMLElement): EventTarget {
+      switch (actionType) {
+        case 'submit':
+          // submit fires on the form, not on the submit button that was recorded
+          return FrameUtils.isInstance(element, 'HTMLFormElement') ? element : (element.closest('form') || element);
+        case 'scroll-to':
+          // Scroll events don't bubble; capture on window sees scrolling of any container
+          // (the element's own window when it lives in an iframe)
+          return element.ownerDocument.defaultView || window;
+        case 'keypress':
+          // Shortcuts are global unless the step targets an editable field
+          return this.isEditableElement(element) ? element : element.ownerDocument;
+        default:
+          return element;
+      }
+    }
+  
+    private isEditableElement(element: HTMLElement): boolean {
+      return FrameUtils.isInstance(element, 'HTMLInputElement') ||
+        FrameUtils.isInstance(element, 'HTMLTextAreaElement') ||
+        FrameUtils.isInstance(element, 'HTMLSelectElement') ||
+        element.isContentEditable;
+    }
+  
+    /**
+     * After a submit, give the page a moment to navigate. A full page load or URL change is left
+     * to handleNavigation; a submit that saves in place (preventDefault, same URL) moves on to the next step.
+     */
+    private awaitSubmitNavigation(urlBeforeSubmit: string) {
+      StateManager.saveWithDebounce(this.state, true); // The submit may still start a page load
+      this.hideVisualElements();
+      this.removeExistingListeners();
+
+      const stepIndex = this.state.currentStep;
+      let unloading = false;
+      const onBeforeUnload = () => { unloading = true; };
+      const timer = setTimeout(() => {
+        cancel();
+        if (unloading || !this.state.isPlaying || this.state.currentStep !== stepIndex) return;
+        if (window.location.href !== urlBeforeSubmit) {
+          this.debugLog('Submit changed the URL. Letting handleNavigation take over.');
+          return;
+        }
+        this.debugLog('Submit completed without navigation. Moving to next step...');
+        this.playNextStep();
+      }, CursorFlow.SUBMIT_NAVIGATION_GRACE_MS);
+      const cancel = () => {
+        clearTimeout(timer);
+        window.removeEventListener('beforeunload', onBeforeUnload);
+        this.cancelSubmitFallback = null;
+      };
+      window.addEventListener('beforeunload', onBeforeUnload);
+      this.cancelSubmitFallback = cancel;
+    }
+  
+    // Complete a hover step only once the pointer has stayed on the element for dwellMs
+    private startHoverDwell(element: HTMLElement, dwellMs: number, onDwell: () => void) {
+      if (this.cancelHoverDwell) return; // Already counting
+      
+      let dwellTimer: any = null;
+      const cancel = () => {
+        if (dwellTimer) clearTimeout(dwellTimer);
+        element.removeEventListener('mouseleave', cancel);
+        this.cancelHoverDwell = null;
+      };
+      element.addEventListener('mouseleave', cancel);
+      this.cancelHoverDwell = cancel;
+      
+      this.debugLog(`Hover started, waiting ${dwellMs}ms dwell`);
+      dwellTimer = setTimeout(() => {
+        cancel();
+        onDwell();
+      }, dwellMs);
+    }
+  
+    // Watch for clicks that land outside the target element while a click step is active
+    private setupOffTargetClickDetection(element: HTMLElement) {
+      this.offTargetListener = (event: Event) => {
+        // event.target is retargeted to the outermost shadow host at document level; composedPath has the real target
+        const clickedElement = (event.composedPath()[0] || event.target) as HTMLElement | null;
+        if (!clickedElement || ShadowDom.composedContains(element, clickedElement)) return;
+        // Clicks on our own UI (guidance card, popup, start button, notifications) don't count
+        if (clickedElement.closest && clickedElement.closest(`[${CursorFlowUI.UI_ATTRIBUTE}]`)) return;
+        this.handleOffTargetClick();
+      };
+      // Clicks inside an iframe never reach this document, so watch the target's own document too
+      this.offTargetDocuments = element.ownerDocument === document ? [document] : [document, element.ownerDocument];
+      this.offTargetDocuments.forEach(doc => doc.addEventListener('click', this.offTargetListener!, { capture: true }));
+    }
+  
+    /**
+     * Resolve the off-target click settings for a step: step settings override the flow's
+     */
+    private getOffTargetSettings(step?: Step): OffTargetClickSettings {
+      return {
+        ...(this.recording?.offTargetClicks || {}),
+        ...(step?.offTargetClicks || {})
+      };
+    }
+  
+    private handleOffTargetClick() {
+      const currentStep = this.sortedSteps[this.state.currentStep];
+      const settings = this.getOffTargetSettings(currentStep);
+      const basePolicy: OffTargetClickPolicy = settings.policy || 'nudge';
+      
+      this.offTargetClickCount++;
+      
+      // Escalate once the user has clicked off-target more often than the step tolerates
+      let policy = basePolicy;
+      if (settings.escalateAfter !== undefined && this.offTargetClickCount > settings.escalateAfter) {
+        policy = settings.escalateTo || (basePolicy === 'ignore' ? 'nudge' : 'stop');
+      }
+      
+      this.debugLog(`Off-target click #${this.offTargetClickCount}, policy: ${policy}`);
+      this.events.emit('offTargetClick', {
+        ...this.getStepEventPayload(currentStep),
+        count: this.offTargetClickCount,
+        policy
+      });
+      
+      switch (policy) {
+        case 'ignore':
+          break;
+        case 'nudge':
+          CursorFlowUI.pulseHighlight(this.highlightElement);
+          if (this.currentTargetElement) {
+            CursorFlowUI.showOffTargetHint(
+              this.currentTargetElement,
+              settings.hint || 'Click the highlighted element to continue',
+              this.options.theme || {}
+            );
+          }
+          break;
+        case 'stop':
+          log.debug('User clicked outside the highlighted element, stopping guide');
+          this.stop({
+            message: 'Incorrect click. Guide stopped.',
+            type: 'error'
+          });
+          break;
       }
     }
   
@@ -1545,12 +2126,26 @@ export default class CursorFlow {
           return 'focus';
         case 'hover':
           return 'mouseover';
+        case 'keypress':
+          return 'keydown';
+        case 'submit':
+          return 'submit';
+        case 'check':
+        case 'uncheck':
+        case 'file-select':
+          return 'change';
+        case 'dblclick':
+          return 'dblclick';
+        case 'drag-drop':
+          return 'dragend';
+        case 'scroll-to':
+          return 'scroll';
         default:
           return null;
       }
     }
   
-    private validateInteraction(event: Event, expectedInteraction: any): boolean {
+    private validateInteraction(event: Event, expectedInteraction: InteractionData): boolean {
       if (!event || !expectedInteraction) return false;
       
       const interactionType = expectedInteraction.action?.toLowerCase() || 'click';
@@ -1561,17 +2156,8 @@ export default class CursorFlow {
         if (this.currentTargetElement) {
           const clickedElement = event.target as HTMLElement;
           if (!this.currentTargetElement.contains(clickedElement)) {
-            // User clicked outside the highlighted element
-            console.log('User clicked outside the highlighted element, stopping guide');
-            
-            // Show notification
-            this.stop({
-              message: 'Incorrect click. Guide stopped.',
-              type: 'error'
-            });
-            
-            // Stop the guide
-            setTimeout(() => this.stop(), 100);
+            // User clicked outside the highlighted element - the step's off-target policy decides
+            this.handleOffTargetClick();
             return false;
           }
         }
@@ -1584,54 +2170,285 @@ export default class CursorFlow {
           
         case 'input':
         case 'type':
-          // For input, check if input has expected value
-          if (event.target instanceof HTMLInputElement ||
-              event.target instanceof HTMLTextAreaElement) {
+          // For input, check the typed value against the step's match rule
+          if (FrameUtils.isInstance(event.target, 'HTMLInputElement') ||
+              FrameUtils.isInstance(event.target, 'HTMLTextAreaElement')) {
             const inputElement = event.target as HTMLInputElement;
-            
-            // If expectedValue is specified, check against it
-            if (expectedInteraction.value) {
-              return inputElement.value.includes(expectedInteraction.value);
-            }
-            
-            // Otherwise just check that some input was provided
-            return !!inputElement.value.trim();
+            return this.checkValue(inputElement.value, ValueMatcher.resolveRule(expectedInteraction, 'contains'));
           }
           return false;
           
         case 'change':
           // For select elements, check if value matches expected
-          if (event.target instanceof HTMLSelectElement) {
+          if (FrameUtils.isInstance(event.target, 'HTMLSelectElement')) {
             const selectElement = event.target as HTMLSelectElement;
             
-            if (expectedInteraction.value) {
-              return selectElement.value === expectedInteraction.value;
+            if (expectedInteraction.value || expectedInteraction.valueMatch) {
+              return this.checkValue(selectElement.value, ValueMatcher.resolveRule(expectedInteraction, 'exact'));
             }
             
             return true;
           }
           return true;
           
+        case 'keypress':
+          return FrameUtils.isInstance(event, 'KeyboardEvent') && this.matchesKeyCombo(event, expectedInteraction.key);
+          
+        case 'submit':
+          // The listener only sees submit events from the step's form
+          return true;
+          
+        case 'check':
+        case 'uncheck': {
+          const shouldBeChecked = interactionType === 'check';
+          if (FrameUtils.isInstance(event.target, 'HTMLInputElement')) {
+            return event.target.checked === shouldBeChecked;
+          }
+          // Custom checkbox widgets report their state through aria-checked
+          const ariaChecked = (event.target as HTMLElement)?.getAttribute?.('aria-checked');
+          return ariaChecked === null ? true : (ariaChecked === 'true') === shouldBeChecked;
+        }
+          
+        case 'dblclick':
+          return true;
+          
+        case 'drag-drop':
+          return this.validateDrop(event as DragEvent, expectedInteraction);
+          
+        case 'file-select':
+          if (FrameUtils.isInstance(event.target, 'HTMLInputElement') && event.target.type === 'file') {
+            return this.validateSelectedFiles(event.target.files, expectedInteraction.fileTypes);
+          }
+          return false;
+          
+        case 'scroll-to':
+          return !!this.currentTargetElement && this.isElementScrolledIntoView(this.currentTargetElement, expectedInteraction);
+          
         default:
           // For other types, just pass validation
           return true;
       }
     }
   
+    // Match a value and keep the inline feedback in the guidance UI in sync with the result
+    private checkValue(value: string, rule: ValueMatchRule): boolean {
+      const matched = ValueMatcher.matches(value, rule);
+      this.debugLog(`Value check (${rule.mode}): ${matched ? 'matched' : 'not matched yet'}`);
+      CursorFlowUI.setValueFeedback(
+        this.getGuidanceContainer(),
+        matched ? null : ValueMatcher.describe(rule)
+      );
+      return matched;
+    }
+  
+    /**
+     * Check a keydown against a combo such as "Enter", "Ctrl+S" or "Mod+K" (Mod = Cmd on Mac, Ctrl elsewhere).
+     * Ctrl/Alt/Meta must match exactly; Shift is only checked when the combo names it.
+     */
+    private matchesKeyCombo(event: KeyboardEvent, combo?: string): boolean {
+      if (!combo) return true; // Any key will do
+      
+      const parts = combo.split('+').map(part => part.trim().toLowerCase()).filter(Boolean);
+      const key = parts.pop();
+      if (!key) return false;
+      
+      const isMac = /mac|iphone|ipad/i.test(navigator.platform || '');
+      const wanted = { ctrl: false, alt: false, shift: false, meta: false };
+      parts.forEach(modifier => {
+        if (modifier === 'ctrl' || modifier === 'control') wanted.ctrl = true;
+        else if (modifier === 'alt' || modifier === 'option') wanted.alt = true;
+        else if (modifier === 'shift') wanted.shift = true;
+        else if (modifier === 'meta' || modifier === 'cmd' || modifier === 'command') wanted.meta = true;
+        else if (modifier === 'mod' && isMac) wanted.meta = true;
+        else if (modifier === 'mod') wanted.ctrl = true;
+      });
+      
+      if (event.ctrlKey !== wanted.ctrl || event.altKey !== wanted.alt || event.metaKey !== wanted.meta) return false;
+      if (wanted.shift && !event.shiftKey) return false;
+      
+      const pressed = event.key === ' ' ? 'space' : (event.key || '').toLowerCase();
+      const aliases: { [key: string]: string } = { esc: 'escape', return: 'enter', del: 'delete', up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright' };
+      return pressed === (aliases[key] || key);
+    }
+  
+    // A drag counts once it was actually dropped, and on the configured drop target if there is one
+    private validateDrop(event: DragEvent, expectedInteraction: InteractionData): boolean {
+      if (event.dataTransfer && event.dataTransfer.dropEffect === 'none') {
+        this.debugLog('Drag ended without a drop.');
+        return false;
+      }
+      if (!expectedInteraction.dropTargetSelector) return true;
+      
+      const dropTarget = document.querySelector(expectedInteraction.dropTargetSelector);
+      if (!dropTarget) return false;
+      // Some browsers report 0,0 for dragend; trust the drop effect in that case
+      if (!event.clientX && !event.clientY) return true;
+      
+      const droppedOn = document.elementFromPoint(event.clientX, event.clientY);
+      return !!droppedOn && dropTarget.contains(droppedOn);
+    }
+  
+    // At least one file, and every file matches one of the accepted extensions/MIME types
+    private validateSelectedFiles(files: FileList | null, fileTypes?: string[]): boolean {
+      if (!files || files.length === 0) return false;
+      if (!fileTypes || fileTypes.length === 0) return true;
+      
+      const accepted = fileTypes.map(type => type.trim().toLowerCase());
+      return Array.from(files).every(file => {
+        const name = file.name.toLowerCase();
+        const mime = (file.type || '').toLowerCase();
+        return accepted.some(type => {
+          if (type.startsWith('.')) return name.endsWith(type);
+          if (type.endsWith('/*')) return mime.startsWith(type.slice(0, -1));
+          return mime === type;
+        });
+      });
+    }
+  
+    // Fraction of the element inside the viewport, compared to the step's minVisibleRatio (default half)
+    private isElementScrolledIntoView(element: HTMLElement, expectedInteraction: InteractionData): boolean {
+      const rect = FrameUtils.getViewportRect(element);
+      const area = rect.width * rect.height;
+      if (area === 0) return false;
+      
+      const visibleWidth = Math.max(0, Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0));
+      const visibleHeight = Math.max(0, Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0));
+      const minRatio = expectedInteraction.minVisibleRatio ?? 0.5;
+      return (visibleWidth * visibleHeight) / area >= minRatio;
+    }
+  
+    // Called on a fresh tab: take over a guide from a URL token, or from the tab that opened this one
+    // (only asked when that tab announced an offer for this URL, so other fresh tabs don't wait)
+    private async claimHandoff(guideActiveElsewhere: boolean): Promise<boolean> {
+      let payload = await this.handoff.consumeUrlToken();
+      let from: HandoffChannel = 'origin';
+      if (!payload && guideActiveElsewhere) {
+        payload = await this.handoff.requestFromOtherTabs();
+        from = 'tab';
+      }
+      if (!payload || !payload.state.recordingId) return false;
+
+      log.debug(`[CursorFlow] Continuing guide handed over from another ${from}`);
+      this.state = { ...payload.state, isPlaying: true, isPaused: false, timestamp: Date.now() };
+      StateManager.setSessionActive();
+      StateManager.saveWithDebounce(this.state, true);
+      if (payload.executionId) {
+        this.executionTracker.adopt(payload.state.recordingId, payload.executionId);
+      }
+      this.events.emit('flowHandoffReceived', { ...this.getStepEventPayload(), from });
+      return true;
+    }
+
+    private createHandoffPayload(): HandoffPayload {
+      return {
+        state: {
+          ...this.state,
+          completedSteps: [...this.state.completedSteps],
+          skippedSteps: [...(this.state.skippedSteps || [])]
+        },
+        executionId: this.executionTracker.getExecutionId(),
+        issuedAt: Date.now(),
+        nonce: FlowHandoff.createNonce()
+      };
+    }
+
+    private opensInNewTab(link: HTMLAnchorElement, event: Event): boolean {
+      if (link.target === '_blank') return true;
+      const mouseEvent = event as MouseEvent;
+      return !!(mouseEvent.ctrlKey || mouseEvent.metaKey || mouseEvent.shiftKey);
+    }
+
+    // The step opened a same-origin link in a new tab: hide the guide here and let that tab claim it
+    private offerHandoffToNewTab(url: string): void {
+      const currentToken = this.operationToken;
+      StateManager.saveWithDebounce(this.state, true);
+      this.hideVisualElements();
+      this.removeExistingListeners();
+
+      this.handoff.offerToNewTab(this.createHandoffPayload(), url, () => this.standDownAfterHandoff('tab'));
+
+      // Nobody claimed it (e.g. the new page doesn't load the SDK): carry on in this tab
+      this.clearHandoffFallback();
+      this.handoffFallbackTimeout = setTimeout(() => {
+        this.handoffFallbackTimeout = null;
+        if (currentToken !== this.operationToken || !this.state.isPlaying) return;
+        this.handoff.cancelOffer();
+        this.debugLog('Handoff was not claimed. Continuing in this tab.');
+        this.playNextStep();
+      }, FlowHandoff.OFFER_TTL_MS);
+    }
+
+    // The step links to another allowed origin: carry the guide over in a URL token from the host's token service
+    private async handOffToOrigin(url: string, newTab: boolean): Promise<void> {
+      const handoffUrl = await this.handoff.decorateUrl(url, this.createHandoffPayload());
+      if (handoffUrl === url) {
+        log.warn('[CursorFlow] No handoff token was issued, the guide will not continue on', url);
+      }
+      this.standDownAfterHandoff('origin');
+      if (newTab) {
+        window.open(handoffUrl, '_blank', 'noopener');
+      } else {
+        window.location.href = handoffUrl;
+      }
+    }
+
+    // Another tab or origin now owns the guide: go idle here without touching the shared saved state
+    private standDownAfterHandoff(to: HandoffChannel): void {
+      this.clearHandoffFallback();
+      this.stopDomIndex();
+      this.operationToken = this.generateToken();
+      this.events.emit('flowHandedOff', { ...this.getStepEventPayload(), to });
+
+      this.hideVisualElements();
+      this.removeExistingListeners();
+      CursorFlowUI.cleanupAllUI(false, true);
+      this.cursorElement = null;
+      this.highlightElement = null;
+      this.currentTargetElement = null;
+
+      this.state.isPlaying = false;
+      StateManager.clearSession();
+      this.updateButtonState();
+    }
+
+    private clearHandoffFallback(): void {
+      if (this.handoffFallbackTimeout) {
+        clearTimeout(this.handoffFallbackTimeout);
+        this.handoffFallbackTimeout = null;
+      }
+    }
+  
     private removeExistingListeners() {
         // Stop validation loop when listeners are removed (e.g., before moving to next step)
         this.stopValidationLoop();
+        this.stopAutoAdvance();
+
+        if (this.offTargetListener) {
+          this.offTargetDocuments.forEach(doc => doc.removeEventListener('click', this.offTargetListener!, { capture: true }));
+          this.offTargetDocuments = [];
+          this.offTargetListener = null;
+        }
+
+        if (this.cancelHoverDwell) {
+          this.cancelHoverDwell();
+        }
 
-        if (this.currentTargetElement && this.currentListener && this.currentInteractionType) {
+        if (this.cancelSubmitFallback) {
+          this.cancelSubmitFallback();
+        }
+
+        const listenerTarget = this.currentListenerTarget || this.currentTargetElement;
+        if (listenerTarget && this.currentListener && this.currentInteractionType) {
           const eventType = this.getEventTypeForInteraction(this.currentInteractionType);
           if (eventType) {
              // Ensure listener removal happens correctly, especially with capture phase
-             this.currentTargetElement.removeEventListener(eventType, this.currentListener, { capture: true });
-             this.debugLog(`Removed ${eventType} listener from element:`, this.currentTargetElement);
+             listenerTarget.removeEventListener(eventType, this.currentListener, { capture: true });
+             this.debugLog(`Removed ${eventType} listener from:`, listenerTarget);
           }
         }
          // Reset tracking properties *after* removing
         this.currentListener = null;
+        this.currentListenerTarget = null;
         this.currentInteractionType = null;
         // this.currentTargetElement = null; // Don't nullify currentTargetElement here, it's needed elsewhere
     }
@@ -1653,6 +2470,8 @@ export default class CursorFlow {
         this.debugLog(`Interaction error at ${stepDetails}: Element not found or not interactive`);
       }
       
+      this.events.emit('stepFailed', { ...this.getStepEventPayload(currentStepInfo), reason: 'Element not found or not interactive' });
+      
       CursorFlowUI.showErrorNotification(
         'We couldn\'t find the element for this step.',
         {
@@ -1669,7 +2488,7 @@ export default class CursorFlow {
     }
   
     // Add this method to find the next logical step based on completed steps
-    private findNextStep(): any | null {
+    private findNextStep(): Step | null {
       if (!this.recording || !this.sortedSteps || this.sortedSteps.length === 0) {
         this.debugLog('findNextStep: No recording or steps available.');
         return null;
@@ -1677,11 +2496,8 @@ export default class CursorFlow {
 
       this.debugLog('findNextStep: Looking for next step. Completed steps:', this.state.completedSteps);
 
-      // Find the first step in sortedSteps whose position is not in completedSteps
-      const nextStep = this.sortedSteps.find(step => {
-         const stepId = step.position !== undefined ? step.position : this.sortedSteps.indexOf(step);
-         return !this.state.completedSteps.includes(stepId);
-      });
+      // Find the first uncompleted step, then let its conditions/branches have their say
+      const nextStep = this.routeFromStep(this.getFirstUncompletedStep());
 
 
       if (nextStep) {
@@ -1698,21 +2514,26 @@ export default class CursorFlow {
     // Add a new method for guide completion
     private completeGuide() {
       if (this.options.debug) {
-        console.log('All guide steps completed, resetting state');
+        log.debug('All guide steps completed, resetting state');
       }
       
       // Clear any redirect guide ID
       try {
         localStorage.removeItem('hyphen_redirect_guide_id');
+        localStorage.removeItem('hyphen_redirect_from_step');
       } catch (err) {
-        console.warn('Failed to clear redirect guide ID on completion:', err);
+        log.warn('Failed to clear redirect guide ID on completion:', err);
+      }
+      
+      if (this.state.recordingId) {
+        this.events.emit('flowCompleted', { flowId: this.state.recordingId });
       }
       
       // Track successful completion of the flow
       if (this.executionTracker.isActive()) {
         this.executionTracker.trackCompletion()
           .catch(error => {
-            console.warn(`Failed to track flow completion: ${error}`);
+            log.warn(`Failed to track flow completion: ${error}`);
             // Continue with guide completion even if tracking fails
           });
       }
@@ -1738,10 +2559,95 @@ export default class CursorFlow {
       }
       
       if (this.options.debug) {
-        console.log('Visual elements created');
+        log.debug('Visual elements created');
       }
     }
 
+    private getFirstUncompletedStep(): Step | null {
+      return this.sortedSteps.find(step => {
+         const stepId = step.position !== undefined ? step.position : this.sortedSteps.indexOf(step);
+         return !this.state.completedSteps.includes(stepId);
+      }) || null;
+    }
+  
+    private getConditionContext(step: Step): ConditionContext {
+      return {
+        flowId: this.state.recordingId,
+        step,
+        userAttributes: this.options.userAttributes || {},
+        predicates: this.options.conditionPredicates || {}
+      };
+    }
+  
+    /**
+     * Apply step conditions and branches starting at a candidate step.
+     * Steps whose condition fails, and steps jumped over by a branch, are recorded as skipped.
+     * @returns The step that should actually be shown, or null if nothing is left
+     */
+    private routeFromStep(candidate: Step | null): Step | null {
+      const visited = new Set<Step>();
+      
+      while (candidate && !visited.has(candidate)) {
+        const step: Step = candidate;
+        visited.add(step);
+        const context = this.getConditionContext(step);
+        
+        if (step.condition && !ConditionEvaluator.evaluate(step.condition, context)) {
+          this.debugLog(`Step ${step.position} condition not met, skipping`);
+          this.skipStep(step, 'condition');
+          candidate = this.getFirstUncompletedStep();
+          continue;
+        }
+        
+        const branch = (step.branches || []).find(b => ConditionEvaluator.evaluate(b.when, context));
+        if (branch) {
+          const target = this.sortedSteps.find(s => s.position === branch.goTo);
+          if (target && target.position > step.position) {
+            this.debugLog(`Step ${step.position} branch taken, jumping to step ${target.position}`);
+            this.sortedSteps
+              .filter(s => s.position >= step.position && s.position < target.position)
+              .forEach(s => this.skipStep(s, 'branch'));
+            candidate = this.state.completedSteps.includes(target.position) ? this.getFirstUncompletedStep() : target;
+            continue;
+          }
+          log.warn(`[CursorFlow] Ignoring branch on step ${step.position}: target ${branch.goTo} is not a later step`);
+        }
+        
+        return step;
+      }
+      
+      return candidate;
+    }
+  
+    // Record a step as passed over without the user doing it
+    private skipStep(step: Step, reason: StepSkipReason) {
+      if (this.state.completedSteps.includes(step.position)) return;
+      
+      this.state.completedSteps.push(step.position);
+      this.state.skippedSteps = [...(this.state.skippedSteps || []), step.position];
+      StateManager.saveWithDebounce(this.state);
+      
+      this.events.emit('stepSkipped', { ...this.getStepEventPayload(step), reason });
+      
+      if (this.state.recordingId && this.executionTracker.isActive()) {
+        this.executionTracker.trackStepSkipped(step.id, step.position, reason)
+          .catch(error => {
+            log.warn(`Failed to track step skip: ${error}`);
+          });
+      }
+    }
+  
+    // Index of the closest earlier step the user actually saw, or -1
+    private getPreviousStepIndex(): number {
+      const skipped = this.state.skippedSteps || [];
+      for (let index = this.state.currentStep - 1; index >= 0; index--) {
+        if (!skipped.includes(this.sortedSteps[index].position)) {
+          return index;
+        }
+      }
+      return -1;
+    }
+  
     private completeStep(stepIdentifier: number) { // Use position or index
       // Stop validation loop when step is successfully completed
       this.stopValidationLoop();
@@ -1750,6 +2656,9 @@ export default class CursorFlow {
         this.state.completedSteps.push(stepIdentifier);
         StateManager.saveWithDebounce(this.state); // Debounced save
         
+        const completedStep = this.sortedSteps.find(step => step.position === stepIdentifier);
+        this.events.emit('stepCompleted', this.getStepEventPayload(completedStep));
+        
         // Track step completion
         if (this.state.recordingId && this.executionTracker.isActive()) {
           // Get the current step from sortedSteps to find its step ID
@@ -1757,7 +2666,7 @@ export default class CursorFlow {
           if (currentStep && currentStep.id) {
             this.executionTracker.trackStepCompletion(currentStep.id, stepIdentifier)
               .catch(error => {
-                console.warn(`Failed to track step completion: ${error}`);
+                log.warn(`Failed to track step completion: ${error}`);
                 // Continue guide execution even if tracking fails
               });
           }
@@ -1799,7 +2708,7 @@ export default class CursorFlow {
                  await this.playCurrentStep(); // Play the step we just found
                  return true;
             } else {
-                console.error('[CursorFlow] Could not find index for the identified next step. State might be corrupted.');
+                log.error('[CursorFlow] Could not find index for the identified next step. State might be corrupted.');
                  this.completeGuide(); // Fail safe to completion
                  return false;
             }
@@ -1947,7 +2856,7 @@ export default class CursorFlow {
                         this.debugLog('[VALIDATION] Element passed relaxed validation while outside viewport.');
                     }
                 } catch (error) {
-                    console.error('[VALIDATION] Error during loop:', error);
+                    log.error('[VALIDATION] Error during loop:', error);
                 }
             }
 
@@ -1970,7 +2879,7 @@ export default class CursorFlow {
     // More lenient viewport check - detects if element is at least partially visible
     private isElementPartiallyInViewport(element: HTMLElement | null): boolean {
         if (!element) return false;
-        const rect = element.getBoundingClientRect();
+        const rect = FrameUtils.getViewportRect(element);
         
         // Element is at least partially visible if:
         // IMPORTANT: Increased buffer from 100px to 300px to be more lenient with scrolling
@@ -2016,13 +2925,15 @@ export default class CursorFlow {
                 
             this.executionTracker.trackAbandonment(
                 'element_not_found',
-                `Element validation failed: ${reason}. ${stepDetails}`
+                this.withLocatorDiagnostics(`Element validation failed: ${reason}. ${stepDetails}`)
             ).catch(error => {
-                console.warn(`Failed to track element validation failure: ${error}`);
+                log.warn(`Failed to track element validation failure: ${error}`);
                 // Continue with stop even if tracking fails
             });
         }
 
+        this.events.emit('stepFailed', { ...this.getStepEventPayload(currentStepInfo), reason });
+
         // Show notification similar to handleNavigation's failure case
         CursorFlowUI.showNotification({
             message: 'Oops! Looks like the context changed unexpectedly.',
@@ -2046,6 +2957,29 @@ export default class CursorFlow {
     // *** NEW Method to handle starting guide after successful search ***
     private startGuideAfterSearch(guideId: string) {
       this.debugLog(`Starting guide ${guideId} after successful semantic search.`);
+      this.startFlow(guideId);
+    }
+
+    // Map a step position (number) or step id (string) to its index in sortedSteps
+    private resolveStepIndex(stepRef: number | string): number {
+      if (typeof stepRef === 'string') {
+        return this.sortedSteps.findIndex(step => step.id === stepRef);
+      }
+      return this.sortedSteps.findIndex(step => step.position === stepRef);
+    }
+
+    // --- Programmatic Control API ---
+
+    /**
+     * Start a flow by ID, optionally from a specific step
+     * @param flowId - ID of the flow to start
+     * @param options - fromStep: step position (number) or step id (string)
+     */
+    async startFlow(flowId: string, options: StartFlowOptions = {}): Promise<void> {
+      // Starting a new flow replaces whatever is currently running
+      if (this.state.isPlaying) {
+        this.stop();
+      }
       
       // IMPORTANT: Generate a new operation token
       this.operationToken = this.generateToken();
@@ -2060,6 +2994,219 @@ export default class CursorFlow {
       }
       
       // Call retrieveGuideData with the ID and token
-      this.retrieveGuideData(guideId, currentToken);
+      await this.retrieveGuideData(flowId, currentToken, options.fromStep);
+    }
+
+    /**
+     * Temporarily suspend the guide. Visuals are hidden and the validation loop and
+     * navigation handling stop, but playback state and execution tracking are kept.
+     * @returns true if the guide was paused
+     */
+    pause(): boolean {
+      if (!this.state.isPlaying || this.state.isPaused) {
+        return false;
+      }
+      this.debugLog('Pausing guide');
+      
+      // Cancel any in-flight step so its visuals don't appear after pausing
+      this.operationToken = this.generateToken();
+      this.state.isPaused = true;
+      StateManager.saveWithDebounce(this.state, true);
+      
+      this.stopValidationLoop();
+      this.removeExistingListeners();
+      CursorFlowUI.cleanupAllUI(false, true);
+      this.cursorElement = null;
+      this.highlightElement = null;
+      this.currentTargetElement = null;
+      this.updateButtonState();
+      
+      const currentStep = this.sortedSteps[this.state.currentStep];
+      if (this.executionTracker.isActive()) {
+        this.executionTracker.trackPause(currentStep?.position)
+          .catch(error => {
+            log.warn(`Failed to track flow pause: ${error}`);
+          });
+      }
+      this.events.emit('flowPaused', this.getStepEventPayload(currentStep));
+      return true;
+    }
+
+    /**
+     * Resume a paused guide. The current step's element is re-found from scratch;
+     * if the user moved to another page while paused, navigation handling picks the step.
+     * @returns true if the guide was resumed
+     */
+    async resume(): Promise<boolean> {
+      if (!this.state.isPlaying || !this.state.isPaused) {
+        return false;
+      }
+      this.debugLog('Resuming guide');
+      this.clearPausedState();
+      
+      const currentStep = this.sortedSteps[this.state.currentStep];
+      const pageInfo = currentStep?.interaction?.pageInfo;
+      const isOnStepPage = !pageInfo ||
+        (pageInfo.url ? RobustElementFinder.compareUrls(pageInfo.url, window.location.href) : false) ||
+        (pageInfo.path ? pageInfo.path === window.location.pathname : false) ||
+        (!pageInfo.url && !pageInfo.path);
+      
+      if (!isOnStepPage) {
+        this.debugLog('Resume: current page does not match the paused step, resolving via navigation handling');
+        this.handleNavigation(true);
+        return true;
+      }
+      
+      this.createVisualElements();
+      return this.playCurrentStep();
+    }
+
+    // Leave the paused state (if paused), recording the resume
+    private clearPausedState(): void {
+      if (!this.state.isPaused) return;
+      this.state.isPaused = false;
+      StateManager.saveWithDebounce(this.state, true);
+      this.updateButtonState();
+      
+      if (this.executionTracker.isActive()) {
+        this.executionTracker.trackResume()
+          .catch(error => {
+            log.warn(`Failed to track flow resume: ${error}`);
+          });
+      }
+      this.events.emit('flowResumed', this.getStepEventPayload());
+    }
+
+    /**
+     * Mark the current step as done and advance to the next one
+     */
+    async next(): Promise<boolean> {
+      if (!this.state.isPlaying || !this.recording) {
+        return false;
+      }
+      this.clearPausedState();
+      const currentStep = this.sortedSteps[this.state.currentStep];
+      if (currentStep) {
+        this.completeStep(currentStep.position);
+      }
+      return this.playNextStep();
+    }
+
+    /**
+     * Go back to the step before the current one. Completion of that step and
+     * everything after it is rewound; if the step lives on another page we navigate there.
+     */
+    async previous(): Promise<boolean> {
+      const previousIndex = this.getPreviousStepIndex();
+      if (!this.state.isPlaying || !this.recording || previousIndex === -1) {
+        return false;
+      }
+      this.clearPausedState();
+      const fromStep = this.sortedSteps[this.state.currentStep];
+      const previousStep = this.sortedSteps[previousIndex];
+      this.debugLog(`previous: Rewinding from index ${this.state.currentStep} to ${previousIndex}`);
+      
+      // Cancel any in-flight step so it doesn't render over the rewound one
+      this.operationToken = this.generateToken();
+      
+      // Un-complete the previous step and everything after it
+      this.state.completedSteps = this.state.completedSteps.filter(position => position < previousStep.position);
+      this.state.skippedSteps = (this.state.skippedSteps || []).filter(position => position < previousStep.position);
+      this.state.currentStep = previousIndex;
+      
+      if (this.executionTracker.isActive()) {
+        this.executionTracker.trackRewind(fromStep.position, previousStep.position)
+          .catch(error => {
+            log.warn(`Failed to track step rewind: ${error}`);
+          });
+      }
+      this.events.emit('stepRewound', { ...this.getStepEventPayload(previousStep), fromPosition: fromStep.position });
+      
+      CursorFlowUI.cleanupAllUI(true, true);
+      this.removeExistingListeners();
+      
+      const pageInfo = previousStep.interaction?.pageInfo;
+      const targetUrl = pageInfo?.url || pageInfo?.path || null;
+      const isOnStepPage = !targetUrl ||
+        (pageInfo?.url ? RobustElementFinder.compareUrls(pageInfo.url, window.location.href) : false) ||
+        (pageInfo?.path ? pageInfo.path === window.location.pathname : false);
+      
+      if (targetUrl && !isOnStepPage) {
+        // The restored state picks the rewound step back up once the page loads
+        this.debugLog(`previous: Step is on another page, navigating to ${targetUrl}`);
+        StateManager.saveWithDebounce(this.state, true);
+        window.location.href = targetUrl;
+        return true;
+      }
+      
+      StateManager.saveWithDebounce(this.state);
+      return this.playCurrentStep();
+    }
+
+    /**
+     * Replay the current step from scratch (re-find the element, re-show visuals)
+     */
+    async restartStep(): Promise<boolean> {
+      if (!this.state.isPlaying || !this.recording) {
+        return false;
+      }
+      this.clearPausedState();
+      CursorFlowUI.cleanupAllUI(true, true);
+      this.removeExistingListeners();
+      return this.playCurrentStep();
+    }
+
+    /**
+     * Update the user attributes used by user-attribute step conditions (merged with existing ones)
+     */
+    setUserAttributes(attributes: { [key: string]: any }): void {
+      this.options.userAttributes = { ...(this.options.userAttributes || {}), ...attributes };
+    }
+
+    /**
+     * Snapshot of the current playback state
+     */
+    getState(): CursorFlowState {
+      return {
+        ...this.state,
+        completedSteps: [...this.state.completedSteps],
+        skippedSteps: [...(this.state.skippedSteps || [])]
+      };
+    }
+
+    /**
+     * Diagnostics from the most recent attempt to locate a step's target
+     */
+    getLocatorDiagnostics(): LocatorDiagnostics | null {
+      return this.lastLocatorDiagnostics;
+    }
+
+    /**
+     * Download the most recent locator diagnostics as a JSON file
+     * @returns false if no step has been located yet
+     */
+    downloadLocatorDiagnostics(): boolean {
+      if (!this.lastLocatorDiagnostics) return false;
+      LocatorDiagnosticsCollector.download(this.lastLocatorDiagnostics);
+      return true;
+    }
+
+    /**
+     * Controller object exposing the supported programmatic API
+     */
+    getController(): CursorFlowController {
+      return {
+        startFlow: (flowId, options) => this.startFlow(flowId, options),
+        pause: () => this.pause(),
+        resume: () => this.resume(),
+        next: () => this.next(),
+        previous: () => this.previous(),
+        restartStep: () => this.restartStep(),
+        stop: () => this.stop(),
+        getState: () => this.getState(),
+        setUserAttributes: (attributes) => this.setUserAttributes(attributes),
+        getLocatorDiagnostics: () => this.getLocatorDiagnostics(),
+        downloadLocatorDiagnostics: () => this.downloadLocatorDiagnostics()
+      };
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,358 @@
+import { Accessibility } from './accessibility';
+import { FrameUtils } from './frameUtils';
+import { ShadowDom } from './shadowDom';
+import { Logger } from './logger';
+
+const log = Logger.for('finder');
+
+type IndexRoot = Document | ShadowRoot;
+
+/**
+ * Optional index of interactive elements by id, tag, text, role and stable attributes,
+ * kept current by MutationObservers on the page, its same-origin frames and open shadow roots.
+ * RobustElementFinder asks it first and falls back to a full scan whenever it can't answer
+ * (unindexed tags, selectors it doesn't understand), has no match, or doesn't cover a search root.
+ *
+ * Mutations are queued and applied on the next lookup, so heavy DOM churn between steps costs little.
+ * Frames that load or navigate and shadow roots attached to existing elements cause no mutation
+ * the observers see; cover() picks them up from the finder's search roots.
+ */
+export class DomIndex {
+  // Tags whose elements are all indexed; lookups by any other tag can't be answered completely
+  static readonly INDEXED_TAGS = ['a', 'button', 'input', 'select', 'textarea', 'summary', 'option', 'label'];
+  private static readonly INDEXED_SELECTOR = [
+    ...DomIndex.INDEXED_TAGS,
+    '[role]', '[tabindex]', '[onclick]', '[contenteditable]', '[data-testid]', '[data-test]'
+  ].join(', ');
+  // Attributes kept for selector lookups (same set the finder builds stable selectors from)
+  static readonly INDEXED_ATTRIBUTES = ['name', 'data-testid', 'data-test', 'data-cy', 'aria-label', 'placeholder', 'title', 'href', 'type', 'role'];
+  // Longer text is almost never a step target and would bloat the text index (grid rows, containers)
+  private static readonly MAX_TEXT_LENGTH = 200;
+  // Past this many queued mutation records a full rebuild is cheaper than replaying them
+  private static readonly MAX_PENDING_RECORDS = 5000;
+
+  private byId = new Map<string, Set<HTMLElement>>();
+  private byTag = new Map<string, Set<HTMLElement>>();
+  private byText = new Map<string, Set<HTMLElement>>();
+  private byRole = new Map<string, Set<HTMLElement>>();
+  private byAttribute = new Map<string, Set<HTMLElement>>();
+  // Keys each element is filed under, so it can be removed or re-filed
+  private entries = new Map<HTMLElement, string[]>();
+
+  private roots: IndexRoot[] = [];
+  private observers: MutationObserver[] = [];
+  private pending: MutationRecord[] = [];
+  private needsRebuild = false;
+  private running = false;
+
+  /**
+   * Build the index and start observing mutations
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.rebuild();
+  }
+
+  /**
+   * Stop observing and drop everything indexed
+   */
+  stop(): void {
+    this.running = false;
+    this.disconnect();
+    this.clear();
+    this.pending = [];
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Bring every search root under the index, indexing documents and shadow roots it hasn't seen
+   * @param searchRoots - Roots a search is about to scan (elements count as their document or shadow root)
+   * @returns true if index answers now cover all of them
+   */
+  cover(searchRoots: Array<Document | ShadowRoot | Element>): boolean {
+    if (!this.running) return false;
+    this.flush();
+
+    // A frame that navigated or went away leaves its old document indexed (its elements still look connected)
+    const liveDocuments = new Set<Document>([document, ...FrameUtils.getAccessibleFrames().map(({ doc }) => doc)]);
+    const hasStaleRoot = this.roots.some(root =>
+      !liveDocuments.has(root.nodeType === Node.DOCUMENT_NODE ? root as Document : root.ownerDocument!)
+    );
+    if (hasStaleRoot) this.rebuild();
+
+    return searchRoots.every(searchRoot => {
+      const root = searchRoot.nodeType === Node.ELEMENT_NODE ? searchRoot.getRootNode() : searchRoot;
+      if (root.nodeType !== Node.DOCUMENT_NODE && root.nodeType !== Node.DOCUMENT_FRAGMENT_NODE) return false;
+      this.addRoot(root as IndexRoot);
+      return true;
+    });
+  }
+
+  /**
+   * Elements matching a simple selector: '#id', 'tag', 'tag[attr="value"]' or '[attr="value"]'
+   * @returns null if the index can't answer this selector completely
+   */
+  lookupSelector(selector: string): HTMLElement[] | null {
+    if (!this.running) return null;
+    const trimmed = selector.trim();
+
+    const idMatch = /^#((?:\\.|[^\s.#[\]:>+~,])+)$/.exec(trimmed);
+    if (idMatch) {
+      this.flush();
+      return this.collect(this.byId, this.unescape(idMatch[1]));
+    }
+
+    const tagMatch = /^([a-z][a-z0-9-]*)?(?:\[([a-z-]+)="((?:\\.|[^"\\])*)"\])?$/i.exec(trimmed);
+    if (!tagMatch || (!tagMatch[1] && !tagMatch[2])) return null;
+    const tag = tagMatch[1] ? tagMatch[1].toLowerCase() : null;
+    const attr = tagMatch[2] ? tagMatch[2].toLowerCase() : null;
+
+    if (attr) {
+      if (!DomIndex.INDEXED_ATTRIBUTES.includes(attr)) return null;
+      // Attribute matches on unindexed tags (e.g. div[name=...]) may exist outside the index
+      if (!tag || !DomIndex.INDEXED_TAGS.includes(tag)) return null;
+      this.flush();
+      return this.collect(this.byAttribute, `${attr}=${this.unescape(tagMatch[3])}`)
+        .filter(element => element.tagName.toLowerCase() === tag);
+    }
+
+    if (!DomIndex.INDEXED_TAGS.includes(tag!)) return null;
+    this.flush();
+    return this.collect(this.byTag, tag!);
+  }
+
+  /**
+   * Elements whose text, value or aria-label equals (or contains) the given text,
+   * compared the way normalize-space() does
+   * @param tagName - Recorded tag of the target; the index can only answer for indexed tags
+   * @returns null if the index can't answer for this target
+   */
+  lookupText(text: string, exact: boolean, tagName?: string): HTMLElement[] | null {
+    if (!this.running || !tagName || !DomIndex.INDEXED_TAGS.includes(tagName.toLowerCase())) return null;
+    const target = Accessibility.normalize(text);
+    if (!target || target.length > DomIndex.MAX_TEXT_LENGTH) return null;
+    this.flush();
+
+    const tag = tagName.toLowerCase();
+    let matches: HTMLElement[];
+    if (exact) {
+      matches = this.collect(this.byText, target);
+    } else {
+      const found = new Set<HTMLElement>();
+      this.byText.forEach((elements, key) => {
+        if (key.includes(target)) elements.forEach(element => found.add(element));
+      });
+      matches = Array.from(found);
+    }
+    return matches.filter(element => element.tagName.toLowerCase() === tag);
+  }
+
+  /**
+   * Elements with the given role
+   * @returns null if elements with this role can come from unindexed tags (e.g. headings, list items)
+   */
+  lookupRole(role: string): HTMLElement[] | null {
+    if (!this.running) return null;
+    const impliedTags = Accessibility.getImpliedTags(role);
+    if (!impliedTags.every(tag => DomIndex.INDEXED_TAGS.includes(tag))) return null;
+    this.flush();
+    return this.collect(this.byRole, role);
+  }
+
+  /**
+   * Apply queued mutations (lookups call this themselves)
+   */
+  flush(): void {
+    if (!this.running) return;
+    // Mutations from the current task haven't been delivered to the observers yet
+    this.observers.forEach(observer => this.queue(observer.takeRecords()));
+    if (this.needsRebuild) {
+      this.rebuild();
+      return;
+    }
+    if (this.pending.length === 0) return;
+
+    const records = this.pending;
+    this.pending = [];
+    const dirty = new Set<HTMLElement>();
+
+    records.forEach(record => {
+      if (record.type === 'childList') {
+        record.removedNodes.forEach(node => this.forEachIndexable(node, element => this.remove(element)));
+        record.addedNodes.forEach(node => {
+          this.forEachIndexable(node, element => dirty.add(element));
+          this.observeShadowRoots(node);
+        });
+        // Text inside indexed ancestors may have changed with the children
+        this.markAncestorsDirty(record.target, dirty);
+      } else if (record.type === 'characterData') {
+        this.markAncestorsDirty(record.target, dirty);
+      } else if (record.type === 'attributes' && FrameUtils.isInstance(record.target, 'HTMLElement')) {
+        dirty.add(record.target);
+      }
+    });
+
+    dirty.forEach(element => {
+      this.remove(element);
+      if (element.isConnected && element.matches(DomIndex.INDEXED_SELECTOR)) this.add(element);
+    });
+  }
+
+  private rebuild(): void {
+    const startedAt = performance.now();
+    this.disconnect();
+    this.clear();
+    this.pending = [];
+    this.needsRebuild = false;
+
+    const documents = [document, ...FrameUtils.getAccessibleFrames().map(({ doc }) => doc)];
+    documents.forEach(doc => {
+      this.addRoot(doc);
+      ShadowDom.getOpenShadowRoots(doc).forEach(shadowRoot => this.addRoot(shadowRoot));
+    });
+
+    log.debug(`[DomIndex] Indexed ${this.entries.size} element(s) across ${this.roots.length} root(s) in ${(performance.now() - startedAt).toFixed(1)}ms`);
+  }
+
+  // Index a document or shadow root and start observing it
+  private addRoot(root: IndexRoot): void {
+    if (this.roots.includes(root)) return;
+    this.roots.push(root);
+    root.querySelectorAll(DomIndex.INDEXED_SELECTOR).forEach(element => {
+      if (FrameUtils.isInstance(element, 'HTMLElement')) this.add(element);
+    });
+    this.observe(root);
+  }
+
+  private queue(records: MutationRecord[]): void {
+    if (this.needsRebuild || records.length === 0) return;
+    this.pending.push(...records);
+    if (this.pending.length > DomIndex.MAX_PENDING_RECORDS) {
+      this.pending = [];
+      this.needsRebuild = true;
+    }
+  }
+
+  private observe(root: IndexRoot): void {
+    const view = (root.nodeType === Node.DOCUMENT_NODE ? root as Document : root.ownerDocument!).defaultView || window;
+    const observer = new view.MutationObserver(records => this.queue(records));
+    observer.observe(root, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['id', 'value', 'contenteditable', 'tabindex', 'onclick', ...DomIndex.INDEXED_ATTRIBUTES]
+    });
+    this.observers.push(observer);
+  }
+
+  // Shadow roots attached inside added subtrees need their own observers
+  private observeShadowRoots(node: Node): void {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    const shadowRoots = [
+      ...(element.shadowRoot ? [element.shadowRoot] : []),
+      ...ShadowDom.getOpenShadowRoots(element)
+    ];
+    shadowRoots.forEach(shadowRoot => this.addRoot(shadowRoot));
+  }
+
+  private disconnect(): void {
+    this.observers.forEach(observer => observer.disconnect());
+    this.observers = [];
+    this.roots = [];
+  }
+
+  private clear(): void {
+    this.byId.clear();
+    this.byTag.clear();
+    this.byText.clear();
+    this.byRole.clear();
+    this.byAttribute.clear();
+    this.entries.clear();
+  }
+
+  private add(element: HTMLElement): void {
+    const keys: string[] = [];
+    const file = (map: Map<string, Set<HTMLElement>>, prefix: string, key: string) => {
+      if (!map.has(key)) map.set(key, new Set());
+      map.get(key)!.add(element);
+      keys.push(`${prefix}${key}`);
+    };
+
+    if (element.id) file(this.byId, 'id:', element.id);
+    file(this.byTag, 'tag:', element.tagName.toLowerCase());
+
+    const role = Accessibility.getRole(element);
+    if (role) file(this.byRole, 'role:', role);
+
+    DomIndex.INDEXED_ATTRIBUTES.forEach(attr => {
+      const value = element.getAttribute(attr);
+      if (value !== null) file(this.byAttribute, 'attr:', `${attr}=${value}`);
+    });
+
+    const texts = new Set([
+      Accessibility.normalize(element.textContent || ''),
+      Accessibility.normalize((element as HTMLInputElement).value || ''),
+      Accessibility.normalize(element.getAttribute('aria-label') || '')
+    ]);
+    texts.forEach(text => {
+      if (text && text.length <= DomIndex.MAX_TEXT_LENGTH) file(this.byText, 'text:', text);
+    });
+
+    this.entries.set(element, keys);
+  }
+
+  private remove(element: HTMLElement): void {
+    const keys = this.entries.get(element);
+    if (!keys) return;
+    const maps: { [prefix: string]: Map<string, Set<HTMLElement>> } = {
+      'id:': this.byId, 'tag:': this.byTag, 'role:': this.byRole, 'attr:': this.byAttribute, 'text:': this.byText
+    };
+    keys.forEach(entry => {
+      const prefix = entry.substring(0, entry.indexOf(':') + 1);
+      const key = entry.substring(prefix.length);
+      const set = maps[prefix].get(key);
+      if (!set) return;
+      set.delete(element);
+      if (set.size === 0) maps[prefix].delete(key);
+    });
+    this.entries.delete(element);
+  }
+
+  // The node itself and its descendants that the index covers
+  private forEachIndexable(node: Node, callback: (element: HTMLElement) => void): void {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const element = node as Element;
+    if (FrameUtils.isInstance(element, 'HTMLElement') && element.matches(DomIndex.INDEXED_SELECTOR)) callback(element);
+    element.querySelectorAll(DomIndex.INDEXED_SELECTOR).forEach(child => {
+      if (FrameUtils.isInstance(child, 'HTMLElement')) callback(child);
+    });
+  }
+
+  // Indexed text includes descendants' text, so re-file every indexed ancestor of a changed node
+  private markAncestorsDirty(node: Node, dirty: Set<HTMLElement>): void {
+    let current = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+    while (current) {
+      if (this.entries.has(current as HTMLElement)) dirty.add(current as HTMLElement);
+      current = ShadowDom.getComposedParent(current);
+    }
+  }
+
+  private collect(map: Map<string, Set<HTMLElement>>, key: string): HTMLElement[] {
+    const set = map.get(key);
+    return set ? Array.from(set).filter(element => element.isConnected) : [];
+  }
+
+  private unescape(value: string): string {
+    return value.replace(/\\(.)/g, '$1');
+  }
+}
@@ -0,0 +1,175 @@
+import { ElementFingerprint } from './types';
+import { Accessibility } from './accessibility';
+import { ShadowDom } from './shadowDom';
+import { TextSimilarity } from './textSimilarity';
+
+/**
+ * Captures an element's fingerprint at record time and compares live elements against it.
+ * Used when selectors and exact text no longer match (renamed classes, reworded labels).
+ */
+export class ElementFingerprinter {
+  private static readonly MAX_NEIGHBORS = 3;
+  private static readonly MAX_LANDMARKS = 3;
+  private static readonly MAX_TEXT_LENGTH = 80;
+
+  // How much each part of the fingerprint counts when comparing
+  private static readonly WEIGHTS = {
+    role: 1.5,
+    accessibleName: 3,
+    labelText: 2,
+    neighborText: 1.5,
+    landmarks: 1.5,
+    container: 1,
+    visualHash: 1
+  };
+
+  /**
+   * Capture a fingerprint for an element (recorders store this in ElementData.fingerprint)
+   */
+  static capture(element: HTMLElement): ElementFingerprint {
+    const container = this.getContainerPosition(element);
+    return {
+      role: Accessibility.getRole(element),
+      accessibleName: this.truncate(Accessibility.getAccessibleName(element)),
+      labelText: this.truncate(Accessibility.getLabelText(element)) || undefined,
+      neighborText: this.getNeighborText(element),
+      landmarks: this.getLandmarks(element),
+      containerIndex: container.index,
+      containerSize: container.size,
+      visualHash: this.computeVisualHash(element)
+    };
+  }
+
+  /**
+   * Similarity between a live element and a recorded fingerprint (0-1).
+   * Only the parts the fingerprint has are compared.
+   */
+  static compare(element: HTMLElement, fingerprint: ElementFingerprint): number {
+    let weighted = 0;
+    let totalWeight = 0;
+    const add = (part: keyof typeof ElementFingerprinter.WEIGHTS, score: number) => {
+      weighted += score * this.WEIGHTS[part];
+      totalWeight += this.WEIGHTS[part];
+    };
+
+    if (fingerprint.role) {
+      add('role', Accessibility.getRole(element) === fingerprint.role ? 1 : 0);
+    }
+    if (fingerprint.accessibleName) {
+      add('accessibleName', TextSimilarity.compare(fingerprint.accessibleName, Accessibility.getAccessibleName(element)));
+    }
+    if (fingerprint.labelText) {
+      add('labelText', TextSimilarity.compare(fingerprint.labelText, Accessibility.getLabelText(element)));
+    }
+    if (fingerprint.neighborText && fingerprint.neighborText.length > 0) {
+      add('neighborText', this.listSimilarity(fingerprint.neighborText, this.getNeighborText(element)));
+    }
+    if (fingerprint.landmarks && fingerprint.landmarks.length > 0) {
+      add('landmarks', this.listSimilarity(fingerprint.landmarks, this.getLandmarks(element)));
+    }
+    if (fingerprint.containerIndex !== undefined) {
+      const live = this.getContainerPosition(element);
+      const sameIndex = live.index === fingerprint.containerIndex ? 1 : 0;
+      const sameSize = fingerprint.containerSize === undefined || live.size === fingerprint.containerSize ? 1 : 0.5;
+      add('container', sameIndex * sameSize);
+    }
+    if (fingerprint.visualHash) {
+      add('visualHash', this.computeVisualHash(element) === fingerprint.visualHash ? 1 : 0);
+    }
+
+    return totalWeight > 0 ? weighted / totalWeight : 0;
+  }
+
+  /**
+   * Whether a fingerprint has enough in it to be worth matching against
+   */
+  static isUsable(fingerprint: ElementFingerprint | undefined): fingerprint is ElementFingerprint {
+    return !!fingerprint && !!(fingerprint.accessibleName || fingerprint.labelText ||
+      (fingerprint.neighborText && fingerprint.neighborText.length > 0) ||
+      (fingerprint.landmarks && fingerprint.landmarks.length > 0));
+  }
+
+  /**
+   * Hash of the element's rendered box: size bucket, colors, font and shape.
+   * Stable across text and class changes, different for visually different controls.
+   */
+  static computeVisualHash(element: HTMLElement): string {
+    const rect = element.getBoundingClientRect();
+    const style = (element.ownerDocument.defaultView || window).getComputedStyle(element);
+    // Sizes bucketed to 8px so sub-pixel and small layout shifts don't change the hash
+    const bucket = (value: number) => Math.round(value / 8);
+    const features = [
+      element.tagName,
+      bucket(rect.width),
+      bucket(rect.height),
+      style.color,
+      style.backgroundColor,
+      style.fontSize,
+      style.fontWeight,
+      style.borderRadius,
+      style.borderTopWidth,
+      style.display
+    ].join('|');
+
+    // FNV-1a, 32-bit
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < features.length; i++) {
+      hash ^= features.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  }
+
+  private static getNeighborText(element: HTMLElement): string[] {
+    const texts: string[] = [];
+    const collect = (sibling: Element | null, step: (el: Element) => Element | null) => {
+      let current = sibling;
+      let seen = 0;
+      while (current && seen < this.MAX_NEIGHBORS) {
+        const text = this.truncate(Accessibility.normalize(current.textContent || ''));
+        if (text) texts.push(text);
+        current = step(current);
+        seen++;
+      }
+    };
+    // If the element has no text siblings of its own, its container's siblings describe it instead
+    const anchor = element.previousElementSibling || element.nextElementSibling ? element : (ShadowDom.getComposedParent(element) || element);
+    collect(anchor.previousElementSibling, el => el.previousElementSibling);
+    collect(anchor.nextElementSibling, el => el.nextElementSibling);
+    return texts.slice(0, this.MAX_NEIGHBORS * 2);
+  }
+
+  private static getLandmarks(element: HTMLElement): string[] {
+    const landmarks: string[] = [];
+    let current = ShadowDom.getComposedParent(element);
+    while (current && landmarks.length < this.MAX_LANDMARKS) {
+      const role = Accessibility.getRole(current);
+      if (role && Accessibility.LANDMARK_ROLES.includes(role)) {
+        const name = this.truncate(current.getAttribute('aria-label') || current.id || '');
+        landmarks.push(name ? `${role}:${name}` : role);
+      }
+      current = ShadowDom.getComposedParent(current);
+    }
+    return landmarks;
+  }
+
+  private static getContainerPosition(element: HTMLElement): { index: number; size: number } {
+    const parent = element.parentNode;
+    if (!parent) return { index: 0, size: 1 };
+    const sameTag = Array.from(parent.childNodes).filter(
+      child => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === element.tagName
+    );
+    return { index: sameTag.indexOf(element), size: sameTag.length };
+  }
+
+  // Share of recorded entries that still appear (fuzzily) in the live list
+  private static listSimilarity(recorded: string[], live: string[]): number {
+    if (live.length === 0) return 0;
+    const scores = recorded.map(entry => Math.max(...live.map(candidate => TextSimilarity.compare(entry, candidate))));
+    return scores.reduce((sum, score) => sum + score, 0) / recorded.length;
+  }
+
+  private static truncate(text: string): string {
+    return text.length > this.MAX_TEXT_LENGTH ? text.substring(0, this.MAX_TEXT_LENGTH) : text;
+  }
+}
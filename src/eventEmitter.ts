@@ -0,0 +1,49 @@
+import { Logger } from './logger';
+
+const log = Logger.for('events');
+
+/**
+ * Minimal typed event emitter used to expose engine events to host apps.
+ * Handler errors are caught and logged so a faulty listener can't break playback.
+ */
+export class TypedEventEmitter<Events extends { [key: string]: any }> {
+  private handlers: { [K in keyof Events]?: Array<(payload: Events[K]) => void> } = {};
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): () => void {
+    if (!this.handlers[event]) {
+      this.handlers[event] = [];
+    }
+    this.handlers[event]!.push(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Unsubscribe a previously registered handler
+   */
+  off<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): void {
+    const list = this.handlers[event];
+    if (!list) return;
+    this.handlers[event] = list.filter(h => h !== handler);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const list = this.handlers[event];
+    if (!list || list.length === 0) return;
+    // Copy so handlers can unsubscribe while we iterate
+    [...list].forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        log.error(`[CursorFlow] Error in "${String(event)}" event handler:`, error);
+      }
+    });
+  }
+
+  removeAllListeners(): void {
+    this.handlers = {};
+  }
+}
@@ -1,4 +1,8 @@
 import { ApiClient } from './apiClient';
+import { AbandonReason, SelectorDriftReport, StepPerformanceMetrics, StepSkipReason } from './types';
+import { Logger } from './logger';
+
+const log = Logger.for('tracker');
 
 /**
  * Tracks execution of cursor flows and reports status to backend API
@@ -16,6 +20,8 @@ export class FlowExecutionTracker {
   private pendingOperations: Array<() => Promise<boolean>> = [];
   private pendingTimeout: any = null;
   private sessionDetails: any = null;
+  private pausedAt: number | null = null;
+  private reportedDrift: Set<string> = new Set();
 
   constructor(apiClient: ApiClient) {
     if (!apiClient) {
@@ -41,23 +47,37 @@ export class FlowExecutionTracker {
       const executionId = await this.apiClient.startFlowExecution(flowId, this.sessionDetails);
       
       if (!executionId) {
-        console.error('[FlowExecutionTracker] Failed to get execution ID from server');
+        log.error('[FlowExecutionTracker] Failed to get execution ID from server');
         return false;
       }
       
       this.executionId = executionId;
-      console.log(`[FlowExecutionTracker] Started tracking flow execution: ${this.executionId}`);
+      log.debug(`[FlowExecutionTracker] Started tracking flow execution: ${this.executionId}`);
       
       // Process any pending operations that happened before execution ID was received
       this.processPendingOperations();
       
       return true;
     } catch (error) {
-      console.error('[FlowExecutionTracker] Error starting flow execution tracking:', error);
+      log.error('[FlowExecutionTracker] Error starting flow execution tracking:', error);
       return false;
     }
   }
 
+  /**
+   * Continue an execution that was started in another tab or on another origin
+   * @param flowId - ID of the flow being executed
+   * @param executionId - Execution ID handed over with the guide
+   */
+  adopt(flowId: string, executionId: string): void {
+    this.reset();
+    this.flowId = flowId;
+    this.executionId = executionId;
+    this.active = true;
+    this.sessionDetails = this.collectSessionDetails();
+    log.debug(`[FlowExecutionTracker] Continuing flow execution: ${this.executionId}`);
+  }
+
   /**
    * Track completion of a flow step
    * @param stepId - ID of the completed step
@@ -66,7 +86,7 @@ export class FlowExecutionTracker {
    */
   async trackStepCompletion(stepId: string, position: number): Promise<boolean> {
     if (!this.active) {
-      console.warn('[FlowExecutionTracker] Cannot track step completion - tracking not active');
+      log.warn('[FlowExecutionTracker] Cannot track step completion - tracking not active');
       return false;
     }
     
@@ -75,7 +95,7 @@ export class FlowExecutionTracker {
     
     // If execution hasn't been initialized yet, queue this operation
     if (!this.executionId) {
-      console.log('[FlowExecutionTracker] Queueing step completion for later', { stepId, position });
+      log.debug('[FlowExecutionTracker] Queueing step completion for later', { stepId, position });
       return this.queueOperation(() => this.trackStepCompletion(stepId, position));
     }
     
@@ -89,7 +109,7 @@ export class FlowExecutionTracker {
       
       if (!success && this.retryCount < this.maxRetries) {
         this.retryCount++;
-        console.warn(`[FlowExecutionTracker] Retry ${this.retryCount}/${this.maxRetries} for step completion`);
+        log.warn(`[FlowExecutionTracker] Retry ${this.retryCount}/${this.maxRetries} for step completion`);
         return this.trackStepCompletion(stepId, position);
       }
       
@@ -97,7 +117,7 @@ export class FlowExecutionTracker {
       
       return success;
     } catch (error) {
-      console.error('[FlowExecutionTracker] Error tracking step completion:', error);
+      log.error('[FlowExecutionTracker] Error tracking step completion:', error);
       return false;
     }
   }
@@ -108,13 +128,13 @@ export class FlowExecutionTracker {
    */
   async trackCompletion(): Promise<boolean> {
     if (!this.active) {
-      console.warn('[FlowExecutionTracker] Cannot track completion - tracking not active');
+      log.warn('[FlowExecutionTracker] Cannot track completion - tracking not active');
       return false;
     }
     
     // If execution hasn't been initialized yet, queue this operation
     if (!this.executionId) {
-      console.log('[FlowExecutionTracker] Queueing flow completion for later');
+      log.debug('[FlowExecutionTracker] Queueing flow completion for later');
       return this.queueOperation(() => this.trackCompletion());
     }
     
@@ -122,17 +142,17 @@ export class FlowExecutionTracker {
       const success = await this.apiClient.completeFlowExecution(this.executionId);
       
       if (success) {
-        console.log(`[FlowExecutionTracker] Tracked successful completion of flow ${this.flowId}`);
+        log.debug(`[FlowExecutionTracker] Tracked successful completion of flow ${this.flowId}`);
         this.reset(); // Reset tracker state after successful completion
       } else if (this.retryCount < this.maxRetries) {
         this.retryCount++;
-        console.warn(`[FlowExecutionTracker] Retry ${this.retryCount}/${this.maxRetries} for flow completion`);
+        log.warn(`[FlowExecutionTracker] Retry ${this.retryCount}/${this.maxRetries} for flow completion`);
         return this.trackCompletion();
       }
       
       return success;
     } catch (error) {
-      console.error('[FlowExecutionTracker] Error tracking flow completion:', error);
+      log.error('[FlowExecutionTracker] Error tracking flow completion:', error);
       return false;
     }
   }
@@ -144,11 +164,11 @@ export class FlowExecutionTracker {
    * @returns Promise resolving to true if tracking updated successfully
    */
   async trackAbandonment(
-    reason: 'user_initiated' | 'element_not_found' | 'sdk_error' | 'navigation',
+    reason: AbandonReason,
     details: string
   ): Promise<boolean> {
     if (!this.active) {
-      console.warn('[FlowExecutionTracker] Cannot track abandonment - tracking not active');
+      log.warn('[FlowExecutionTracker] Cannot track abandonment - tracking not active');
       return false;
     }
     
@@ -164,7 +184,7 @@ export class FlowExecutionTracker {
     
     // If execution hasn't been initialized yet, queue this operation
     if (!this.executionId) {
-      console.log('[FlowExecutionTracker] Queueing flow abandonment for later');
+      log.debug('[FlowExecutionTracker] Queueing flow abandonment for later');
       return this.queueOperation(() => this.trackAbandonment(reason, details));
     }
     
@@ -178,17 +198,206 @@ export class FlowExecutionTracker {
       );
       
       if (success) {
-        console.log(`[FlowExecutionTracker] Tracked abandonment of flow ${this.flowId}: ${reason}`);
+        log.debug(`[FlowExecutionTracker] Tracked abandonment of flow ${this.flowId}: ${reason}`);
         this.reset(); // Reset tracker state after successful abandonment tracking
       } else if (this.retryCount < this.maxRetries) {
         this.retryCount++;
-        console.warn(`[FlowExecutionTracker] Retry ${this.retryCount}/${this.maxRetries} for flow abandonment`);
+        log.warn(`[FlowExecutionTracker] Retry ${this.retryCount}/${this.maxRetries} for flow abandonment`);
         return this.trackAbandonment(reason, details);
       }
       
       return success;
     } catch (error) {
-      console.error('[FlowExecutionTracker] Error tracking flow abandonment:', error);
+      log.error('[FlowExecutionTracker] Error tracking flow abandonment:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Track a step that was skipped rather than completed
+   * @param stepId - ID of the skipped step, if known
+   * @param position - Position of the skipped step
+   * @param reason - Why the step was skipped
+   * @returns Promise resolving to true if tracking updated successfully
+   */
+  async trackStepSkipped(stepId: string | undefined, position: number, reason: StepSkipReason): Promise<boolean> {
+    if (!this.active) {
+      log.warn('[FlowExecutionTracker] Cannot track step skip - tracking not active');
+      return false;
+    }
+    
+    // If execution hasn't been initialized yet, queue this operation
+    if (!this.executionId) {
+      log.debug('[FlowExecutionTracker] Queueing step skip for later', { stepId, position, reason });
+      return this.queueOperation(() => this.trackStepSkipped(stepId, position, reason));
+    }
+    
+    try {
+      const success = await this.apiClient.skipFlowStep(this.executionId, stepId, position, reason);
+      if (success) {
+        log.debug(`[FlowExecutionTracker] Tracked skipped step ${position} (${reason})`);
+      }
+      return success;
+    } catch (error) {
+      log.error('[FlowExecutionTracker] Error tracking step skip:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Track how long a step took to resolve and show
+   * @param metrics - Phase timings and budget for the step
+   * @returns Promise resolving to true if tracking updated successfully
+   */
+  async trackStepPerformance(metrics: StepPerformanceMetrics): Promise<boolean> {
+    if (!this.active) {
+      return false; // Metrics are only meaningful within a tracked execution
+    }
+    
+    // If execution hasn't been initialized yet, queue this operation
+    if (!this.executionId) {
+      log.debug('[FlowExecutionTracker] Queueing step performance for later', { position: metrics.position });
+      return this.queueOperation(() => this.trackStepPerformance(metrics));
+    }
+    
+    try {
+      return await this.apiClient.reportStepPerformance(this.executionId, metrics);
+    } catch (error) {
+      log.error('[FlowExecutionTracker] Error tracking step performance:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Report a step whose stored selector has drifted (once per step and selector per execution)
+   * @param report - The drift detected while locating the step's target
+   * @returns Promise resolving to true if the report was sent
+   */
+  async trackSelectorDrift(report: SelectorDriftReport): Promise<boolean> {
+    // Steps are re-located on retries and resumes; one suggestion per execution is enough
+    const key = `${report.stepId ?? report.stepPosition}|${report.current.cssSelector}`;
+    if (this.reportedDrift.has(key)) return false;
+    this.reportedDrift.add(key);
+
+    try {
+      const success = await this.apiClient.reportSelectorDrift(report, this.executionId || undefined);
+      if (success) {
+        log.debug(`[FlowExecutionTracker] Reported selector drift for step ${report.stepPosition} (matched by ${report.matchedStrategy})`);
+      }
+      return success;
+    } catch (error) {
+      log.error('[FlowExecutionTracker] Error reporting selector drift:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Track that the flow was paused (the execution stays open)
+   * @param stepPosition - Position of the step the guide was paused on
+   * @returns Promise resolving to true if tracking updated successfully
+   */
+  async trackPause(stepPosition?: number): Promise<boolean> {
+    if (!this.active) {
+      log.warn('[FlowExecutionTracker] Cannot track pause - tracking not active');
+      return false;
+    }
+    
+    if (this.pausedAt === null) {
+      this.pausedAt = Date.now();
+    }
+    
+    // If execution hasn't been initialized yet, queue this operation
+    if (!this.executionId) {
+      log.debug('[FlowExecutionTracker] Queueing flow pause for later');
+      return this.queueOperation(() => this.trackPause(stepPosition));
+    }
+    
+    try {
+      const success = await this.apiClient.pauseFlowExecution(this.executionId, stepPosition);
+      if (success) {
+        log.debug(`[FlowExecutionTracker] Tracked pause of flow ${this.flowId}`);
+      }
+      return success;
+    } catch (error) {
+      log.error('[FlowExecutionTracker] Error tracking flow pause:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Track that a paused flow was resumed
+   * @returns Promise resolving to true if tracking updated successfully
+   */
+  async trackResume(): Promise<boolean> {
+    if (!this.active) {
+      log.warn('[FlowExecutionTracker] Cannot track resume - tracking not active');
+      return false;
+    }
+    
+    const pausedMs = this.pausedAt !== null ? Date.now() - this.pausedAt : undefined;
+    this.pausedAt = null;
+    
+    // If execution hasn't been initialized yet, queue this operation
+    if (!this.executionId) {
+      log.debug('[FlowExecutionTracker] Queueing flow resume for later');
+      return this.queueOperation(() => this.sendResume(pausedMs));
+    }
+    
+    return this.sendResume(pausedMs);
+  }
+
+  /**
+   * Send a resume with the pause duration captured when it was tracked
+   */
+  private async sendResume(pausedMs?: number): Promise<boolean> {
+    if (!this.executionId) {
+      return false;
+    }
+    
+    try {
+      const success = await this.apiClient.resumeFlowExecution(this.executionId, pausedMs);
+      if (success) {
+        log.debug(`[FlowExecutionTracker] Tracked resume of flow ${this.flowId}`);
+      }
+      return success;
+    } catch (error) {
+      log.error('[FlowExecutionTracker] Error tracking flow resume:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Track a step-back to an earlier step
+   * @param fromPosition - Position of the step the user left
+   * @param toPosition - Position of the step the user went back to
+   * @returns Promise resolving to true if tracking updated successfully
+   */
+  async trackRewind(fromPosition: number, toPosition: number): Promise<boolean> {
+    if (!this.active) {
+      log.warn('[FlowExecutionTracker] Cannot track rewind - tracking not active');
+      return false;
+    }
+    
+    // Steps from the rewound one onwards are no longer completed
+    if (this.lastStepPosition !== null && this.lastStepPosition >= toPosition) {
+      this.lastStepId = null;
+      this.lastStepPosition = null;
+    }
+    
+    // If execution hasn't been initialized yet, queue this operation
+    if (!this.executionId) {
+      log.debug('[FlowExecutionTracker] Queueing flow rewind for later');
+      return this.queueOperation(() => this.trackRewind(fromPosition, toPosition));
+    }
+    
+    try {
+      const success = await this.apiClient.rewindFlowExecution(this.executionId, fromPosition, toPosition);
+      if (success) {
+        log.debug(`[FlowExecutionTracker] Tracked rewind of flow ${this.flowId}: ${fromPosition} -> ${toPosition}`);
+      }
+      return success;
+    } catch (error) {
+      log.error('[FlowExecutionTracker] Error tracking flow rewind:', error);
       return false;
     }
   }
@@ -205,6 +414,8 @@ export class FlowExecutionTracker {
     this.active = false;
     this.pendingOperations = [];
     this.sessionDetails = null;
+    this.pausedAt = null;
+    this.reportedDrift.clear();
     
     if (this.pendingTimeout) {
       clearTimeout(this.pendingTimeout);
@@ -228,7 +439,7 @@ export class FlowExecutionTracker {
   private processPendingOperations(): void {
     if (this.pendingOperations.length === 0) return;
     
-    console.log(`[FlowExecutionTracker] Processing ${this.pendingOperations.length} pending operations`);
+    log.debug(`[FlowExecutionTracker] Processing ${this.pendingOperations.length} pending operations`);
     
     // Clone the array to avoid issues with operations being added during processing
     const operations = [...this.pendingOperations];
@@ -242,7 +453,7 @@ export class FlowExecutionTracker {
       const operation = operations[index++];
       operation().then(success => {
         if (!success) {
-          console.warn('[FlowExecutionTracker] Pending operation failed');
+          log.warn('[FlowExecutionTracker] Pending operation failed');
         }
         
         if (index < operations.length) {
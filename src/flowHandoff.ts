@@ -0,0 +1,246 @@
+import { HandoffPayload, HandoffTokenService } from './types';
+import { Logger } from './logger';
+
+const log = Logger.for('handoff');
+
+type HandoffMessage =
+  | { type: 'handoff-request'; tabId: string; url: string }
+  | { type: 'handoff-offer'; tabId: string; payload: HandoffPayload }
+  | { type: 'handoff-claimed'; nonce: string };
+
+/**
+ * Continues a guide in another tab or on another subdomain.
+ * - Same-origin tabs: the tab that opened a link announces an offer for that URL; a new tab
+ *   loading that URL asks over BroadcastChannel and the opener answers with its state.
+ * - Cross-subdomain hops: links to allowed origins carry a short-lived token from the host's
+ *   HandoffTokenService. Without one, cross-origin handoff is disabled.
+ */
+export class FlowHandoff {
+  static readonly CHANNEL_NAME = 'hyphen-flow-handoff';
+  static readonly URL_PARAM = 'hyphen_handoff';
+  static readonly TOKEN_TTL_MS = 2 * 60 * 1000;
+  static readonly OFFER_TTL_MS = 30 * 1000;
+  private static readonly USED_NONCES_KEY = 'hyphen-handoff-nonces';
+  // Which URL a pending offer is for, so only the tab that was opened asks for it
+  private static readonly PENDING_OFFER_KEY = 'hyphen-handoff-offer';
+
+  private tokens: HandoffTokenService | null;
+  private allowedDomains: string[];
+  private tabId = Date.now().toString(36) + Math.random().toString(36).substring(2);
+  private channel: BroadcastChannel | null = null;
+  private pendingOffer: { payload: HandoffPayload; targetUrl: string; expiresAt: number } | null = null;
+  private onClaimed: (() => void) | null = null;
+
+  /**
+   * @param tokens - Issues and redeems cross-origin URL tokens (see HandoffTokenService)
+   * @param allowedDomains - Hosts that may receive URL tokens ('billing.example.com' or '.example.com')
+   */
+  constructor(tokens: HandoffTokenService | undefined, allowedDomains: string[] = []) {
+    this.tokens = tokens || null;
+    this.allowedDomains = allowedDomains.map(domain => domain.toLowerCase());
+    if (this.allowedDomains.length > 0 && !this.tokens) {
+      log.warn('[FlowHandoff] handoffDomains is set without handoffTokens, cross-origin handoff is disabled');
+    }
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(FlowHandoff.CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<HandoffMessage>) => this.handleMessage(event.data);
+    }
+  }
+
+  /**
+   * Offer the given state to the tab opening targetUrl, if it asks within OFFER_TTL_MS
+   * @param onClaimed - Called once that tab has taken over
+   */
+  offerToNewTab(payload: HandoffPayload, targetUrl: string, onClaimed: () => void): void {
+    const expiresAt = Date.now() + FlowHandoff.OFFER_TTL_MS;
+    this.pendingOffer = { payload, targetUrl: FlowHandoff.normalizeUrl(targetUrl), expiresAt };
+    this.onClaimed = onClaimed;
+    try {
+      localStorage.setItem(FlowHandoff.PENDING_OFFER_KEY, JSON.stringify({
+        url: this.pendingOffer.targetUrl,
+        nonce: payload.nonce,
+        expiresAt
+      }));
+    } catch (e) {
+      log.warn('[FlowHandoff] Failed to announce handoff offer:', e);
+    }
+  }
+
+  hasPendingOffer(): boolean {
+    return !!this.pendingOffer && this.pendingOffer.expiresAt > Date.now();
+  }
+
+  cancelOffer(): void {
+    if (this.pendingOffer) {
+      try {
+        const announced = JSON.parse(localStorage.getItem(FlowHandoff.PENDING_OFFER_KEY) || 'null');
+        if (announced && announced.nonce === this.pendingOffer.payload.nonce) {
+          localStorage.removeItem(FlowHandoff.PENDING_OFFER_KEY);
+        }
+      } catch (e) {
+        // Nothing to clean up
+      }
+    }
+    this.pendingOffer = null;
+    this.onClaimed = null;
+  }
+
+  /**
+   * Whether another tab has announced an unexpired offer for this tab's URL
+   * (checked synchronously, so tabs nobody is handing to don't wait for an answer)
+   */
+  isOfferedToThisTab(): boolean {
+    try {
+      const announced = JSON.parse(localStorage.getItem(FlowHandoff.PENDING_OFFER_KEY) || 'null');
+      return !!announced && announced.expiresAt > Date.now() &&
+        announced.url === FlowHandoff.normalizeUrl(window.location.href);
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Ask the tab that opened this URL for the guide it is handing over
+   * @param timeoutMs - How long to wait for an answer
+   */
+  requestFromOtherTabs(timeoutMs: number = 800): Promise<HandoffPayload | null> {
+    const channel = this.channel;
+    if (!channel || !this.isOfferedToThisTab()) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        channel.removeEventListener('message', listener);
+        resolve(null);
+      }, timeoutMs);
+
+      const listener = (event: MessageEvent<HandoffMessage>) => {
+        const message = event.data;
+        if (message.type !== 'handoff-offer' || message.tabId !== this.tabId) return;
+        clearTimeout(timer);
+        channel.removeEventListener('message', listener);
+        channel.postMessage({ type: 'handoff-claimed', nonce: message.payload.nonce } as HandoffMessage);
+        resolve(message.payload);
+      };
+
+      channel.addEventListener('message', listener);
+      channel.postMessage({ type: 'handoff-request', tabId: this.tabId, url: window.location.href } as HandoffMessage);
+    });
+  }
+
+  /**
+   * Whether a URL points at another origin we are allowed to hand guides to
+   */
+  canHandOffTo(url: string): boolean {
+    if (!this.tokens) return false;
+    try {
+      const target = new URL(url, window.location.href);
+      if (target.origin === window.location.origin) return false;
+      if (target.protocol !== 'https:' && target.protocol !== 'http:') return false;
+      const host = target.hostname.toLowerCase();
+      return this.allowedDomains.some(domain =>
+        domain.startsWith('.') ? host.endsWith(domain) || host === domain.substring(1) : host === domain
+      );
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Add a handoff token from the HandoffTokenService to a URL on an allowed origin
+   * @returns The decorated URL, or the original URL if no token was issued
+   */
+  async decorateUrl(url: string, payload: HandoffPayload): Promise<string> {
+    if (!this.tokens || !this.canHandOffTo(url)) return url;
+    let token: string | null = null;
+    try {
+      token = await this.tokens.issue(payload);
+    } catch (error) {
+      log.warn('[FlowHandoff] Failed to issue handoff token:', error);
+    }
+    if (!token) return url;
+    const target = new URL(url, window.location.href);
+    target.searchParams.set(FlowHandoff.URL_PARAM, token);
+    return target.toString();
+  }
+
+  /**
+   * Read, redeem and consume a handoff token from the current URL.
+   * The token is removed from the address bar either way.
+   */
+  async consumeUrlToken(): Promise<HandoffPayload | null> {
+    const url = new URL(window.location.href);
+    const token = url.searchParams.get(FlowHandoff.URL_PARAM);
+    if (!token) return null;
+
+    url.searchParams.delete(FlowHandoff.URL_PARAM);
+    history.replaceState(history.state, '', url.toString());
+
+    if (!this.tokens) {
+      log.warn('[FlowHandoff] Ignoring handoff token, no handoffTokens service is configured');
+      return null;
+    }
+
+    let payload: HandoffPayload | null = null;
+    try {
+      payload = await this.tokens.redeem(token);
+    } catch (error) {
+      log.warn('[FlowHandoff] Failed to redeem handoff token:', error);
+    }
+    if (!payload || !payload.state || !payload.issuedAt || Date.now() - payload.issuedAt > FlowHandoff.TOKEN_TTL_MS) {
+      log.warn('[FlowHandoff] Ignoring invalid or expired handoff token');
+      return null;
+    }
+    if (!this.markNonceUsed(payload.nonce)) {
+      log.warn('[FlowHandoff] Ignoring handoff token that was already used');
+      return null;
+    }
+    return payload;
+  }
+
+  close(): void {
+    this.cancelOffer();
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+  }
+
+  static createNonce(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substring(2, 10);
+  }
+
+  // Offers match on origin, path (trailing slash ignored) and query, not the hash
+  private static normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url, window.location.href);
+      return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+    } catch (e) {
+      return url;
+    }
+  }
+
+  private handleMessage(message: HandoffMessage): void {
+    if (!message || !this.channel) return;
+
+    if (message.type === 'handoff-request' && this.hasPendingOffer() &&
+        FlowHandoff.normalizeUrl(message.url) === this.pendingOffer!.targetUrl) {
+      this.channel.postMessage({ type: 'handoff-offer', tabId: message.tabId, payload: this.pendingOffer!.payload } as HandoffMessage);
+    } else if (message.type === 'handoff-claimed' && this.pendingOffer && this.pendingOffer.payload.nonce === message.nonce) {
+      const onClaimed = this.onClaimed;
+      this.cancelOffer();
+      if (onClaimed) onClaimed();
+    }
+  }
+
+  // Tokens are single use: remember the last few nonces seen on this origin
+  private markNonceUsed(nonce: string): boolean {
+    try {
+      const used: string[] = JSON.parse(localStorage.getItem(FlowHandoff.USED_NONCES_KEY) || '[]');
+      if (used.includes(nonce)) return false;
+      localStorage.setItem(FlowHandoff.USED_NONCES_KEY, JSON.stringify([...used, nonce].slice(-20)));
+      return true;
+    } catch (e) {
+      return true;
+    }
+  }
+}
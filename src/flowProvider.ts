@@ -0,0 +1,136 @@
+import { ApiClient } from './apiClient';
+import { Flow, FlowBundle, FlowProvider, FlowSummary, OnboardingChecklist, ThemeOptions } from './types';
+
+/**
+ * Default provider - reads flows, themes, checklists and search results from the backend
+ */
+export class ApiFlowProvider implements FlowProvider {
+  private apiClient: ApiClient;
+
+  constructor(apiClient: ApiClient) {
+    if (!apiClient) {
+      throw new Error('ApiClient is required for ApiFlowProvider');
+    }
+    this.apiClient = apiClient;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.apiClient.checkHealth();
+  }
+
+  getFlow(id: string): Promise<Flow> {
+    return this.apiClient.getRecording(id);
+  }
+
+  listFlows(searchQuery?: string): Promise<FlowSummary[]> {
+    return this.apiClient.getRecordings(searchQuery);
+  }
+
+  searchFlows(query: string): Promise<{ id: string, name: string } | null> {
+    return this.apiClient.semanticSearch(query);
+  }
+
+  getTheme(): Promise<ThemeOptions | null> {
+    return this.apiClient.getOrganizationTheme();
+  }
+
+  getOnboardingChecklists(): Promise<OnboardingChecklist[]> {
+    return this.apiClient.getOnboardingChecklists();
+  }
+}
+
+/**
+ * Offline provider backed by a bundled JSON document.
+ * Lets guides run without the backend: ship flows inside the app,
+ * load them from a local file, or serve them from a local stub server.
+ */
+export class StaticFlowProvider implements FlowProvider {
+  private bundle: FlowBundle;
+
+  constructor(bundle: FlowBundle) {
+    if (!bundle || !Array.isArray(bundle.flows)) {
+      throw new Error('StaticFlowProvider requires a bundle with a flows array');
+    }
+    this.bundle = bundle;
+  }
+
+  /**
+   * Load a flow bundle from a URL (local file, static asset or stub server)
+   * @param url - Location of the JSON bundle
+   * @param fetchFn - Optional fetch implementation
+   */
+  static async fromUrl(url: string, fetchFn?: typeof fetch): Promise<StaticFlowProvider> {
+    const doFetch = fetchFn || fetch.bind(window);
+    const response = await doFetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load flow bundle from ${url}: ${response.status}`);
+    }
+    const bundle = await response.json();
+    return new StaticFlowProvider(bundle);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async getFlow(id: string): Promise<Flow> {
+    const flow = this.bundle.flows.find(f => String(f.id) === String(id));
+    if (!flow) {
+      throw new Error(`Flow ${id} not found in bundle`);
+    }
+    // Hand out a copy so playback can't mutate the bundled data
+    return JSON.parse(JSON.stringify(flow));
+  }
+
+  async listFlows(searchQuery?: string): Promise<FlowSummary[]> {
+    const summaries = this.bundle.flows.map(flow => this.toSummary(flow));
+    if (!searchQuery) {
+      return summaries;
+    }
+    const query = searchQuery.toLowerCase();
+    return summaries.filter(flow =>
+      (flow.name || '').toLowerCase().includes(query) ||
+      (flow.description || '').toLowerCase().includes(query)
+    );
+  }
+
+  /**
+   * Keyword search standing in for the backend's semantic search.
+   * Scores flows by how many query words appear in their name/description.
+   */
+  async searchFlows(query: string): Promise<{ id: string, name: string } | null> {
+    const words = query.toLowerCase().split(/\W+/).filter(word => word.length > 2);
+    if (words.length === 0) {
+      return null;
+    }
+
+    let bestMatch: FlowSummary | null = null;
+    let bestScore = 0;
+    for (const flow of this.bundle.flows) {
+      const haystack = `${flow.name || ''} ${flow.description || ''}`.toLowerCase();
+      const score = words.filter(word => haystack.includes(word)).length;
+      if (score > bestScore) {
+        bestScore = score;
+        bestMatch = this.toSummary(flow);
+      }
+    }
+
+    return bestMatch ? { id: bestMatch.id, name: bestMatch.name } : null;
+  }
+
+  async getTheme(): Promise<ThemeOptions | null> {
+    return this.bundle.theme || null;
+  }
+
+  async getOnboardingChecklists(): Promise<OnboardingChecklist[]> {
+    return this.bundle.checklists || [];
+  }
+
+  private toSummary(flow: Flow): FlowSummary {
+    return {
+      id: String(flow.id),
+      name: flow.name || 'Untitled Guide',
+      description: flow.description
+    };
+  }
+}
@@ -0,0 +1,373 @@
+import { Flow, OffTargetClickPolicy, StepAction } from './types';
+import { ValueMatcher } from './valueMatcher';
+import { ConditionEvaluator } from './conditionEvaluator';
+import { AutoAdvanceWatcher } from './autoAdvance';
+import { StepReadiness } from './stepReadiness';
+
+/**
+ * Raised when a loaded flow does not match the Flow/Step schema.
+ * `issues` lists every problem found, one human-readable line per issue.
+ */
+export class FlowValidationError extends Error {
+  issues: string[];
+
+  constructor(flowId: string | null, issues: string[]) {
+    super(`Flow ${flowId ?? '(unknown)'} is malformed: ${issues.join('; ')}`);
+    this.name = 'FlowValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Runtime validation for flows as they come back from a FlowProvider.
+ * Catches malformed steps up front instead of failing halfway through playback.
+ */
+export class FlowValidator {
+  static readonly KNOWN_ACTIONS: StepAction[] = [
+    'click', 'input', 'type', 'change', 'focus', 'hover', 'navigation',
+    'keypress', 'submit', 'check', 'uncheck', 'dblclick', 'drag-drop', 'file-select', 'scroll-to'
+  ];
+  static readonly OFF_TARGET_POLICIES: OffTargetClickPolicy[] = ['ignore', 'nudge', 'stop'];
+
+  /**
+   * Validate raw flow data and return it typed as a Flow
+   * @param data - Flow data from the provider
+   * @throws FlowValidationError listing every issue found
+   */
+  static validate(data: any): Flow {
+    if (!data || typeof data !== 'object') {
+      throw new FlowValidationError(null, ['flow data is not an object']);
+    }
+
+    const flowId = data.id !== undefined && data.id !== null ? String(data.id) : null;
+    const issues: string[] = [];
+
+    if (flowId === null) {
+      issues.push('missing flow id');
+    }
+
+    if (!Array.isArray(data.steps)) {
+      issues.push('missing steps array');
+      throw new FlowValidationError(flowId, issues);
+    }
+
+    if (data.steps.length === 0) {
+      issues.push('flow has no steps');
+    }
+
+    issues.push(...this.validateOffTargetSettings(data.offTargetClicks, 'flow'));
+
+    const seenPositions = new Set<number>();
+    data.steps.forEach((step: any, index: number) => {
+      const label = step && typeof step.position === 'number'
+        ? `step ${index + 1} (position ${step.position})`
+        : `step ${index + 1}`;
+
+      issues.push(...this.validateStep(step, label));
+
+      if (step && typeof step.position === 'number') {
+        if (seenPositions.has(step.position)) {
+          issues.push(`${label}: duplicate position`);
+        }
+        seenPositions.add(step.position);
+      }
+    });
+
+    // Branch targets can only be checked once every position is known
+    data.steps.forEach((step: any, index: number) => {
+      if (!step || !Array.isArray(step.branches)) return;
+      step.branches.forEach((branch: any) => {
+        if (!branch || typeof branch.goTo !== 'number') return;
+        if (!seenPositions.has(branch.goTo)) {
+          issues.push(`step ${index + 1}: branch goes to unknown position ${branch.goTo}`);
+        } else if (typeof step.position === 'number' && branch.goTo <= step.position) {
+          issues.push(`step ${index + 1}: branch must go forward (to a position after ${step.position})`);
+        }
+      });
+    });
+
+    if (issues.length > 0) {
+      throw new FlowValidationError(flowId, issues);
+    }
+
+    return data as Flow;
+  }
+
+  private static validateStep(step: any, label: string): string[] {
+    const issues: string[] = [];
+
+    if (!step || typeof step !== 'object') {
+      return [`${label}: step is not an object`];
+    }
+
+    if (step.position === undefined || step.position === null) {
+      issues.push(`${label}: missing position`);
+    } else if (typeof step.position !== 'number' || !isFinite(step.position)) {
+      issues.push(`${label}: position must be a number (got ${JSON.stringify(step.position)})`);
+    }
+
+    if (step.annotation !== undefined && step.annotation !== null && typeof step.annotation !== 'string') {
+      issues.push(`${label}: annotation must be a string`);
+    }
+
+    if (step.is_highlight_step !== undefined && typeof step.is_highlight_step !== 'boolean') {
+      issues.push(`${label}: is_highlight_step must be a boolean`);
+    }
+
+    issues.push(...this.validateOffTargetSettings(step.offTargetClicks, label));
+
+    if (step.optional !== undefined && typeof step.optional !== 'boolean') {
+      issues.push(`${label}: optional must be a boolean`);
+    }
+
+    if (step.optionalTimeoutMs !== undefined && (typeof step.optionalTimeoutMs !== 'number' || step.optionalTimeoutMs < 0)) {
+      issues.push(`${label}: optionalTimeoutMs must be a non-negative number`);
+    }
+
+    if (step.timeBudgetMs !== undefined && (typeof step.timeBudgetMs !== 'number' || step.timeBudgetMs <= 0)) {
+      issues.push(`${label}: timeBudgetMs must be a positive number`);
+    }
+
+    if (step.autoAdvance !== undefined && step.autoAdvance !== null) {
+      const triggers = Array.isArray(step.autoAdvance) ? step.autoAdvance : [step.autoAdvance];
+      triggers.forEach((trigger: any) => issues.push(...this.validateAutoAdvanceTrigger(trigger, label)));
+    }
+
+    if (step.waitFor !== undefined && step.waitFor !== null) {
+      issues.push(...this.validateWaitFor(step.waitFor, label));
+    }
+
+    if (step.condition !== undefined && step.condition !== null) {
+      issues.push(...ConditionEvaluator.validate(step.condition, label));
+    }
+
+    if (step.branches !== undefined) {
+      if (!Array.isArray(step.branches)) {
+        issues.push(`${label}: branches must be an array`);
+      } else {
+        step.branches.forEach((branch: any) => {
+          if (!branch || typeof branch !== 'object') {
+            issues.push(`${label}: branch must be an object`);
+            return;
+          }
+          if (typeof branch.goTo !== 'number') {
+            issues.push(`${label}: branch needs a numeric goTo position`);
+          }
+          issues.push(...ConditionEvaluator.validate(branch.when, label));
+        });
+      }
+    }
+
+    const interaction = step.interaction;
+    if (!interaction || typeof interaction !== 'object') {
+      issues.push(`${label}: missing interaction`);
+      return issues;
+    }
+
+    if (interaction.action !== undefined && interaction.action !== null) {
+      const action = String(interaction.action).toLowerCase();
+      if (!(this.KNOWN_ACTIONS as string[]).includes(action)) {
+        issues.push(`${label}: unknown action "${interaction.action}"`);
+      }
+      issues.push(...this.validateActionFields(action, interaction, label));
+    }
+
+    const element = interaction.element || {};
+    const selectors = [element.cssSelector, interaction.cssSelector].filter(Boolean);
+    selectors.forEach((selector: string) => {
+      if (selector.includes(':contains(')) {
+        issues.push(`${label}: selector "${selector}" uses :contains(), which is not valid CSS`);
+      }
+    });
+
+    const hasLocator = !!(
+      element.id ||
+      element.cssSelector ||
+      interaction.cssSelector ||
+      element.textContent ||
+      interaction.text ||
+      element.attributes ||
+      (Array.isArray(element.path) && element.path.length > 0)
+    );
+    if (!hasLocator) {
+      issues.push(`${label}: no id, selector, text or attributes to locate the target element`);
+    }
+
+    const pageInfo = interaction.pageInfo;
+    if (pageInfo !== undefined && pageInfo !== null) {
+      if (typeof pageInfo !== 'object') {
+        issues.push(`${label}: pageInfo must be an object`);
+      } else if (pageInfo.url !== undefined && typeof pageInfo.url !== 'string') {
+        issues.push(`${label}: pageInfo.url must be a string`);
+      }
+    }
+
+    return issues;
+  }
+
+  private static validateActionFields(action: string, interaction: any, label: string): string[] {
+    const issues: string[] = [];
+
+    if (action === 'keypress' && (typeof interaction.key !== 'string' || !interaction.key.trim())) {
+      issues.push(`${label}: keypress steps need a key (e.g. "Enter" or "Ctrl+S")`);
+    }
+    if (interaction.dropTargetSelector !== undefined && typeof interaction.dropTargetSelector !== 'string') {
+      issues.push(`${label}: dropTargetSelector must be a string`);
+    }
+    if (interaction.fileTypes !== undefined &&
+        (!Array.isArray(interaction.fileTypes) || interaction.fileTypes.some((type: any) => typeof type !== 'string'))) {
+      issues.push(`${label}: fileTypes must be an array of strings`);
+    }
+    if (interaction.dwellMs !== undefined && (typeof interaction.dwellMs !== 'number' || interaction.dwellMs < 0)) {
+      issues.push(`${label}: dwellMs must be a non-negative number`);
+    }
+    if (interaction.valueMatch !== undefined) {
+      issues.push(...this.validateValueMatch(interaction.valueMatch, interaction.value, label));
+    }
+    if (interaction.minVisibleRatio !== undefined &&
+        (typeof interaction.minVisibleRatio !== 'number' || interaction.minVisibleRatio < 0 || interaction.minVisibleRatio > 1)) {
+      issues.push(`${label}: minVisibleRatio must be a number between 0 and 1`);
+    }
+    if (interaction.minConfidence !== undefined &&
+        (typeof interaction.minConfidence !== 'number' || interaction.minConfidence < 0 || interaction.minConfidence > 1)) {
+      issues.push(`${label}: minConfidence must be a number between 0 and 1`);
+    }
+
+    return issues;
+  }
+
+  /**
+   * @param fallbackValue - The step's interaction.value, which the rule's value/pattern default to
+   */
+  private static validateValueMatch(rule: any, fallbackValue: any, label: string): string[] {
+    if (!rule || typeof rule !== 'object') {
+      return [`${label}: valueMatch must be an object`];
+    }
+    if (!(ValueMatcher.MODES as string[]).includes(rule.mode)) {
+      return [`${label}: unknown valueMatch mode "${rule.mode}"`];
+    }
+
+    const issues: string[] = [];
+    // Without an expected value these modes compare against '' and accept almost anything
+    const expected = rule.value ?? fallbackValue;
+    if (rule.mode === 'regex') {
+      const pattern = rule.pattern ?? expected;
+      if (typeof pattern !== 'string' || !pattern) {
+        issues.push(`${label}: regex valueMatch needs a pattern`);
+      } else if (!ValueMatcher.compile({ ...rule, pattern })) {
+        issues.push(`${label}: valueMatch pattern is not a valid regular expression`);
+      }
+    }
+    if ((rule.mode === 'exact' || rule.mode === 'contains' || rule.mode === 'case-insensitive') &&
+        (typeof expected !== 'string' || !expected)) {
+      issues.push(`${label}: ${rule.mode} valueMatch needs a value`);
+    }
+    if (rule.mode === 'range') {
+      if (rule.min === undefined && rule.max === undefined) {
+        issues.push(`${label}: range valueMatch needs a min and/or max`);
+      }
+      if ((rule.min !== undefined && typeof rule.min !== 'number') || (rule.max !== undefined && typeof rule.max !== 'number')) {
+        issues.push(`${label}: valueMatch min/max must be numbers`);
+      }
+    }
+    return issues;
+  }
+
+  private static validateAutoAdvanceTrigger(trigger: any, label: string): string[] {
+    if (!trigger || typeof trigger !== 'object') {
+      return [`${label}: autoAdvance trigger must be an object`];
+    }
+    if (!(AutoAdvanceWatcher.TRIGGER_TYPES as string[]).includes(trigger.type)) {
+      return [`${label}: unknown autoAdvance trigger "${trigger.type}"`];
+    }
+
+    switch (trigger.type) {
+      case 'delay':
+        return typeof trigger.seconds === 'number' && trigger.seconds >= 0
+          ? []
+          : [`${label}: delay trigger needs a non-negative number of seconds`];
+      case 'element-appears':
+      case 'element-disappears':
+        return typeof trigger.selector === 'string' && trigger.selector
+          ? []
+          : [`${label}: ${trigger.type} trigger needs a selector`];
+      case 'url-changes':
+        if (trigger.pattern === undefined || trigger.pattern === null) return [];
+        return this.isValidPattern(trigger.pattern)
+          ? []
+          : [`${label}: url-changes pattern is not a valid regular expression`];
+      case 'network-request':
+        if (typeof trigger.urlPattern !== 'string' || !trigger.urlPattern) {
+          return [`${label}: network-request trigger needs a urlPattern`];
+        }
+        return this.isValidPattern(trigger.urlPattern)
+          ? []
+          : [`${label}: network-request urlPattern is not a valid regular expression`];
+      default:
+        return [];
+    }
+  }
+
+  private static isValidPattern(pattern: any): boolean {
+    if (typeof pattern !== 'string') return false;
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private static validateWaitFor(waitFor: any, label: string): string[] {
+    if (typeof waitFor !== 'object' || Array.isArray(waitFor)) {
+      return [`${label}: waitFor must be an object`];
+    }
+
+    const issues: string[] = [];
+    // Without rules waitFor is a fixed delay, which should be asked for explicitly
+    const noRules = waitFor.rules === undefined || (Array.isArray(waitFor.rules) && waitFor.rules.length === 0);
+    if (noRules && waitFor.maxWaitMs === undefined) {
+      issues.push(`${label}: waitFor needs rules, or a maxWaitMs for a fixed delay`);
+    }
+    if (waitFor.maxWaitMs !== undefined && (typeof waitFor.maxWaitMs !== 'number' || waitFor.maxWaitMs < 0)) {
+      issues.push(`${label}: waitFor.maxWaitMs must be a non-negative number`);
+    }
+    if (waitFor.rules !== undefined) {
+      if (!Array.isArray(waitFor.rules)) {
+        issues.push(`${label}: waitFor.rules must be an array`);
+      } else {
+        waitFor.rules.forEach((rule: any) => {
+          if (!rule || !(StepReadiness.RULE_TYPES as string[]).includes(rule.type)) {
+            issues.push(`${label}: unknown waitFor rule "${rule && rule.type}"`);
+          } else if (rule.type === 'selector-visible' && !rule.selector) {
+            issues.push(`${label}: selector-visible rule needs a selector`);
+          } else if (rule.type === 'text-present' && !rule.text) {
+            issues.push(`${label}: text-present rule needs text`);
+          } else if (rule.type === 'callback' && !rule.name) {
+            issues.push(`${label}: callback rule needs a name`);
+          }
+        });
+      }
+    }
+    return issues;
+  }
+
+  private static validateOffTargetSettings(settings: any, label: string): string[] {
+    if (settings === undefined || settings === null) return [];
+    if (typeof settings !== 'object') {
+      return [`${label}: offTargetClicks must be an object`];
+    }
+
+    const issues: string[] = [];
+    [settings.policy, settings.escalateTo].forEach(policy => {
+      if (policy !== undefined && !(this.OFF_TARGET_POLICIES as string[]).includes(policy)) {
+        issues.push(`${label}: unknown off-target click policy "${policy}"`);
+      }
+    });
+    if (settings.escalateAfter !== undefined &&
+        (typeof settings.escalateAfter !== 'number' || settings.escalateAfter < 0)) {
+      issues.push(`${label}: offTargetClicks.escalateAfter must be a non-negative number`);
+    }
+    return issues;
+  }
+}
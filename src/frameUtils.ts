@@ -0,0 +1,125 @@
+/**
+ * Types that isInstance can check across frames
+ */
+interface FrameTypeMap {
+  Element: Element;
+  HTMLElement: HTMLElement;
+  HTMLAnchorElement: HTMLAnchorElement;
+  HTMLButtonElement: HTMLButtonElement;
+  HTMLFormElement: HTMLFormElement;
+  HTMLInputElement: HTMLInputElement;
+  HTMLSelectElement: HTMLSelectElement;
+  HTMLTextAreaElement: HTMLTextAreaElement;
+  KeyboardEvent: KeyboardEvent;
+}
+
+/**
+ * Helpers for targets inside same-origin iframes.
+ * Each frame has its own viewport and its own DOM constructors, so rects need translating
+ * into this page's coordinates and plain `instanceof` checks fail for frame elements.
+ * Cross-origin frames are not accessible and are skipped.
+ */
+export class FrameUtils {
+  private static readonly MAX_FRAME_DEPTH = 3;
+
+  /**
+   * Documents of the same-origin frames under a document, nested frames included
+   * @param root - Document to start from (defaults to this page)
+   */
+  static getAccessibleFrames(root: Document = document, depth: number = 0): { frame: HTMLIFrameElement; doc: Document }[] {
+    const frames: { frame: HTMLIFrameElement; doc: Document }[] = [];
+    if (depth >= this.MAX_FRAME_DEPTH) return frames;
+
+    root.querySelectorAll('iframe, frame').forEach(element => {
+      const frame = element as HTMLIFrameElement;
+      let doc: Document | null = null;
+      try {
+        doc = frame.contentDocument; // null (or a throw in older browsers) for cross-origin frames
+      } catch (e) {
+        doc = null;
+      }
+      if (!doc || !doc.documentElement) return;
+      frames.push({ frame, doc });
+      frames.push(...this.getAccessibleFrames(doc, depth + 1));
+    });
+    return frames;
+  }
+
+  /**
+   * The frame element hosting an element's document, or null if the element is in this page
+   */
+  static getHostFrame(element: Element): HTMLElement | null {
+    const view = element.ownerDocument && element.ownerDocument.defaultView;
+    if (!view || view === window) return null;
+    try {
+      return view.frameElement as HTMLElement | null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Frames between an element and this page, innermost first
+   */
+  static getFrameChain(element: Element): HTMLElement[] {
+    const chain: HTMLElement[] = [];
+    let frame = this.getHostFrame(element);
+    while (frame) {
+      chain.push(frame);
+      frame = this.getHostFrame(frame);
+    }
+    return chain;
+  }
+
+  /**
+   * Where a frame's content area starts, in its parent's viewport coordinates
+   */
+  static getContentOffset(frame: HTMLElement): { x: number; y: number } {
+    const frameRect = frame.getBoundingClientRect();
+    const view = frame.ownerDocument.defaultView || window;
+    const style = view.getComputedStyle(frame);
+    return {
+      x: frameRect.left + frame.clientLeft + (parseFloat(style.paddingLeft) || 0),
+      y: frameRect.top + frame.clientTop + (parseFloat(style.paddingTop) || 0)
+    };
+  }
+
+  /**
+   * getBoundingClientRect translated into this page's viewport coordinates
+   */
+  static getViewportRect(element: Element): DOMRect {
+    const rect = element.getBoundingClientRect();
+    let left = rect.left;
+    let top = rect.top;
+    for (const frame of this.getFrameChain(element)) {
+      const offset = this.getContentOffset(frame);
+      left += offset.x;
+      top += offset.y;
+    }
+    return new DOMRect(left, top, rect.width, rect.height);
+  }
+
+  /**
+   * Frame windows whose scrolling moves the element (empty for elements in this page)
+   */
+  static getFrameWindows(element: Element): Window[] {
+    return this.getFrameChain(element)
+      .map(frame => (frame as HTMLIFrameElement).contentWindow)
+      .filter((view): view is Window => !!view);
+  }
+
+  /**
+   * instanceof that also recognizes nodes and events from other frames
+   */
+  static isInstance<K extends keyof FrameTypeMap>(value: unknown, typeName: K): value is FrameTypeMap[K] {
+    if (!value || typeof value !== 'object') return false;
+    const own = (window as any)[typeName];
+    if (own && value instanceof own) return true;
+
+    const candidate = value as any;
+    const realm: any = (candidate.ownerDocument && candidate.ownerDocument.defaultView) ||
+      candidate.view ||
+      (candidate.target && candidate.target.ownerDocument && candidate.target.ownerDocument.defaultView);
+    return !!realm && realm !== window && !!realm[typeName] && value instanceof realm[typeName];
+  }
+}
@@ -1,13 +1,10 @@
-import { ApiClient } from './apiClient';
+import { ApiClient, DEFAULT_API_URL } from './apiClient';
 import CursorFlow from './cursorFlow';
 import { CopilotModal } from './copilotModal';
 import { OnboardingModal } from './onboardingChecklist';
 import { FlowExecutionTracker } from './flowExecutionTracker';
-import { CursorFlowOptions } from './types';
-
-// Define the API URL constant - same as in cursorFlow.ts
-const API_URL = 'https://hyphenbox-backend.onrender.com';
-// const API_URL = 'http://localhost:8000';
+import { ApiFlowProvider, StaticFlowProvider } from './flowProvider';
+import { CursorFlowController, CursorFlowEventHandler, CursorFlowEventName, CursorFlowOptions } from './types';
 
 // Export CursorFlow as the default export (for browser compatibility)
 export default CursorFlow;
@@ -18,7 +15,10 @@ export default CursorFlow;
  */
 export function initialize(options: CursorFlowOptions): { 
   createCopilotButton: (container: HTMLElement, customClass?: string) => HTMLButtonElement,
-  createOnboardingButton: (container: HTMLElement, customClass?: string) => HTMLButtonElement
+  createOnboardingButton: (container: HTMLElement, customClass?: string) => HTMLButtonElement,
+  on: <K extends CursorFlowEventName>(event: K, handler: CursorFlowEventHandler<K>) => () => void,
+  off: <K extends CursorFlowEventName>(event: K, handler: CursorFlowEventHandler<K>) => void,
+  controller: CursorFlowController
 } {
   // Ensure required options are provided
   if (!options.apiKey) {
@@ -28,56 +28,73 @@ export function initialize(options: CursorFlowOptions): {
     throw new Error('userId is required');
   }
 
-  // Apply defaults - apiUrl is no longer configurable
+  // Apply defaults - apiUrl and transport fall back to the hosted backend over axios
+  const apiClient = new ApiClient(
+    options.apiUrl || DEFAULT_API_URL,
+    options.apiKey, // Use options.apiKey directly
+    options.userId, // Use options.userId directly
+    options.transport
+  );
   const configuredOptions = {
     buttonText: 'Help & Guides',
     onboardingButtonText: 'Onboarding',
     debug: false,
     ...options,
-    apiClient: new ApiClient(
-      API_URL,
-      options.apiKey, // Use options.apiKey directly
-      options.userId // Use options.userId directly
-    )
+    apiClient,
+    // Flows come from the backend unless a provider (e.g. StaticFlowProvider) is supplied
+    flowProvider: options.flowProvider || new ApiFlowProvider(apiClient)
   };
 
-  // Initialize CursorFlow with the shared apiClient instance
+  // Initialize CursorFlow with the shared apiClient and flowProvider instances
   const cursorFlow = new CursorFlow(configuredOptions);
   cursorFlow.init();
 
-  // Initialize CopilotModal with callback to CursorFlow and the apiClient
+  // Initialize CopilotModal with callback to CursorFlow and the flowProvider
   CopilotModal.init(
-    configuredOptions.apiClient,
+    configuredOptions.flowProvider,
     (guideId: string) => {
-      // Using any to access private method
-      (cursorFlow as any).startGuideAfterSearch(guideId);
+      cursorFlow.startFlow(guideId);
     },
     configuredOptions.theme || {}
   );
 
-  // Initialize OnboardingModal with callback to CursorFlow and the apiClient
+  // Initialize OnboardingModal with callback to CursorFlow and the flowProvider
   OnboardingModal.init(
-    configuredOptions.apiClient,
+    configuredOptions.flowProvider,
     (flowId: string) => {
-      // Using any to access private method
-      (cursorFlow as any).startGuideAfterSearch(flowId);
+      cursorFlow.startFlow(flowId);
     },
     configuredOptions.theme || {}
   );
 
-  // Return functions to create buttons
+  // Return functions to create buttons, subscribe to guide events and drive guides
   return {
     createCopilotButton: (container: HTMLElement, customClass?: string) => {
       return CopilotModal.createCopilotButton(container, configuredOptions.buttonText, customClass);
     },
     createOnboardingButton: (container: HTMLElement, customClass?: string) => {
       return OnboardingModal.createOnboardingButton(container, configuredOptions.onboardingButtonText, customClass);
-    }
+    },
+    on: (event, handler) => cursorFlow.on(event, handler),
+    off: (event, handler) => cursorFlow.off(event, handler),
+    controller: cursorFlow.getController()
   };
 }
 
 // Also export other components for advanced usage
 export { ApiClient, CursorFlow, CopilotModal, OnboardingModal, FlowExecutionTracker };
+export { AxiosTransport, FetchTransport, InMemoryTransport, TransportError } from './transport';
+export { ApiFlowProvider, StaticFlowProvider };
+export { FlowValidator, FlowValidationError } from './flowValidator';
+export { ValueMatcher } from './valueMatcher';
+export { ConditionEvaluator } from './conditionEvaluator';
+export { ShadowDom } from './shadowDom';
+export { Accessibility } from './accessibility';
+export { ElementFingerprinter } from './elementFingerprint';
+export { LocatorDiagnosticsCollector } from './locatorDiagnostics';
+export { Logger, NamespacedLogger } from './logger';
+export { StepPerformance } from './stepPerformance';
+export { DomIndex } from './domIndex';
 export * from './types';
 
 // Ensure CursorFlow is available on the window object for the extension
@@ -0,0 +1,164 @@
+import {
+  CandidateRejection,
+  CandidateRejectionReason,
+  InteractionData,
+  LocatorDiagnostics,
+  LocatorStrategyDiagnostic,
+  ScoredCandidate,
+  StepEventPayload
+} from './types';
+
+/**
+ * Collects a structured record of one attempt to locate a step's target.
+ * RobustElementFinder and SelectiveDomAnalyzer report into the active collector
+ * (see their setDiagnostics); CursorFlow creates one per attempt and emits the result.
+ */
+export class LocatorDiagnosticsCollector {
+  private static readonly MAX_REJECTIONS_PER_STRATEGY = 25;
+  private static readonly MAX_RANKED = 10;
+
+  private report: LocatorDiagnostics;
+  private currentStrategy: LocatorStrategyDiagnostic | null = null;
+  private strategyStartedAt = 0;
+  private startedAt = performance.now();
+
+  constructor(step: StepEventPayload, interaction: InteractionData, minConfidence: number) {
+    const elementData = interaction.element || {};
+    this.report = {
+      ...step,
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+      pageUrl: window.location.href,
+      target: {
+        tagName: elementData.tagName,
+        id: elementData.id,
+        cssSelector: elementData.cssSelector || interaction.cssSelector,
+        text: interaction.text || elementData.textContent
+      },
+      attempts: 0,
+      searchRoots: [],
+      strategies: [],
+      ranked: [],
+      minConfidence,
+      selected: null,
+      outcome: 'not_found'
+    };
+  }
+
+  /**
+   * A new search cycle over the given roots
+   */
+  beginAttempt(searchRoots: string[]): void {
+    this.report.attempts++;
+    searchRoots.forEach(name => {
+      if (!this.report.searchRoots.includes(name)) this.report.searchRoots.push(name);
+    });
+  }
+
+  beginStrategy(name: string): void {
+    this.endStrategy();
+    this.currentStrategy = {
+      attempt: this.report.attempts,
+      name,
+      durationMs: 0,
+      candidatesFound: 0,
+      textMatched: 0,
+      valid: 0,
+      rejections: [],
+      rejectionsOmitted: 0
+    };
+    this.strategyStartedAt = performance.now();
+  }
+
+  /**
+   * What the current strategy queried and how many elements survived the text/name filter
+   */
+  recordQuery(query: string, candidatesFound: number, textMatched: number): void {
+    if (!this.currentStrategy) return;
+    this.currentStrategy.query = query;
+    this.currentStrategy.candidatesFound = candidatesFound;
+    this.currentStrategy.textMatched = textMatched;
+  }
+
+  recordRejection(element: Element, reason: CandidateRejectionReason, detail?: string, interactive?: boolean): void {
+    if (!this.currentStrategy) return;
+    if (this.currentStrategy.rejections.length >= LocatorDiagnosticsCollector.MAX_REJECTIONS_PER_STRATEGY) {
+      this.currentStrategy.rejectionsOmitted++;
+      return;
+    }
+    const rejection: CandidateRejection = { element: LocatorDiagnosticsCollector.describe(element), reason };
+    if (detail) rejection.detail = detail;
+    if (interactive !== undefined) rejection.interactive = interactive;
+    this.currentStrategy.rejections.push(rejection);
+  }
+
+  endStrategy(valid?: number): void {
+    if (!this.currentStrategy) return;
+    if (valid !== undefined) this.currentStrategy.valid = valid;
+    this.currentStrategy.durationMs = Math.round(performance.now() - this.strategyStartedAt);
+    this.report.strategies.push(this.currentStrategy);
+    this.currentStrategy = null;
+  }
+
+  recordRanking(ranked: ScoredCandidate[]): void {
+    this.report.ranked = ranked.slice(0, LocatorDiagnosticsCollector.MAX_RANKED).map(candidate => ({
+      element: LocatorDiagnosticsCollector.describe(candidate.element),
+      confidence: Math.round(candidate.confidence * 100) / 100,
+      strategy: candidate.strategy,
+      signals: candidate.signals
+    }));
+  }
+
+  finish(outcome: LocatorDiagnostics['outcome'], selected: HTMLElement | null): LocatorDiagnostics {
+    this.endStrategy();
+    this.report.outcome = outcome;
+    this.report.selected = selected ? LocatorDiagnosticsCollector.describe(selected) : null;
+    this.report.durationMs = Math.round(performance.now() - this.startedAt);
+    return this.report;
+  }
+
+  /**
+   * Short description of an element, e.g. 'button#save.btn.primary'
+   */
+  static describe(element: Element): string {
+    const id = element.id ? `#${element.id}` : '';
+    const classes = typeof element.className === 'string'
+      ? element.className.trim().split(/\s+/).filter(Boolean).slice(0, 3).map(name => `.${name}`).join('')
+      : '';
+    return `${element.tagName.toLowerCase()}${id}${classes}`;
+  }
+
+  /**
+   * One-line-per-strategy summary, small enough to attach to abandonment details
+   */
+  static summarize(report: LocatorDiagnostics): string {
+    const lines = report.strategies.map(strategy => {
+      const reasons: { [reason: string]: number } = {};
+      strategy.rejections.forEach(rejection => {
+        reasons[rejection.reason] = (reasons[rejection.reason] || 0) + 1;
+      });
+      const reasonText = Object.keys(reasons).map(reason => `${reason}=${reasons[reason]}`).join(', ');
+      return `${strategy.name}: found ${strategy.candidatesFound}, text ${strategy.textMatched}, valid ${strategy.valid}` +
+        `${reasonText ? ` (${reasonText})` : ''} [${strategy.durationMs}ms]`;
+    });
+    const best = report.ranked[0];
+    lines.unshift(`Locator ${report.outcome} after ${report.attempts} attempt(s) in ${report.durationMs}ms` +
+      (best ? `; best ${best.element} at ${best.confidence} (min ${report.minConfidence})` : ''));
+    return lines.join('\n');
+  }
+
+  /**
+   * Save a report as a JSON file through the browser's download prompt
+   */
+  static download(report: LocatorDiagnostics, filename?: string): void {
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename || `locator-diagnostics-${report.flowId || 'flow'}-step-${report.position}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
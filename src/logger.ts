@@ -0,0 +1,115 @@
+import { LoggerOptions, LogLevel, LogNamespace, LogRecord, LogSink } from './types';
+
+const LEVEL_ORDER: { [level in LogLevel]: number } = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4
+};
+
+/**
+ * Shared, leveled logger for the SDK. Silent until the host configures it
+ * (CursorFlowOptions.logger, or debug: true for debug-level console output).
+ * Modules log through a namespaced instance: `const log = Logger.for('finder');`
+ */
+export class Logger {
+  private static level: LogLevel = 'silent';
+  private static namespaceLevels: { [namespace in LogNamespace]?: LogLevel } = {};
+  private static sink: LogSink = record => Logger.consoleSink(record);
+  private static instances: { [namespace in LogNamespace]?: NamespacedLogger } = {};
+
+  /**
+   * Apply logging options; unset fields keep their current values
+   */
+  static configure(options: LoggerOptions): void {
+    if (options.level) this.level = options.level;
+    if (options.namespaces) this.namespaceLevels = { ...options.namespaces };
+    if (options.sink) this.sink = options.sink;
+  }
+
+  /**
+   * Back to the defaults: silent, console sink, no namespace overrides
+   */
+  static reset(): void {
+    this.level = 'silent';
+    this.namespaceLevels = {};
+    this.sink = record => Logger.consoleSink(record);
+  }
+
+  /**
+   * Logger for one area of the SDK (instances are shared per namespace)
+   */
+  static for(namespace: LogNamespace): NamespacedLogger {
+    if (!this.instances[namespace]) {
+      this.instances[namespace] = new NamespacedLogger(namespace);
+    }
+    return this.instances[namespace]!;
+  }
+
+  static isEnabled(namespace: LogNamespace, level: Exclude<LogLevel, 'silent'>): boolean {
+    const threshold = this.namespaceLevels[namespace] || this.level;
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[threshold];
+  }
+
+  static write(namespace: LogNamespace, level: Exclude<LogLevel, 'silent'>, args: any[]): void {
+    if (!this.isEnabled(namespace, level)) return;
+    try {
+      this.sink({ level, namespace, args, timestamp: Date.now() });
+    } catch (e) {
+      // A failing host sink must never break the guide
+    }
+  }
+
+  /**
+   * Default sink: the browser console, with the arguments as given
+   */
+  static consoleSink(record: LogRecord): void {
+    switch (record.level) {
+      case 'error': console.error(...record.args); break;
+      case 'warn': console.warn(...record.args); break;
+      case 'info': console.info(...record.args); break;
+      default: console.log(...record.args);
+    }
+  }
+}
+
+export class NamespacedLogger {
+  private timers = new Map<string, number>();
+
+  constructor(readonly namespace: LogNamespace) {}
+
+  debug(...args: any[]): void {
+    Logger.write(this.namespace, 'debug', args);
+  }
+
+  info(...args: any[]): void {
+    Logger.write(this.namespace, 'info', args);
+  }
+
+  warn(...args: any[]): void {
+    Logger.write(this.namespace, 'warn', args);
+  }
+
+  error(...args: any[]): void {
+    Logger.write(this.namespace, 'error', args);
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    return Logger.isEnabled(this.namespace, level);
+  }
+
+  /**
+   * Start a timer; timeEnd logs the elapsed time at debug level (console.time equivalent)
+   */
+  time(label: string): void {
+    this.timers.set(label, performance.now());
+  }
+
+  timeEnd(label: string): void {
+    const startedAt = this.timers.get(label);
+    if (startedAt === undefined) return;
+    this.timers.delete(label);
+    this.debug(`${label}: ${(performance.now() - startedAt).toFixed(1)}ms`);
+  }
+}
@@ -1,4 +1,7 @@
 import { CursorFlowState } from './types';
+import { Logger } from './logger';
+
+const log = Logger.for('state');
 
 export class StateManager {
     // Constants
@@ -14,7 +17,7 @@ export class StateManager {
     static save(state: CursorFlowState): void {
       try {
         if (!state) {
-          console.error('Cannot save null state');
+          log.error('Cannot save null state');
           return;
         }
         
@@ -30,10 +33,10 @@ export class StateManager {
         // Replace the debug check with this
         const shouldLog = 'debug' in state ? state.debug : false;
         if (shouldLog) {
-          console.log('State saved:', stateString);
+          log.debug('State saved:', stateString);
         }
       } catch (error) {
-        console.error('Failed to save state:', error);
+        log.error('Failed to save state:', error);
       }
     }
   
@@ -82,23 +85,23 @@ export class StateManager {
       try {
         const savedState = localStorage.getItem(this.STORAGE_KEY);
         if (!savedState) {
-          console.log('No state found in storage.');
+          log.debug('No state found in storage.');
           return null;
         }
   
         const state = JSON.parse(savedState);
-        console.log('Retrieved state from storage:', state);
+        log.debug('Retrieved state from storage:', state);
         
         // Validate version
         if (state.version !== this.STATE_VERSION) {
-          console.log('State version mismatch, clearing state');
+          log.debug('State version mismatch, clearing state');
           this.clear();
           return null;
         }
   
         // Check expiry
         if (Date.now() - state.timestamp > this.EXPIRY_TIME) {
-          console.log('State expired, clearing state');
+          log.debug('State expired, clearing state');
           this.clear();
           return null;
         }
@@ -112,7 +115,7 @@ export class StateManager {
         const { version, ...cleanState } = state;
         return cleanState;
       } catch (error) {
-        console.error('Failed to restore state:', error);
+        log.error('Failed to restore state:', error);
         return null;
       }
     }
@@ -128,7 +131,7 @@ export class StateManager {
       try {
         localStorage.removeItem(this.STORAGE_KEY);
       } catch (error) {
-        console.error('Failed to clear state:', error);
+        log.error('Failed to clear state:', error);
       }
     }
   
@@ -136,7 +139,7 @@ export class StateManager {
       try {
         sessionStorage.setItem(this.SESSION_KEY, 'true');
       } catch (error) {
-        console.error('Failed to set session active:', error);
+        log.error('Failed to set session active:', error);
       }
     }
   
@@ -148,7 +151,7 @@ export class StateManager {
       try {
         sessionStorage.removeItem(this.SESSION_KEY);
       } catch (error) {
-        console.error('Failed to clear session:', error);
+        log.error('Failed to clear session:', error);
       }
     }
   }
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { Logger } from './logger';
+
+const log = Logger.for('network');
+
+export interface NetworkRequestEvent {
+  url: string;
+  method: string;
+  status: number;     // 0 for network errors
+  phase: 'start' | 'end';
+}
+
+type NetworkListener = (event: NetworkRequestEvent) => void;
+
+/**
+ * Observes the host page's fetch and XMLHttpRequest traffic.
+ * The patches are installed on the first subscription and removed when the last listener leaves,
+ * so pages that never use network-based triggers are left untouched.
+ */
+export class NetworkMonitor {
+  private static listeners: NetworkListener[] = [];
+  private static pendingCount = 0;
+  private static originalFetch: typeof fetch | null = null;
+  private static originalXhrOpen: typeof XMLHttpRequest.prototype.open | null = null;
+  private static originalXhrSend: typeof XMLHttpRequest.prototype.send | null = null;
+  // Our wrappers, to tell whether another library has wrapped them since
+  private static installedFetch: typeof fetch | null = null;
+  private static installedXhrOpen: typeof XMLHttpRequest.prototype.open | null = null;
+  private static installedXhrSend: typeof XMLHttpRequest.prototype.send | null = null;
+  // Cleared on uninstall; wrappers that can't be removed check it and pass requests straight through
+  private static installation: { active: boolean } | null = null;
+
+  /**
+   * Listen for request start/end events
+   * @returns Function that removes the listener
+   */
+  static subscribe(listener: NetworkListener): () => void {
+    this.listeners.push(listener);
+    if (this.listeners.length === 1) {
+      this.install();
+    }
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+      if (this.listeners.length === 0) {
+        this.uninstall();
+      }
+    };
+  }
+
+  /**
+   * Number of requests started (while monitoring) that haven't finished yet
+   */
+  static getPendingCount(): number {
+    return this.pendingCount;
+  }
+
+  private static emit(event: NetworkRequestEvent): void {
+    if (event.phase === 'start') {
+      this.pendingCount++;
+    } else {
+      this.pendingCount = Math.max(0, this.pendingCount - 1);
+    }
+    [...this.listeners].forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        log.error('[NetworkMonitor] Error in listener:', error);
+      }
+    });
+  }
+
+  private static install(): void {
+    this.pendingCount = 0;
+    const installation = { active: true };
+    this.installation = installation;
+
+    if (typeof window.fetch === 'function') {
+      const originalFetch = window.fetch;
+      this.originalFetch = originalFetch;
+      window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+        if (!installation.active) return originalFetch.call(window, input, init);
+        const url = typeof input === 'string' ? input : (input instanceof URL ? input.href : input.url);
+        const method = ((init && init.method) || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase();
+        NetworkMonitor.emit({ url, method, status: 0, phase: 'start' });
+        return originalFetch.call(window, input, init).then(
+          response => {
+            NetworkMonitor.emit({ url, method, status: response.status, phase: 'end' });
+            return response;
+          },
+          error => {
+            NetworkMonitor.emit({ url, method, status: 0, phase: 'end' });
+            throw error;
+          }
+        );
+      };
+      this.installedFetch = window.fetch;
+    }
+
+    if (typeof XMLHttpRequest !== 'undefined') {
+      const originalOpen = XMLHttpRequest.prototype.open;
+      const originalSend = XMLHttpRequest.prototype.send;
+      this.originalXhrOpen = originalOpen;
+      this.originalXhrSend = originalSend;
+
+      XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: any[]) {
+        if (installation.active) {
+          (this as any)._hyphenRequest = { method: method.toUpperCase(), url: String(url) };
+        }
+        return (originalOpen as any).call(this, method, url, ...rest);
+      } as typeof XMLHttpRequest.prototype.open;
+
+      XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+        if (!installation.active) return originalSend.call(this, body);
+        const request = (this as any)._hyphenRequest || { method: 'GET', url: '' };
+        NetworkMonitor.emit({ url: request.url, method: request.method, status: 0, phase: 'start' });
+        this.addEventListener('loadend', () => {
+          NetworkMonitor.emit({ url: request.url, method: request.method, status: this.status, phase: 'end' });
+        }, { once: true });
+        return originalSend.call(this, body);
+      };
+      this.installedXhrOpen = XMLHttpRequest.prototype.open;
+      this.installedXhrSend = XMLHttpRequest.prototype.send;
+    }
+  }
+
+  /**
+   * Restore the original fetch/XHR methods where ours are still the ones installed.
+   * If another library wrapped them after us, restoring would drop its wrapper,
+   * so ours stays in its chain as a pass-through instead.
+   */
+  private static uninstall(): void {
+    if (this.installation) {
+      this.installation.active = false;
+      this.installation = null;
+    }
+    if (this.originalFetch) {
+      if (window.fetch === this.installedFetch) {
+        window.fetch = this.originalFetch;
+      } else {
+        log.debug('[NetworkMonitor] fetch was wrapped by another script, leaving ours as a pass-through');
+      }
+      this.originalFetch = null;
+      this.installedFetch = null;
+    }
+    if (this.originalXhrOpen && this.originalXhrSend) {
+      if (XMLHttpRequest.prototype.open === this.installedXhrOpen) {
+        XMLHttpRequest.prototype.open = this.originalXhrOpen;
+      }
+      if (XMLHttpRequest.prototype.send === this.installedXhrSend) {
+        XMLHttpRequest.prototype.send = this.originalXhrSend;
+      }
+      this.originalXhrOpen = null;
+      this.originalXhrSend = null;
+      this.installedXhrOpen = null;
+      this.installedXhrSend = null;
+    }
+    this.pendingCount = 0;
+  }
+}
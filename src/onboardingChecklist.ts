@@ -1,11 +1,14 @@
-import { ApiClient } from './apiClient';
-import { OnboardingChecklist, OnboardingFlow, ThemeOptions } from './types';
+import { FlowProvider, OnboardingChecklist, OnboardingFlow, ThemeOptions } from './types';
 import hyphenboxSvg from '../assets/hyphenbox.svg';
 import { CopilotModal } from './copilotModal';
+import { CursorFlowUI } from './uiComponents';
+import { Logger } from './logger';
+
+const log = Logger.for('ui');
 
 export class OnboardingModal {
   private static activeModal: HTMLElement | null = null;
-  private static apiClient: ApiClient | null = null;
+  private static flowProvider: FlowProvider | null = null;
   private static theme: ThemeOptions = {};
   private static onFlowSelected: (flowId: string) => void = () => {};
   private static checklists: OnboardingChecklist[] = [];
@@ -15,11 +18,11 @@ export class OnboardingModal {
    * Initialize the Onboarding Modal
    */
   static init(
-    apiClient: ApiClient, 
+    flowProvider: FlowProvider, 
     onFlowSelected: (flowId: string) => void, 
     theme: ThemeOptions = {}
   ): void {
-    this.apiClient = apiClient;
+    this.flowProvider = flowProvider;
     this.onFlowSelected = onFlowSelected;
     this.theme = theme;
     this.addLoadingStyle();
@@ -79,7 +82,7 @@ export class OnboardingModal {
    */
   static async renderInExistingModal(container: HTMLElement, onBack?: () => void): Promise<void> {
     if (!container) {
-      console.error('[OnboardingModal] Cannot render in null container');
+      log.error('[OnboardingModal] Cannot render in null container');
       return;
     }
 
@@ -109,11 +112,11 @@ export class OnboardingModal {
     container.appendChild(loadingIndicatorDiv);
 
     // Fetch and render checklists
-    if (this.apiClient) {
+    if (this.flowProvider) {
       try {
-        console.log('[OnboardingModal] Fetching onboarding checklists for inline display...');
-        this.checklists = await this.apiClient.getOnboardingChecklists();
-        console.log('[OnboardingModal] Checklists fetched for inline display:', this.checklists);
+        log.debug('[OnboardingModal] Fetching onboarding checklists for inline display...');
+        this.checklists = await this.flowProvider.getOnboardingChecklists();
+        log.debug('[OnboardingModal] Checklists fetched for inline display:', this.checklists);
 
         // Now that checklists are fetched, clear loading and render proper header + content
         container.innerHTML = ''; // Clear again to remove temp loading
@@ -151,10 +154,10 @@ export class OnboardingModal {
           container.appendChild(checklistsContainer);
         }
       } catch (error) {
-        console.error('[OnboardingModal] Failed to load onboarding checklists for inline display:', error);
+        log.error('[OnboardingModal] Failed to load onboarding checklists for inline display:', error);
         // More detailed error logging
         if (error instanceof Error) {
-          console.error('[OnboardingModal] Error details:', error.message, error.stack);
+          log.error('[OnboardingModal] Error details:', error.message, error.stack);
         }
         
         // Remove loading indicator
@@ -196,7 +199,7 @@ export class OnboardingModal {
         container.appendChild(retryButton);
       }
     } else {
-      console.error('[OnboardingModal] API client not initialized for inline display');
+      log.error('[OnboardingModal] API client not initialized for inline display');
       
       // Remove loading indicator
       container.removeChild(loadingIndicatorDiv);
@@ -227,6 +230,7 @@ export class OnboardingModal {
     // Create overlay
     const overlay = document.createElement('div');
     overlay.id = 'hyphen-onboarding-overlay';
+    CursorFlowUI.markAsSdkUi(overlay);
     overlay.style.cssText = `
       position: fixed;
       top: 0;
@@ -296,22 +300,22 @@ export class OnboardingModal {
     });
 
     // Fetch and render checklists
-    if (this.apiClient) {
+    if (this.flowProvider) {
       try {
-        console.log('[OnboardingModal] Fetching onboarding checklists...');
-        this.checklists = await this.apiClient.getOnboardingChecklists();
-        console.log('[OnboardingModal] Checklists fetched:', this.checklists);
+        log.debug('[OnboardingModal] Fetching onboarding checklists...');
+        this.checklists = await this.flowProvider.getOnboardingChecklists();
+        log.debug('[OnboardingModal] Checklists fetched:', this.checklists);
         this.renderChecklists(modalContent);
       } catch (error) {
-        console.error('[OnboardingModal] Failed to load onboarding checklists:', error);
+        log.error('[OnboardingModal] Failed to load onboarding checklists:', error);
         // More detailed error logging
         if (error instanceof Error) {
-          console.error('[OnboardingModal] Error details:', error.message, error.stack);
+          log.error('[OnboardingModal] Error details:', error.message, error.stack);
         }
         this.renderError(modalContent);
       }
     } else {
-      console.error('[OnboardingModal] API client not initialized');
+      log.error('[OnboardingModal] API client not initialized');
       this.renderError(modalContent, 'API client not initialized');
     }
   }
@@ -411,8 +415,8 @@ export class OnboardingModal {
       const modalContent = document.getElementById('hyphen-onboarding-content');
       if (modalContent) {
         this.renderLoadingState(modalContent);
-        if (this.apiClient) {
-          this.apiClient.getOnboardingChecklists()
+        if (this.flowProvider) {
+          this.flowProvider.getOnboardingChecklists()
             .then(checklists => {
               this.checklists = checklists;
               this.renderChecklists(modalContent);
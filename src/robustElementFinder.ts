@@ -1,26 +1,70 @@
 import { SelectiveDomAnalyzer } from './selectiveDomAnalyzer';
-import { ElementData, InteractionData } from './types'; // Corrected import path
+import { FrameUtils } from './frameUtils';
+import { ShadowDom } from './shadowDom';
+import { ElementData, ElementFingerprint, InteractionData, ScoredCandidate } from './types'; // Corrected import path
+import { CandidateScorer } from './candidateScorer';
+import { ElementFingerprinter } from './elementFingerprint';
+import { Accessibility } from './accessibility';
+import { LocatorDiagnosticsCollector } from './locatorDiagnostics';
+import { DomIndex } from './domIndex';
+import { Logger } from './logger';
+
+const log = Logger.for('finder');
+
+// Somewhere to run a strategy's query: the document, a modal/portal, an iframe document or a shadow root
+type SearchRoot = { name: string; root: Document | Element | ShadowRoot };
 
 export class RobustElementFinder {
 
     private static debugMode = false;
     private static readonly MAX_RETRIES = 1; // Reduced retries as sequential logic is less prone to initial timing issues
     private static readonly RETRY_DELAY_MS = 500; // Shorter delay is likely sufficient
+    private static readonly FUZZY_MIN_SIMILARITY = 0.6; // Fingerprint similarity needed to consider a fuzzy match
+    private static readonly FUZZY_MAX_ELEMENTS = 1500; // Cap on elements compared per pass (most likely ones first)
+    private static readonly FUZZY_INTERACTIVE_SELECTOR = 'a, button, input, select, textarea, summary, [role], [tabindex], [onclick], [contenteditable]';
+    private static readonly FUZZY_MAX_RESULTS = 5;
+
+    // Receives strategy runs and candidate counts while a step's target is being located (null when not collecting)
+    private static diagnostics: LocatorDiagnosticsCollector | null = null;
+
+    static setDiagnostics(collector: LocatorDiagnosticsCollector | null): void {
+        this.diagnostics = collector;
+    }
+
+    // Optional incremental index; strategies use it when it can answer and fall back to scanning otherwise
+    private static index: DomIndex | null = null;
+    // Whether the index covers every root of the current search cycle (set per cycle by findRankedCandidates)
+    private static indexCoversRoots = false;
+
+    static setIndex(index: DomIndex | null): void {
+        this.index = index;
+    }
 
     static setDebugMode(enabled: boolean): void {
         this.debugMode = enabled;
-        // Unconditional log to verify debug mode is set
-        console.log(`[RobustFinder-VERIFY] Debug mode ${enabled ? 'ENABLED' : 'DISABLED'}`);
+        // Debug-level log to verify debug mode is set
+        log.debug(`[RobustFinder-VERIFY] Debug mode ${enabled ? 'ENABLED' : 'DISABLED'}`);
+    }
+
+    /**
+     * Candidate elements, best match first (see findRankedCandidates)
+     */
+    static async findCandidates(interaction: InteractionData): Promise<HTMLElement[]> {
+        const ranked = await this.findRankedCandidates(interaction);
+        return ranked.map(candidate => candidate.element);
     }
 
     /**
      * Tries strategies sequentially. For each strategy, finds candidates, 
      * filters by text, and validates with SelectiveDomAnalyzer.
-     * Returns the first unambiguously validated element.
+     * Validated candidates from every strategy tried are pooled; the search stops at the first
+     * strategy with an unambiguous result, and the pool is ranked with CandidateScorer.
+     * @param deadline - performance.now() time after which no further strategy, retry cycle or fingerprint
+     *   fallback is started; what was pooled so far is still ranked
      */
-    static async findCandidates(interaction: InteractionData): Promise<HTMLElement[]> {
-        console.log(`[RobustFinder-VERIFY] findCandidates CALLED (Sequential Text-Gated Approach) - Debug: ${this.debugMode}`);
-        if (this.debugMode) console.log(`[RobustFinder-VERIFY] Interaction data:`, JSON.parse(JSON.stringify(interaction)));
+    static async findRankedCandidates(interaction: InteractionData, deadline?: number): Promise<ScoredCandidate[]> {
+        log.debug(`[RobustFinder-VERIFY] findCandidates CALLED (Sequential Text-Gated Approach) - Debug: ${this.debugMode}`);
+        if (this.debugMode) log.debug(`[RobustFinder-VERIFY] Interaction data:`, JSON.parse(JSON.stringify(interaction)));
 
         const elementData = interaction.element || {};
         const targetText = interaction.text || elementData.textContent;
@@ -28,10 +72,12 @@ export class RobustElementFinder {
         let attempt = 0;
         while (attempt <= this.MAX_RETRIES) {
             const runId = `Attempt ${attempt + 1}/${this.MAX_RETRIES + 1}`; 
-            console.log(`[RobustFinder][${runId}] Starting search cycle.`);
+            log.debug(`[RobustFinder][${runId}] Starting search cycle.`);
 
             await this.waitForModalStability(); // Wait for UI stability before each attempt cycle
             const allSearchRoots = this.getSearchRoots();
+            this.diagnostics?.beginAttempt(allSearchRoots.map(({ name }) => name));
+            this.indexCoversRoots = this.checkIndexCoverage(runId, allSearchRoots);
             const attributes = this.parseAttributes(elementData.attributes);
 
             // --- Define Strategies in Priority Order --- 
@@ -45,9 +91,18 @@ export class RobustElementFinder {
             if (elementData.cssSelector && elementData.cssSelector !== elementData.id && !elementData.cssSelector.includes(':contains(')) {
                 strategies.push({ name: 'Escaped CSS', execute: () => this.executeStrategy(runId, 'Escaped CSS', allSearchRoots, this.tryEscapeSelector(elementData.cssSelector!), targetText, interaction) });
             } else if (elementData.cssSelector?.includes(':contains(')) { 
-                console.warn(`[RobustFinder][${runId}] Skipping invalid CSS selector with :contains:`); 
+                log.warn(`[RobustFinder][${runId}] Skipping invalid CSS selector with :contains:`); 
+            }
+            // 3. Shadow path (recorded for elements inside web components' shadow roots)
+            if (ShadowDom.hasShadowBoundary(elementData.path)) {
+                strategies.push({ name: 'Shadow Path', execute: () => this.executeShadowPathStrategy(runId, elementData.path!, targetText, interaction) });
             }
-            // 3. Attributes (Stable)
+            // 4. Accessible role + name (what assistive tech announces, e.g. "button, Save changes")
+            const accessibleTarget = this.getAccessibleTarget(elementData, attributes, targetText);
+            if (accessibleTarget) {
+                strategies.push({ name: `Role + Name (${accessibleTarget.role})`, execute: () => this.executeRoleStrategy(runId, allSearchRoots, accessibleTarget.role, accessibleTarget.name, interaction) });
+            }
+            // 5. Attributes (Stable)
             if (attributes) {
                 this.buildAttributeSelectors(elementData.tagName, attributes)
                     .filter(attr => attr.type === 'Stable') // Only stable attrs first
@@ -55,15 +110,19 @@ export class RobustElementFinder {
                         strategies.push({ name: `Attributes-Stable (${attr.selector.split('[')[1].split('=')[0]})`, execute: () => this.executeStrategy(runId, `Attributes-Stable`, allSearchRoots, attr.selector, targetText, interaction) });
                     });
             }
-            // 4. Text Content (Exact)
+            // 6. Text Content (Exact)
             if (targetText) {
                 const tagToSearch = elementData.tagName || '*';
-                const exactTextXPath = `//*[normalize-space(.) = "${targetText.replace(/"/g, '&quot;')}"] | //*[@value = "${targetText.replace(/"/g, '&quot;')}"] | //*[normalize-space(@aria-label) = "${targetText.replace(/"/g, '&quot;')}"]`
+                const exactTextXPath = [
+                    `//*[normalize-space(.) = "${targetText.replace(/"/g, '&quot;')}"]`,
+                    `//*[@value = "${targetText.replace(/"/g, '&quot;')}"]`,
+                    `//*[normalize-space(@aria-label) = "${targetText.replace(/"/g, '&quot;')}"]`
+                ];
                 // Add Tag + Text (Exact) - often faster than XPath
                 strategies.push({ name: 'Tag + Text (Exact)', execute: () => this.executeStrategy(runId, 'Tag + Text (Exact)', allSearchRoots, tagToSearch, targetText, interaction, true) }); 
                 strategies.push({ name: 'Text-based XPath (Exact)', execute: () => this.executeXPathStrategy(runId, 'Text-based XPath (Exact)', allSearchRoots, exactTextXPath, targetText, interaction, true) });
             }
-            // 5. Attributes (Role)
+            // 7. Attributes (Role)
             if (attributes) {
                  this.buildAttributeSelectors(elementData.tagName, attributes)
                      .filter(attr => attr.type === 'Role')
@@ -71,14 +130,14 @@ export class RobustElementFinder {
                          strategies.push({ name: `Attributes-Role`, execute: () => this.executeStrategy(runId, `Attributes-Role`, allSearchRoots, attr.selector, targetText, interaction) });
                      });
              }
-            // 6. Text Content (Includes)
+            // 8. Text Content (Includes)
             if (targetText) {
                 const tagToSearch = elementData.tagName || '*';
-                const includesTextXPath = `//*[contains(normalize-space(.), "${targetText.replace(/"/g, '&quot;')}") or contains(@value, "${targetText.replace(/"/g, '&quot;')}") or contains(normalize-space(@aria-label), "${targetText.replace(/"/g, '&quot;')}")]`
+                const includesTextXPath = [`//*[contains(normalize-space(.), "${targetText.replace(/"/g, '&quot;')}") or contains(@value, "${targetText.replace(/"/g, '&quot;')}") or contains(normalize-space(@aria-label), "${targetText.replace(/"/g, '&quot;')}")]`];
                 strategies.push({ name: 'Tag + Text (Includes)', execute: () => this.executeStrategy(runId, 'Tag + Text (Includes)', allSearchRoots, tagToSearch, targetText, interaction, false) }); 
                 strategies.push({ name: 'Text-based XPath (Includes)', execute: () => this.executeXPathStrategy(runId, 'Text-based XPath (Includes)', allSearchRoots, includesTextXPath, targetText, interaction, false) });
             }
-            // 7. Attributes (Type and Other)
+            // 9. Attributes (Type and Other)
             if (attributes) {
                 this.buildAttributeSelectors(elementData.tagName, attributes)
                     .filter(attr => attr.type === 'Type' || attr.type === 'Other')
@@ -87,27 +146,62 @@ export class RobustElementFinder {
                     });
             }
             // --- Execute Strategies Sequentially --- 
-            for (const strategy of strategies) {
-                if (this.debugMode) console.log(`\n[RobustFinder][${runId}] ---> Trying Strategy: ${strategy.name}`);
+            // Each pooled element remembers the first (strongest) strategy that found it
+            const pool = new Map<HTMLElement, string>();
+            for (const [index, strategy] of strategies.entries()) {
+                if (index > 0 && this.isPastDeadline(deadline)) {
+                    log.warn(`[RobustFinder][${runId}] Step time budget used up; skipping ${strategies.length - index} remaining strateg${strategies.length - index === 1 ? 'y' : 'ies'}.`);
+                    break;
+                }
+                if (this.debugMode) log.debug(`\n[RobustFinder][${runId}] ---> Trying Strategy: ${strategy.name}`);
+                this.diagnostics?.beginStrategy(strategy.name);
                 const result = await strategy.execute();
+                this.diagnostics?.endStrategy(result.length);
+                result.forEach(element => {
+                    if (!pool.has(element)) pool.set(element, strategy.name);
+                });
                 if (result.length === 1) {
-                    console.log(`[RobustFinder][${runId}] ***** SUCCESS ***** Found unambiguous element via strategy: ${strategy.name}`);
-                    return result; // Found the single best element
+                    log.debug(`[RobustFinder][${runId}] ***** SUCCESS ***** Found unambiguous element via strategy: ${strategy.name}`);
+                    break; // Later strategies are weaker; rank what we have
                 } else if (result.length > 1) {
-                    console.warn(`[RobustFinder][${runId}] Ambiguity detected for strategy ${strategy.name}. Found ${result.length} valid candidates after deep validation. Returning empty as strategy is inconclusive.`);
-                    // Ambiguous result, potentially log this and continue (or return empty based on desired strictness)
-                    // For now, let's treat ambiguity after deep validation as needing the next strategy level.
-                    // If it becomes a problem, we might return the ambiguous list.
+                    // Keep the ambiguous matches for scoring, but look for a more specific strategy first
+                    log.warn(`[RobustFinder][${runId}] Ambiguity detected for strategy ${strategy.name}. Found ${result.length} valid candidates after deep validation. Pooling them for ranking.`);
                 }
                 // If result.length === 0, the strategy failed (no candidates, no text match, or failed deep validation), continue to next.
             }
+
+            // Nothing matched exactly: fall back to re-identifying the element from its fingerprint
+            if (pool.size === 0 && ElementFingerprinter.isUsable(elementData.fingerprint) && !this.isPastDeadline(deadline)) {
+                if (this.debugMode) log.debug(`\n[RobustFinder][${runId}] ---> Trying Strategy: Fingerprint (Fuzzy)`);
+                this.diagnostics?.beginStrategy('Fingerprint (Fuzzy)');
+                const fuzzyMatches = this.executeFingerprintStrategy(runId, allSearchRoots, interaction);
+                this.diagnostics?.endStrategy(fuzzyMatches.length);
+                fuzzyMatches.forEach(element => pool.set(element, 'Fingerprint (Fuzzy)'));
+            }
+
+            if (pool.size > 0) {
+                const ranked = CandidateScorer.rank(Array.from(pool.keys()), interaction)
+                    .map(candidate => ({ ...candidate, strategy: pool.get(candidate.element) }));
+                if (this.debugMode) {
+                    log.debug(`[RobustFinder][${runId}] Ranked ${ranked.length} candidate(s):`, ranked.map(candidate => ({
+                        element: `${candidate.element.tagName}#${candidate.element.id || 'noId'}`,
+                        confidence: Math.round(candidate.confidence * 100) / 100,
+                        strategy: candidate.strategy,
+                        signals: candidate.signals
+                    })));
+                }
+                return ranked;
+            }
             // --- Retry Logic --- 
             attempt++;
-            if (attempt <= this.MAX_RETRIES) {
-                console.log(`[RobustFinder][${runId}] FAILED CYCLE. No unambiguous element found. Retrying in ${this.RETRY_DELAY_MS}ms...`);
+            if (attempt <= this.MAX_RETRIES && this.isPastDeadline(deadline)) {
+                log.warn(`[RobustFinder][${runId}] FAILED CYCLE. Step time budget used up; not retrying.`);
+                break;
+            } else if (attempt <= this.MAX_RETRIES) {
+                log.debug(`[RobustFinder][${runId}] FAILED CYCLE. No unambiguous element found. Retrying in ${this.RETRY_DELAY_MS}ms...`);
                 await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY_MS));
             } else {
-                console.log(`[RobustFinder] All ${this.MAX_RETRIES + 1} attempts FAILED. No unambiguous element found.`);
+                log.debug(`[RobustFinder] All ${this.MAX_RETRIES + 1} attempts FAILED. No unambiguous element found.`);
             }
         } // End while loop
 
@@ -118,18 +212,18 @@ export class RobustElementFinder {
     private static async executeStrategy(
         runId: string, 
         strategyName: string, 
-        roots: { name: string; root: Document | Element }[], 
+        roots: SearchRoot[], 
         selector: string, 
         targetText: string | undefined, 
         interaction: InteractionData, 
         exactMatch: boolean = false
     ): Promise<HTMLElement[]> {
-        const candidates: HTMLElement[] = [];
-        for (const { name, root } of roots) {
+        const candidates: HTMLElement[] = this.lookupIndex(runId, strategyName, () => this.index!.lookupSelector(selector));
+        for (const { name, root } of candidates.length > 0 ? [] : roots) {
             try {
                 const foundElements = root.querySelectorAll(selector);
                 foundElements.forEach(element => {
-                    if (element instanceof HTMLElement) {
+                    if (FrameUtils.isInstance(element, 'HTMLElement')) {
                         candidates.push(element);
                     }
                 });
@@ -137,7 +231,8 @@ export class RobustElementFinder {
         }
 
         if (candidates.length === 0) {
-            if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: No initial candidates found using selector '${selector}'.`);
+            if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: No initial candidates found using selector '${selector}'.`);
+            this.diagnostics?.recordQuery(selector, 0, 0);
             return []; // Strategy failed to find any element
         }
 
@@ -146,14 +241,15 @@ export class RobustElementFinder {
         const textMatchingCandidates = !targetText ? uniqueCandidates : uniqueCandidates.filter(el => 
             this.isTextContentMatching(el, targetText, exactMatch)
         );
+        this.recordTextFilter(selector, uniqueCandidates, textMatchingCandidates, exactMatch);
 
         if (textMatchingCandidates.length === 0) {
-            if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: Found ${uniqueCandidates.length} initial candidates, but none matched text filter (Exact: ${exactMatch}, Text: "${targetText}").`);
+            if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: Found ${uniqueCandidates.length} initial candidates, but none matched text filter (Exact: ${exactMatch}, Text: "${targetText}").`);
             return []; // Strategy found elements, but none matched text
         }
 
         // Validate remaining candidates deeply
-        if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: Found ${textMatchingCandidates.length} text-matching candidate(s). Performing deep validation...`);
+        if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: Found ${textMatchingCandidates.length} text-matching candidate(s). Performing deep validation...`);
         const validCandidates: HTMLElement[] = [];
         for (const candidate of textMatchingCandidates) {
              // Use SelectiveDomAnalyzer for deep validation (visibility, occlusion etc.)
@@ -163,36 +259,203 @@ export class RobustElementFinder {
             }
         }
         
-        if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: Deep validation resulted in ${validCandidates.length} valid candidate(s).`);
+        if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: Deep validation resulted in ${validCandidates.length} valid candidate(s).`);
         return validCandidates; // Return validated candidates (could be 0, 1, or >1)
     }
 
-    /** Helper to execute an XPath strategy */
+    /** Helper to resolve a shadow-aware element path (see ShadowDom.getPath) */
+    private static async executeShadowPathStrategy(
+        runId: string,
+        path: string[],
+        targetText: string | undefined,
+        interaction: InteractionData
+    ): Promise<HTMLElement[]> {
+        const documents = [document, ...FrameUtils.getAccessibleFrames().map(({ doc }) => doc)];
+        const candidates = documents
+            .map(doc => ShadowDom.resolvePath(path, doc))
+            .filter((element): element is HTMLElement => element !== null);
+
+        if (candidates.length === 0) {
+            if (this.debugMode) log.debug(`[RobustFinder][${runId}] Shadow Path: Path did not resolve: ${path.join(' > ')}`);
+            this.diagnostics?.recordQuery(path.join(' > '), 0, 0);
+            return [];
+        }
+
+        // The path is structural, so text only needs to be contained (labels often live in slots)
+        const textMatchingCandidates = !targetText ? candidates : candidates.filter(el =>
+            this.isTextContentMatching(el, targetText, false)
+        );
+        this.recordTextFilter(path.join(' > '), candidates, textMatchingCandidates, false);
+        const validCandidates = textMatchingCandidates.filter(candidate =>
+            SelectiveDomAnalyzer.validateCandidateElement(candidate, interaction)
+        );
+
+        if (this.debugMode) log.debug(`[RobustFinder][${runId}] Shadow Path: Deep validation resulted in ${validCandidates.length} valid candidate(s).`);
+        return validCandidates;
+    }
+
+    /** Helper to match elements by accessible role and name, like Testing Library's getByRole */
+    private static async executeRoleStrategy(
+        runId: string,
+        roots: SearchRoot[],
+        role: string,
+        name: string,
+        interaction: InteractionData
+    ): Promise<HTMLElement[]> {
+        const selector = Accessibility.getRoleSelector(role);
+        const candidates = new Set<HTMLElement>(this.lookupIndex(runId, 'Role + Name', () => this.index!.lookupRole(role)));
+        for (const { root } of candidates.size > 0 ? [] : roots) {
+            try {
+                root.querySelectorAll(selector).forEach(element => {
+                    if (FrameUtils.isInstance(element, 'HTMLElement')) candidates.add(element);
+                });
+            } catch (e) { /* Ignore selector errors */ }
+        }
+
+        // Names compare case-insensitively with whitespace collapsed; the name stands in for the text gate
+        const targetName = Accessibility.normalize(name).toLowerCase();
+        const nameMatchingCandidates = Array.from(candidates).filter(element =>
+            Accessibility.getRole(element) === role &&
+            Accessibility.getAccessibleName(element).toLowerCase() === targetName
+        );
+        if (this.debugMode) log.debug(`[RobustFinder][${runId}] Role + Name: ${candidates.size} element(s) with role selector, ${nameMatchingCandidates.length} named "${name}".`);
+        this.diagnostics?.recordQuery(`role=${role} name="${name}"`, candidates.size, nameMatchingCandidates.length);
+
+        const validCandidates = nameMatchingCandidates.filter(candidate =>
+            SelectiveDomAnalyzer.validateCandidateElement(candidate, interaction)
+        );
+        if (this.debugMode) log.debug(`[RobustFinder][${runId}] Role + Name: Deep validation resulted in ${validCandidates.length} valid candidate(s).`);
+        return validCandidates;
+    }
+
+    /**
+     * Role and name to look for: recorded values first, then the fingerprint, then what the
+     * recorded tag, attributes and text imply
+     */
+    private static getAccessibleTarget(
+        elementData: ElementData,
+        attributes: { [key: string]: string } | null,
+        targetText: string | undefined
+    ): { role: string; name: string } | null {
+        const fingerprint = elementData.fingerprint || {};
+        const role = elementData.role || fingerprint.role ||
+            (attributes && attributes['role']) ||
+            (elementData.tagName ? Accessibility.getImplicitRole(elementData.tagName, attributes && attributes['type']) : null);
+        const name = elementData.accessibleName || fingerprint.accessibleName ||
+            (attributes && attributes['aria-label']) || targetText;
+        if (!role || !name || !name.trim()) return null;
+        return { role, name };
+    }
+
+    /**
+     * Helper to compare elements of the recorded kind against the recorded fingerprint.
+     * A control can change tag between releases (button -> div[role=button]), so when the recorded
+     * tag yields nothing similar, anything interactive is compared instead.
+     */
+    private static executeFingerprintStrategy(
+        runId: string,
+        roots: SearchRoot[],
+        interaction: InteractionData
+    ): HTMLElement[] {
+        const elementData = interaction.element || {};
+        const fingerprint = elementData.fingerprint!;
+        const selectors = elementData.tagName
+            ? [elementData.tagName.toLowerCase(), this.FUZZY_INTERACTIVE_SELECTOR]
+            : [this.FUZZY_INTERACTIVE_SELECTOR];
+
+        const compared = new Set<HTMLElement>();
+        let matches: { element: HTMLElement; similarity: number }[] = [];
+        for (const selector of selectors) {
+            const elements = this.collectFuzzyCandidates(roots, selector, fingerprint).filter(element => !compared.has(element));
+            elements.forEach(element => compared.add(element));
+
+            const similar = elements
+                .map(element => ({ element, similarity: ElementFingerprinter.compare(element, fingerprint) }))
+                .filter(match => match.similarity >= this.FUZZY_MIN_SIMILARITY)
+                .sort((a, b) => b.similarity - a.similarity);
+            this.diagnostics?.recordQuery(`${selector} (similarity >= ${this.FUZZY_MIN_SIMILARITY})`, compared.size, similar.length);
+            matches = similar
+                .filter(match => SelectiveDomAnalyzer.validateCandidateElement(match.element, interaction))
+                .slice(0, this.FUZZY_MAX_RESULTS);
+            if (matches.length > 0) break;
+        }
+
+        if (this.debugMode) {
+            log.debug(`[RobustFinder][${runId}] Fingerprint (Fuzzy): Compared ${compared.size} element(s), ${matches.length} above ${this.FUZZY_MIN_SIMILARITY}:`,
+                matches.map(match => `${match.element.tagName}#${match.element.id || 'noId'} (${match.similarity.toFixed(2)})`));
+        }
+        return matches.map(match => match.element);
+    }
+
+    /**
+     * Elements matching the selector, up to FUZZY_MAX_ELEMENTS. Elements with the recorded role or
+     * inside a recorded landmark come first, so the cap drops unlikely elements rather than
+     * whatever happens to come last in document order.
+     */
+    private static collectFuzzyCandidates(roots: SearchRoot[], selector: string, fingerprint: ElementFingerprint): HTMLElement[] {
+        const landmarkRoles = Array.from(new Set((fingerprint.landmarks || []).map(landmark => landmark.split(':')[0])));
+        const landmarks: Element[] = [];
+        const elements: HTMLElement[] = [];
+        for (const { root } of roots) {
+            try {
+                landmarkRoles.forEach(role => landmarks.push(...Array.from(root.querySelectorAll(Accessibility.getRoleSelector(role)))
+                    .filter(landmark => Accessibility.getRole(landmark) === role)));
+                root.querySelectorAll(selector).forEach(element => {
+                    if (FrameUtils.isInstance(element, 'HTMLElement')) elements.push(element);
+                });
+            } catch (e) { /* Ignore selector errors */ }
+        }
+        if (elements.length <= this.FUZZY_MAX_ELEMENTS) return elements;
+
+        // Stable sort: DOM order is kept within each priority
+        return elements
+            .map((element, order) => {
+                const sameRole = !!fingerprint.role && Accessibility.getRole(element) === fingerprint.role;
+                const inLandmark = landmarks.some(landmark => ShadowDom.composedContains(landmark, element));
+                return { element, order, priority: (sameRole ? 2 : 0) + (inLandmark ? 1 : 0) };
+            })
+            .sort((a, b) => b.priority - a.priority || a.order - b.order)
+            .slice(0, this.FUZZY_MAX_ELEMENTS)
+            .map(entry => entry.element);
+    }
+
+    /** Helper to execute an XPath strategy; xpathParts are the branches of a union, each starting with '//' */
     private static async executeXPathStrategy(
         runId: string, 
         strategyName: string, 
-        roots: { name: string; root: Document | Element }[], 
-        xpath: string, 
+        roots: SearchRoot[], 
+        xpathParts: string[], 
         targetText: string | undefined, 
         interaction: InteractionData, 
         exactMatch: boolean = false
     ): Promise<HTMLElement[]> {
-        const candidates: HTMLElement[] = [];
-        for (const { name, root } of roots) {
+        const xpath = xpathParts.join(' | ');
+        const candidates: HTMLElement[] = !targetText ? [] : this.lookupIndex(runId, strategyName, () =>
+            this.index!.lookupText(targetText, exactMatch, interaction.element?.tagName)
+        );
+        for (const { name, root } of candidates.length > 0 ? [] : roots) {
             try {
-                const result = document.evaluate(xpath, root, null, XPathResult.ORDERED_NODE_ITERATOR_TYPE, null);
+                // Frame documents must evaluate their own nodes
+                const ownerDoc = root.nodeType === Node.DOCUMENT_NODE ? root as Document : root.ownerDocument!;
+                // '//' means the document root; inside a shadow root each branch has to be relative to it
+                // (prefixed per part: recorded text may itself contain ' | ')
+                const rootedXPath = root.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+                    ? xpathParts.map(part => `.${part}`).join(' | ')
+                    : xpath;
+                const result = ownerDoc.evaluate(rootedXPath, root, null, XPathResult.ORDERED_NODE_ITERATOR_TYPE, null);
                 let node = result.iterateNext();
                 while (node) {
-                    if (node instanceof HTMLElement) {
+                    if (FrameUtils.isInstance(node, 'HTMLElement')) {
                         candidates.push(node);
                     }
                     node = result.iterateNext();
                 }
-            } catch (e) { console.warn(`[RobustFinder][${runId}] Error evaluating XPath "${xpath.substring(0,100)}..." in ${name}:`, e); }
+            } catch (e) { log.warn(`[RobustFinder][${runId}] Error evaluating XPath "${xpath.substring(0,100)}..." in ${name}:`, e); }
         }
 
         if (candidates.length === 0) {
-            if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: No initial candidates found.`);
+            if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: No initial candidates found.`);
+            this.diagnostics?.recordQuery(xpath, 0, 0);
             return [];
         }
 
@@ -200,13 +463,14 @@ export class RobustElementFinder {
         const textMatchingCandidates = !targetText ? uniqueCandidates : uniqueCandidates.filter(el => 
             this.isTextContentMatching(el, targetText, exactMatch)
         );
+        this.recordTextFilter(xpath, uniqueCandidates, textMatchingCandidates, exactMatch);
 
         if (textMatchingCandidates.length === 0) {
-            if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: Found ${uniqueCandidates.length} initial candidates, but none matched text filter (Exact: ${exactMatch}, Text: "${targetText}").`);
+            if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: Found ${uniqueCandidates.length} initial candidates, but none matched text filter (Exact: ${exactMatch}, Text: "${targetText}").`);
             return [];
         }
 
-        if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: Found ${textMatchingCandidates.length} text-matching candidate(s). Performing deep validation...`);
+        if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: Found ${textMatchingCandidates.length} text-matching candidate(s). Performing deep validation...`);
         const validCandidates: HTMLElement[] = [];
         for (const candidate of textMatchingCandidates) {
              if (SelectiveDomAnalyzer.validateCandidateElement(candidate, interaction)) { 
@@ -214,10 +478,55 @@ export class RobustElementFinder {
             }
         }
         
-        if (this.debugMode) console.log(`[RobustFinder][${runId}] ${strategyName}: Deep validation resulted in ${validCandidates.length} valid candidate(s).`);
+        if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: Deep validation resulted in ${validCandidates.length} valid candidate(s).`);
         return validCandidates;
     }
 
+    /**
+     * Index answer for a strategy, or an empty list to make the strategy scan its roots.
+     * Only used when the index covers every search root; a miss also scans, since the index
+     * only holds interactive elements.
+     */
+    private static lookupIndex(runId: string, strategyName: string, lookup: () => HTMLElement[] | null): HTMLElement[] {
+        if (!this.index || !this.index.isRunning() || !this.indexCoversRoots) return [];
+        try {
+            const found = lookup();
+            if (found && found.length > 0) {
+                if (this.debugMode) log.debug(`[RobustFinder][${runId}] ${strategyName}: ${found.length} candidate(s) from the DOM index.`);
+                return found;
+            }
+        } catch (e) {
+            log.warn(`[RobustFinder][${runId}] ${strategyName}: DOM index lookup failed, scanning instead:`, e);
+        }
+        return [];
+    }
+
+    // Frames and shadow roots that appeared since the index was built are indexed here; if any root can't be, scan
+    private static checkIndexCoverage(runId: string, roots: SearchRoot[]): boolean {
+        if (!this.index || !this.index.isRunning()) return false;
+        try {
+            const covered = this.index.cover(roots.map(({ root }) => root));
+            if (!covered && this.debugMode) log.debug(`[RobustFinder][${runId}] DOM index doesn't cover every search root; scanning.`);
+            return covered;
+        } catch (e) {
+            log.warn(`[RobustFinder][${runId}] DOM index coverage check failed, scanning instead:`, e);
+            return false;
+        }
+    }
+
+    private static isPastDeadline(deadline: number | undefined): boolean {
+        return deadline !== undefined && performance.now() > deadline;
+    }
+
+    /** Report a strategy's query and the candidates its text filter dropped to the active diagnostics */
+    private static recordTextFilter(query: string, candidates: HTMLElement[], textMatching: HTMLElement[], exactMatch: boolean): void {
+        if (!this.diagnostics) return;
+        this.diagnostics.recordQuery(query, candidates.length, textMatching.length);
+        candidates
+            .filter(candidate => !textMatching.includes(candidate))
+            .forEach(candidate => this.diagnostics!.recordRejection(candidate, 'text_mismatch', `Text filter (${exactMatch ? 'exact' : 'includes'})`));
+    }
+
     // --- Helper Methods --- 
     // (Keep: isTextContentMatching, buildAttributeSelectors, getSearchRoots, parseAttributes, tryEscapeSelector, buildXPath, waitForModalStability, ensureCandidatesInView, findScrollableParent) 
     /** Text content matching with exact/includes option */
@@ -240,7 +549,7 @@ export class RobustElementFinder {
         const normalizedAriaLabel = ariaLabel.trim().toLowerCase().replace(/\s+/g, '');
 
         if (this.debugMode) {
-            console.log(`[RobustFinder] Text Matching:
+            log.debug(`[RobustFinder] Text Matching:
     - Target (normalized): "${normalizedTargetText}" (Exact: ${exactMatchRequired})
     - Element Best Text (normalized): "${bestElementText}" (from innerText/textContent)
     - Element Value (normalized): "${normalizedValueText}"
@@ -279,8 +588,8 @@ export class RobustElementFinder {
         return selectors;
     }
 
-    private static getSearchRoots(): { name: string; root: Document | Element }[] {
-        const roots: { name: string; root: Document | Element }[] = [];
+    private static getSearchRoots(): SearchRoot[] {
+        const roots: SearchRoot[] = [];
         let foundSpecificContent = false;
 
         try {
@@ -289,7 +598,7 @@ export class RobustElementFinder {
             if (portals.length > 0) {
                 portals.forEach((portal, index) => { roots.push({ name: `Portal ${index + 1}`, root: portal }); });
                 foundSpecificContent = true;
-                if (this.debugMode) console.log(`[RobustFinder] Found ${portals.length} data-portal elements.`);
+                if (this.debugMode) log.debug(`[RobustFinder] Found ${portals.length} data-portal elements.`);
             }
 
             // Then continue with your existing modal content detection
@@ -335,13 +644,13 @@ export class RobustElementFinder {
                     visibleContentElements.forEach((el, i) =>
                         roots.push({ name: `Modal Content ${i+1}`, root: el }));
                     foundSpecificContent = true;
-                    if (this.debugMode) console.log(`[RobustFinder] Found ${roots.length} specific modal content root(s).`);
+                    if (this.debugMode) log.debug(`[RobustFinder] Found ${roots.length} specific modal content root(s).`);
                 }
             }
 
             // 2. FALLBACK: If no specific CONTENT found, look for OVERLAY roots
             if (!foundSpecificContent) {
-                if (this.debugMode) console.log(`[RobustFinder] No specific content roots found, searching for overlay roots...`);
+                if (this.debugMode) log.debug(`[RobustFinder] No specific content roots found, searching for overlay roots...`);
                 const potentialOverlays = Array.from(document.querySelectorAll(
                     // General containers
                     '[role="dialog"], [role="alertdialog"], .modal, .dialog, .popup, .overlay,' +
@@ -368,16 +677,38 @@ export class RobustElementFinder {
                     // For now, add all visible ones found via this method.
                     visibleOverlays.forEach((el, i) =>
                         roots.push({ name: `Overlay Root ${i+1}`, root: el }));
-                     if (this.debugMode) console.log(`[RobustFinder] Found ${roots.length} overlay root(s).`);
+                     if (this.debugMode) log.debug(`[RobustFinder] Found ${roots.length} overlay root(s).`);
                 }
             }
         } catch (e) {
-            console.warn('[RobustFinder] Error detecting modal/overlay elements:', e);
+            log.warn('[RobustFinder] Error detecting modal/overlay elements:', e);
         }
 
         // 3. FINAL FALLBACK: Always add document
         roots.push({ name: 'Document', root: document });
-        console.log('[RobustFinder] Final search roots determined:', roots.map(r => r.name));
+
+        // 4. Same-origin iframes (embedded editors, widgets, report viewers)
+        const frames: { frame: HTMLIFrameElement; doc: Document }[] = [];
+        try {
+            FrameUtils.getAccessibleFrames().forEach(({ frame, doc }, i) => {
+                frames.push({ frame, doc });
+                roots.push({ name: `Frame ${i + 1}${frame.id ? ` #${frame.id}` : ''}`, root: doc });
+            });
+        } catch (e) {
+            log.warn('[RobustFinder] Error collecting iframe roots:', e);
+        }
+
+        // 5. Open shadow roots (web components), in the page and in those frames
+        try {
+            const shadowRoots: ShadowRoot[] = [];
+            [document, ...frames.map(({ doc }) => doc)].forEach(doc => shadowRoots.push(...ShadowDom.getOpenShadowRoots(doc)));
+            shadowRoots.forEach(shadowRoot => {
+                roots.push({ name: `Shadow Root (${shadowRoot.host.tagName.toLowerCase()})`, root: shadowRoot });
+            });
+        } catch (e) {
+            log.warn('[RobustFinder] Error collecting shadow roots:', e);
+        }
+        log.debug('[RobustFinder] Final search roots determined:', roots.map(r => r.name));
         return roots;
     }
 
@@ -387,7 +718,7 @@ export class RobustElementFinder {
          try {
             return JSON.parse(attrs);
          } catch (e) {
-            console.error("[RobustFinder] Failed to parse attributes JSON:", attrs, e);
+            log.error("[RobustFinder] Failed to parse attributes JSON:", attrs, e);
             return null;
          }
     }
@@ -397,7 +728,7 @@ export class RobustElementFinder {
              selector = selector.replace(/#((?:\\.|[\w-]|[^\x00-\xa0])+)(\S*)/g, (match, idPart, remainder) => `#${idPart}${CSS.escape(remainder)}`);
              selector = selector.replace(/\[([^\]=]+)=["']?([^\]"']+)["']?\]/g, (match, attr, value) => `[${attr}="${CSS.escape(value)}"]`);
          } catch (e) {
-             console.warn(`[RobustFinder] CSS escaping failed for selector: ${selector}`, e);
+             log.warn(`[RobustFinder] CSS escaping failed for selector: ${selector}`, e);
          }
          return selector;
     }
@@ -415,11 +746,11 @@ export class RobustElementFinder {
                 // Use double quotes for the attribute value in XPath
                 return `//*[@id="${idEscaped}"]${relativePath}`;
             } catch (e) {
-                 console.warn(`[RobustFinder] Could not construct XPath with [@id="..."] for ${elementId}. Error:`, e);
+                 log.warn(`[RobustFinder] Could not construct XPath with [@id="..."] for ${elementId}. Error:`, e);
                  try {
                      return `id('${CSS.escape(elementId)}')${relativePath}`;
                  } catch (e2) {
-                      console.warn(`[RobustFinder] Could not construct XPath with id() either for ${elementId}. Error:`, e2);
+                      log.warn(`[RobustFinder] Could not construct XPath with id() either for ${elementId}. Error:`, e2);
                       return null;
                  }
             }
@@ -438,14 +769,14 @@ export class RobustElementFinder {
     private static waitForModalStability(initialDelay = 150, checkInterval = 100, maxAttempts = 20, stabilityThreshold = 3): Promise<void> {
         return new Promise(resolve => {
             const shouldLogStability = this.debugMode; 
-            if (shouldLogStability) console.log('[RobustFinder-Stability] Starting stability check...');
+            if (shouldLogStability) log.debug('[RobustFinder-Stability] Starting stability check...');
             const stabilitySelectors ='[data-portal="true"], [role="dialog"], .modal-content, .mantine-Modal-content, .MuiDialog-paper, .MuiModal-root > div[role="presentation"]:not([aria-hidden="true"])';
             const initialElements = document.querySelectorAll(stabilitySelectors);
-            if (initialElements.length === 0) { if (shouldLogStability) console.log('[RobustFinder-Stability] No initial modal/portal elements found. Resolving immediately.'); resolve(); return; }
+            if (initialElements.length === 0) { if (shouldLogStability) log.debug('[RobustFinder-Stability] No initial modal/portal elements found. Resolving immediately.'); resolve(); return; }
             let stableCount = 0, lastElementCount = initialElements.length, lastStructureSignature = '', attempts = 0;
             const getStructureSignature = (elements: NodeListOf<Element>): string => { return Array.from(elements).map(el => { const r = el.getBoundingClientRect(); return `${el.tagName}${el.id?'#'+el.id:''}:${el.classList.length}:${Math.round(r.width)}x${Math.round(r.height)}@${Math.round(r.left)},${Math.round(r.top)}`}).join('|'); };
             lastStructureSignature = getStructureSignature(initialElements);
-            const checkStability = () => { attempts++; const currentElements = document.querySelectorAll(stabilitySelectors); const currentStructureSignature = getStructureSignature(currentElements); if (shouldLogStability) { console.log(`[RobustFinder-Stability] Check #${attempts}: Found ${currentElements.length} elements. Sig: ${currentStructureSignature.substring(0,100)}...`); } if (currentElements.length === lastElementCount && currentStructureSignature === lastStructureSignature) { stableCount++; if (shouldLogStability) console.log(`[RobustFinder-Stability] Structure stable for ${stableCount} checks.`); if (stableCount >= stabilityThreshold) { if (shouldLogStability) console.log('[RobustFinder-Stability] Structure deemed stable. Resolving.'); resolve(); return; } } else { if (shouldLogStability) console.log('[RobustFinder-Stability] Structure changed. Resetting stability counter.'); stableCount = 0; lastElementCount = currentElements.length; lastStructureSignature = currentStructureSignature; } if (attempts < maxAttempts) { setTimeout(checkStability, checkInterval); } else { if (shouldLogStability) console.log('[RobustFinder-Stability] Max attempts reached. Resolving anyway.'); resolve(); } };
+            const checkStability = () => { attempts++; const currentElements = document.querySelectorAll(stabilitySelectors); const currentStructureSignature = getStructureSignature(currentElements); if (shouldLogStability) { log.debug(`[RobustFinder-Stability] Check #${attempts}: Found ${currentElements.length} elements. Sig: ${currentStructureSignature.substring(0,100)}...`); } if (currentElements.length === lastElementCount && currentStructureSignature === lastStructureSignature) { stableCount++; if (shouldLogStability) log.debug(`[RobustFinder-Stability] Structure stable for ${stableCount} checks.`); if (stableCount >= stabilityThreshold) { if (shouldLogStability) log.debug('[RobustFinder-Stability] Structure deemed stable. Resolving.'); resolve(); return; } } else { if (shouldLogStability) log.debug('[RobustFinder-Stability] Structure changed. Resetting stability counter.'); stableCount = 0; lastElementCount = currentElements.length; lastStructureSignature = currentStructureSignature; } if (attempts < maxAttempts) { setTimeout(checkStability, checkInterval); } else { if (shouldLogStability) log.debug('[RobustFinder-Stability] Max attempts reached. Resolving anyway.'); resolve(); } };
             setTimeout(checkStability, initialDelay);
         });
     }
@@ -463,8 +794,8 @@ export class RobustElementFinder {
         
         for (const element of candidates) {
             try {
-                // Check if element is in viewport
-                const rect = element.getBoundingClientRect();
+                // Check if element is in viewport (frame elements are measured in page coordinates)
+                const rect = FrameUtils.getViewportRect(element);
                 const isInViewport = (
                     rect.top >= 0 &&
                     rect.left >= 0 &&
@@ -473,13 +804,13 @@ export class RobustElementFinder {
                 );
                 
                 if (isInViewport) {
-                    console.log(`[RobustFinder] Element already in viewport:`, element.tagName, element.id);
+                    log.debug(`[RobustFinder] Element already in viewport:`, element.tagName, element.id);
                     visibleCandidates.push(element);
                     continue;
                 }
                 
                 // Element not in viewport, try to scroll it into view
-                console.log(`[RobustFinder] Element not in viewport, attempting to scroll:`, element.tagName, element.id);
+                log.debug(`[RobustFinder] Element not in viewport, attempting to scroll:`, element.tagName, element.id);
                 
                 // Check if element is in a scrollable container (like a modal)
                 const scrollableContainer = this.findScrollableParent(element);
@@ -491,7 +822,7 @@ export class RobustElementFinder {
                     
                     // If element is in a scrollable container, scroll that container
                     if (scrollableContainer && scrollableContainer !== document.body && scrollableContainer !== document.documentElement) {
-                        console.log(`[RobustFinder] Scrolling container:`, scrollableContainer.tagName, scrollableContainer.id);
+                        log.debug(`[RobustFinder] Scrolling container:`, scrollableContainer.tagName, scrollableContainer.id);
                         
                         // Calculate position to scroll to
                         const containerRect = scrollableContainer.getBoundingClientRect();
@@ -509,7 +840,7 @@ export class RobustElementFinder {
                     await new Promise(resolve => setTimeout(resolve, scrollBehavior.behavior === 'smooth' ? 500 : 100));
                     
                     // Check if element is now in viewport
-                    const newRect = element.getBoundingClientRect();
+                    const newRect = FrameUtils.getViewportRect(element);
                     const isNowInViewport = (
                         newRect.top >= 0 &&
                         newRect.left >= 0 &&
@@ -518,7 +849,7 @@ export class RobustElementFinder {
                     );
                     
                     if (isNowInViewport) {
-                        console.log(`[RobustFinder] Successfully scrolled element into viewport with behavior:`, scrollBehavior.behavior);
+                        log.debug(`[RobustFinder] Successfully scrolled element into viewport with behavior:`, scrollBehavior.behavior);
                         visibleCandidates.push(element);
                         scrollSucceeded = true;
                         break;
@@ -533,7 +864,7 @@ export class RobustElementFinder {
                     );
                     
                     if (isPartiallyVisible) {
-                        console.log(`[RobustFinder] Element partially visible after scrolling with behavior:`, scrollBehavior.behavior);
+                        log.debug(`[RobustFinder] Element partially visible after scrolling with behavior:`, scrollBehavior.behavior);
                         visibleCandidates.push(element);
                         scrollSucceeded = true;
                         break;
@@ -541,10 +872,10 @@ export class RobustElementFinder {
                 }
                 
                 if (!scrollSucceeded) {
-                    console.log(`[RobustFinder] Element still not visible after all scroll attempts:`, element.tagName, element.id);
+                    log.debug(`[RobustFinder] Element still not visible after all scroll attempts:`, element.tagName, element.id);
                 }
             } catch (e) {
-                console.warn(`[RobustFinder] Error checking/scrolling element:`, e);
+                log.warn(`[RobustFinder] Error checking/scrolling element:`, e);
             }
         }
         
@@ -556,10 +887,11 @@ export class RobustElementFinder {
         
         // Start with the parent element
         let parent = element.parentElement;
+        const view = element.ownerDocument.defaultView || window; // The element may live in an iframe
         
         // Traverse up the DOM tree
         while (parent) {
-            const style = window.getComputedStyle(parent);
+            const style = view.getComputedStyle(parent);
             const overflowY = style.getPropertyValue('overflow-y');
             const overflowX = style.getPropertyValue('overflow-x');
             
@@ -582,7 +914,7 @@ export class RobustElementFinder {
     // --- ADDED FROM ElementUtils ---
     static compareUrls(url1: string, url2: string): boolean {
       if (!url1 || !url2) {
-        console.log('URL COMPARE: One or both URLs are empty', { url1, url2 });
+        log.debug('URL COMPARE: One or both URLs are empty', { url1, url2 });
         return false;
       }
       
@@ -603,7 +935,7 @@ export class RobustElementFinder {
               hash: parsed.hash
             };
           } catch (error) {
-            console.error('Failed to parse URL:', url, error);
+            log.error('Failed to parse URL:', url, error);
             // Return a fallback structure
             return {
               hostname: url.split('/')[0],
@@ -618,7 +950,7 @@ export class RobustElementFinder {
         const parsedUrl2 = parseUrl(url2);
         
         // Debug log
-        console.log('URL COMPARE DETAILS:', {
+        log.debug('URL COMPARE DETAILS:', {
           url1: { original: url1, parsed: parsedUrl1 },
           url2: { original: url2, parsed: parsedUrl2 }
         });
@@ -631,7 +963,7 @@ export class RobustElementFinder {
         if (isLocalhost1 || isLocalhost2) {
           // When using localhost, paths must still match exactly
           const pathsMatch = parsedUrl1.pathname === parsedUrl2.pathname;
-          console.log('URL COMPARE RESULT (localhost mode):', { 
+          log.debug('URL COMPARE RESULT (localhost mode):', { 
             pathsMatch,
             path1: parsedUrl1.pathname, 
             path2: parsedUrl2.pathname 
@@ -644,7 +976,7 @@ export class RobustElementFinder {
         const pathMatch = parsedUrl1.pathname === parsedUrl2.pathname;
         const result = hostnameMatch && pathMatch;
         
-        console.log('URL COMPARE RESULT (standard mode):', { 
+        log.debug('URL COMPARE RESULT (standard mode):', { 
           result, 
           hostnameMatch, 
           pathMatch,
@@ -656,11 +988,11 @@ export class RobustElementFinder {
         
         return result;
       } catch (error) {
-        console.error('Error comparing URLs:', error);
+        log.error('Error comparing URLs:', error);
         
         // Fallback to simple string comparison if URL parsing fails
         const fallbackResult = url1.toLowerCase() === url2.toLowerCase();
-        console.log('URL COMPARE FALLBACK RESULT:', fallbackResult);
+        log.debug('URL COMPARE FALLBACK RESULT:', fallbackResult);
         return fallbackResult;
       }
     }
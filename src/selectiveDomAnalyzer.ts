@@ -3,6 +3,14 @@
  * using logic inspired by browser automation internals.
  * Designed to be used *after* a primary element finding mechanism.
  */
+import { FrameUtils } from './frameUtils';
+import { ShadowDom } from './shadowDom';
+import { LocatorDiagnosticsCollector } from './locatorDiagnostics';
+import { CandidateRejectionReason } from './types';
+import { Logger } from './logger';
+
+const log = Logger.for('analyzer');
+
 export class SelectiveDomAnalyzer {
     // Simple cache for validation checks within a single step execution
     private static VALIDATION_CACHE = {
@@ -16,7 +24,7 @@ export class SelectiveDomAnalyzer {
     static clearCache(): void {
         this.VALIDATION_CACHE.boundingRects = new WeakMap();
         this.VALIDATION_CACHE.computedStyles = new WeakMap();
-        console.log('[SelectiveDomAnalyzer] Cache cleared.');
+        log.debug('[SelectiveDomAnalyzer] Cache cleared.');
     }
 
     // --- Configuration ---
@@ -26,6 +34,13 @@ export class SelectiveDomAnalyzer {
         this.debugMode = enabled;
     }
 
+    // Receives rejection reasons while a step's target is being located (null when not collecting)
+    private static diagnostics: LocatorDiagnosticsCollector | null = null;
+
+    static setDiagnostics(collector: LocatorDiagnosticsCollector | null): void {
+        this.diagnostics = collector;
+    }
+
     // --- Core Validation Method ---
 
     /**
@@ -41,19 +56,20 @@ export class SelectiveDomAnalyzer {
         interaction?: any,
         validationMode: 'strict' | 'relaxed' = 'strict'
     ): boolean {
-        if (!element || !(element instanceof HTMLElement)) {
+        if (!element || !FrameUtils.isInstance(element, 'HTMLElement')) {
             // Keep logs minimal unless debugging
-            console.warn('[SelectiveDomAnalyzer] Validation failed: Invalid element provided.');
+            log.warn('[SelectiveDomAnalyzer] Validation failed: Invalid element provided.');
             return false;
         }
         
         // Check if the element is still connected to the DOM (ALWAYS CHECK THIS FIRST)
         if (!element.isConnected) {
             if (this.debugMode) {
-                console.log(`[SelectiveDomAnalyzer] Validation FAILED (${validationMode}) for ${element.tagName}#${element.id || 'noId'}: Element not connected to DOM.`);
+                log.debug(`[SelectiveDomAnalyzer] Validation FAILED (${validationMode}) for ${element.tagName}#${element.id || 'noId'}: Element not connected to DOM.`);
             } else {
-                console.warn(`[SelectiveDomAnalyzer] ${validationMode} validation FAILED: Element not connected to DOM.`);
+                log.warn(`[SelectiveDomAnalyzer] ${validationMode} validation FAILED: Element not connected to DOM.`);
             }
+            this.diagnostics?.recordRejection(element, 'not_connected', 'Element not connected to DOM');
             return false;
         }
         
@@ -61,7 +77,7 @@ export class SelectiveDomAnalyzer {
         // This makes relaxed validation truly lenient for off-screen elements
         if (validationMode === 'relaxed') {
             if (this.debugMode) {
-                console.log(`[SelectiveDomAnalyzer] Validation PASSED (Relaxed) for ${element.tagName}#${element.id || 'noId'}: Element is connected to DOM.`);
+                log.debug(`[SelectiveDomAnalyzer] Validation PASSED (Relaxed) for ${element.tagName}#${element.id || 'noId'}: Element is connected to DOM.`);
             }
             return true; // In relaxed mode, being connected to the DOM is sufficient
         }
@@ -70,15 +86,18 @@ export class SelectiveDomAnalyzer {
         const checkStartTime = performance.now();
         let isValid = true;
         let failureReason = '';
+        let failureCode: CandidateRejectionReason = 'not_visible';
+        let interactive: boolean | undefined;
 
         // 1. Tag Name Check (Strict)
         const originalTagName = interaction?.element?.tagName;
         if (originalTagName && element.tagName !== originalTagName) {
             if (this.debugMode) {
-                 console.log(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: Tag name mismatch (Expected: ${originalTagName}, Found: ${element.tagName})`);
+                 log.debug(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: Tag name mismatch (Expected: ${originalTagName}, Found: ${element.tagName})`);
             }
             isValid = false;
             failureReason = 'Tag name mismatch';
+            failureCode = 'tag_mismatch';
         }
 
         // 2. ID Check (Strict)
@@ -88,13 +107,14 @@ export class SelectiveDomAnalyzer {
             // Check if originalId exists and does not include '-' before failing
             if (originalId && !originalId.includes('-')) {
                  if (this.debugMode) {
-                    console.log(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: ID mismatch (Expected: ${originalId}, Found: ${element.id})`);
+                    log.debug(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: ID mismatch (Expected: ${originalId}, Found: ${element.id})`);
                  }
                 isValid = false;
                 failureReason = 'ID mismatch';
+                failureCode = 'id_mismatch';
             } else if (this.debugMode && originalId) { // Only log if originalId exists
                 // Log if skipping due to potential dynamic ID
-                console.log(`[SelectiveDomAnalyzer] Skipping strict ID check for potential dynamic ID (Original: ${originalId}, Found: ${element.id})`);
+                log.debug(`[SelectiveDomAnalyzer] Skipping strict ID check for potential dynamic ID (Original: ${originalId}, Found: ${element.id})`);
             }
         }
 
@@ -102,13 +122,17 @@ export class SelectiveDomAnalyzer {
         if (isValid && !this.isElementVisible(element)) {
             isValid = false;
             failureReason = 'Element not visible (size, display, visibility)';
+            failureCode = 'not_visible';
         }
 
         // 4. Interactivity Check (Strict) - Informational, doesn't fail validation for now
-        if (isValid && !this.isInteractiveElement(element)) {
+        if (isValid) {
+            interactive = this.isInteractiveElement(element);
+        }
+        if (isValid && !interactive) {
             // Keep this as a log for now, doesn't fail the step
             if (this.debugMode) {
-                 console.log(`[SelectiveDomAnalyzer] Element ${element.tagName}#${element.id || 'noId'} is visible but not strictly interactive.`);
+                 log.debug(`[SelectiveDomAnalyzer] Element ${element.tagName}#${element.id || 'noId'} is visible but not strictly interactive.`);
             }
         }
 
@@ -116,16 +140,18 @@ export class SelectiveDomAnalyzer {
         if (isValid && !this.isTopElement(element)) {
             isValid = false;
             failureReason = 'Element is obscured by another element';
+            failureCode = 'occluded';
         }
 
         // 6. Text Content Re-verification (Strict)
         if (isValid && interaction?.element?.textContent) {
             const targetText = interaction.element.textContent;
             if (!this.isTextMatch(element, targetText)) {
-                 console.warn(`[SelectiveDomAnalyzer] Text content mismatch for ${element.tagName}#${element.id || 'noId'}. Expected: "${targetText}", Found: "${element.textContent?.trim()}"`);
+                 log.warn(`[SelectiveDomAnalyzer] Text content mismatch for ${element.tagName}#${element.id || 'noId'}. Expected: "${targetText}", Found: "${element.textContent?.trim()}"`);
                  // MODIFIED: Treat text mismatch as a hard failure in strict mode
                  isValid = false;
                  failureReason = 'Text content mismatch';
+                 failureCode = 'text_mismatch';
             }
         }
 
@@ -144,20 +170,22 @@ export class SelectiveDomAnalyzer {
                     const candidateHref = element.getAttribute('href');
                     if (candidateHref !== parsedAttrs.href) {
                          if (this.debugMode) {
-                             console.log(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: href mismatch`);
+                             log.debug(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: href mismatch`);
                          }
                          isValid = false;
                          failureReason = 'href mismatch';
+                         failureCode = 'attribute_mismatch';
                     }
                 }
                 if (element.tagName === 'INPUT' && parsedAttrs.name) {
                      const candidateName = element.getAttribute('name');
                      if (candidateName !== parsedAttrs.name) {
                          if (this.debugMode) {
-                             console.log(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: name mismatch`);
+                             log.debug(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: name mismatch`);
                          }
                          isValid = false;
                          failureReason = 'name mismatch';
+                         failureCode = 'attribute_mismatch';
                      }
                 }
             }
@@ -167,12 +195,15 @@ export class SelectiveDomAnalyzer {
         const duration = performance.now() - checkStartTime;
         if (this.debugMode) {
             if (isValid) {
-                console.log(`[SelectiveDomAnalyzer] Validation PASSED (Strict) for ${element.tagName}#${element.id || 'noId'} (took ${duration.toFixed(2)}ms)`);
+                log.debug(`[SelectiveDomAnalyzer] Validation PASSED (Strict) for ${element.tagName}#${element.id || 'noId'} (took ${duration.toFixed(2)}ms)`);
             } else {
-                console.log(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: ${failureReason} (took ${duration.toFixed(2)}ms)`);
+                log.debug(`[SelectiveDomAnalyzer] Validation FAILED (Strict) for ${element.tagName}#${element.id || 'noId'}: ${failureReason} (took ${duration.toFixed(2)}ms)`);
             }
         } else if (!isValid) {
-            console.warn(`[SelectiveDomAnalyzer] Validation FAILED (Strict): ${failureReason}`);
+            log.warn(`[SelectiveDomAnalyzer] Validation FAILED (Strict): ${failureReason}`);
+        }
+        if (!isValid) {
+            this.diagnostics?.recordRejection(element, failureCode, failureReason, interactive);
         }
 
         return isValid;
@@ -192,7 +223,7 @@ export class SelectiveDomAnalyzer {
             }
             return rect;
         } catch (e) {
-            console.warn('[SelectiveDomAnalyzer] Error getting BoundingRect:', e);
+            log.warn('[SelectiveDomAnalyzer] Error getting BoundingRect:', e);
             return null;
         }
     }
@@ -202,13 +233,13 @@ export class SelectiveDomAnalyzer {
             return this.VALIDATION_CACHE.computedStyles.get(element) || null;
         }
          try {
-            const style = window.getComputedStyle(element);
+            const style = (element.ownerDocument.defaultView || window).getComputedStyle(element);
             if (style) {
                 this.VALIDATION_CACHE.computedStyles.set(element, style);
             }
             return style;
         } catch (e) {
-             console.warn('[SelectiveDomAnalyzer] Error getting ComputedStyle:', e);
+             log.warn('[SelectiveDomAnalyzer] Error getting ComputedStyle:', e);
             return null;
         }
     }
@@ -281,7 +312,7 @@ export class SelectiveDomAnalyzer {
 
         // Check if it's a label associated with a form control
         if (tagName === 'label' && element.hasAttribute('for')) {
-             const control = document.getElementById(element.getAttribute('for') || '');
+             const control = element.ownerDocument.getElementById(element.getAttribute('for') || '');
              if (control) return this.isInteractiveElement(control as HTMLElement); // Recurse
         }
 
@@ -307,57 +338,45 @@ export class SelectiveDomAnalyzer {
             ['button', 'link', 'checkbox', 'radio'].includes(element.getAttribute('role') || '');
 
         // Check if element is in a modal/dialog context
+        // (closestComposed so web components inside a modal still count)
         const isInModal = 
-            element.closest('[role="dialog"]') !== null ||
-            element.closest('.modal') !== null ||
-            element.closest('.mantine-Modal-content') !== null ||
-            element.closest('[data-portal="true"]') !== null;
+            ShadowDom.closestComposed(element, '[role="dialog"]') !== null ||
+            ShadowDom.closestComposed(element, '.modal') !== null ||
+            ShadowDom.closestComposed(element, '.mantine-Modal-content') !== null ||
+            ShadowDom.closestComposed(element, '[data-portal="true"]') !== null;
 
         // For interactive elements in modals, we can be more lenient
         // as they often have complex layering that might trigger false positives
         if (isCommonInteractive && isInModal) {
             if (this.debugMode) {
-                console.log(`[SelectiveDomAnalyzer] Element ${element.tagName}#${element.id} is an interactive element in a modal context - skipping strict occlusion check`);
+                log.debug(`[SelectiveDomAnalyzer] Element ${element.tagName}#${element.id} is an interactive element in a modal context - skipping strict occlusion check`);
             }
             return true;
         }
 
+        // Coordinates are relative to the element's own document, which may be an iframe
+        let doc = element.ownerDocument;
+        const view = doc.defaultView || window;
         const centerX = rect.left + rect.width / 2;
         const centerY = rect.top + rect.height / 2;
-        const checkX = Math.max(0, Math.min(centerX, window.innerWidth - 1));
-        const checkY = Math.max(0, Math.min(centerY, window.innerHeight - 1));
+        const checkX = Math.max(0, Math.min(centerX, view.innerWidth - 1));
+        const checkY = Math.max(0, Math.min(centerY, view.innerHeight - 1));
 
-        let doc = element.ownerDocument;
-        let rootNode: Node | ShadowRoot = element.getRootNode();
 
         try {
-            let topElementAtPoint: Element | null = null;
-            if (rootNode instanceof ShadowRoot) {
-                topElementAtPoint = rootNode.elementFromPoint(checkX, checkY);
-            } else {
-                topElementAtPoint = doc.elementFromPoint(checkX, checkY);
-            }
+            // Hit-test from the document and descend through open shadow roots; the document alone
+            // would report the outermost shadow host instead of the element actually under the point
+            let topElementAtPoint: Element | null = ShadowDom.deepElementFromPoint(doc, checkX, checkY);
 
             if (!topElementAtPoint) {
                 // Only log in debug mode
                 if (this.debugMode) {
-                    console.log(`[SelectiveDomAnalyzer] elementFromPoint (center: ${checkX}, ${checkY}) returned null.`);
+                    log.debug(`[SelectiveDomAnalyzer] elementFromPoint (center: ${checkX}, ${checkY}) returned null.`);
                 }
                 return false;
             }
 
-            let current: Element | null = topElementAtPoint;
-            let isRelated = false;
-            while (current) {
-                if (current === element) {
-                    isRelated = true;
-                    break;
-                }
-                current = current.parentElement;
-            }
-            if (!isRelated && element.contains(topElementAtPoint)) {
-                isRelated = true;
-            }
+            let isRelated = this.isHitRelated(element, topElementAtPoint);
 
             // If the element is not the top element at its center point,
             // try checking additional points for robustness
@@ -374,21 +393,13 @@ export class SelectiveDomAnalyzer {
                     ];
                     
                     for (const point of additionalPoints) {
-                        const checkPointX = Math.max(0, Math.min(point.x, window.innerWidth - 1));
-                        const checkPointY = Math.max(0, Math.min(point.y, window.innerHeight - 1));
+                        const checkPointX = Math.max(0, Math.min(point.x, view.innerWidth - 1));
+                        const checkPointY = Math.max(0, Math.min(point.y, view.innerHeight - 1));
                         
-                        let pointElement = doc.elementFromPoint(checkPointX, checkPointY);
+                        let pointElement = ShadowDom.deepElementFromPoint(doc, checkPointX, checkPointY);
                         if (!pointElement) continue;
                         
-                        current = pointElement;
-                        while (current) {
-                            if (current === element) {
-                                isRelated = true;
-                                break;
-                            }
-                            current = current.parentElement;
-                        }
-                        
+                        isRelated = this.isHitRelated(element, pointElement);
                         if (isRelated) break;
                     }
                 }
@@ -397,18 +408,46 @@ export class SelectiveDomAnalyzer {
             if (!isRelated) {
                 // Keep log for occlusion failure but only in debug mode
                 if (this.debugMode) {
-                    console.log(`[SelectiveDomAnalyzer] Occlusion detected at center point (${checkX}, ${checkY}). Target ${element.tagName}#${element.id} is not related to the top element ${topElementAtPoint.tagName}#${topElementAtPoint.id}`);
+                    log.debug(`[SelectiveDomAnalyzer] Occlusion detected at center point (${checkX}, ${checkY}). Target ${element.tagName}#${element.id} is not related to the top element ${topElementAtPoint.tagName}#${topElementAtPoint.id}`);
                 }
                 return false;
             }
-            return true; // Point check passed
+            return this.isHostFrameOnTop(element, checkX, checkY); // Point check passed within its own document
 
         } catch (e) {
-            console.warn('[SelectiveDomAnalyzer] Error during elementFromPoint check:', e);
+            log.warn('[SelectiveDomAnalyzer] Error during elementFromPoint check:', e);
             return false;
         }
     }
 
+    // The hit belongs to the element if it is the element or inside it (across shadow boundaries),
+    // or if it is a shadow host the element lives in (hit-testing can't see into closed roots)
+    private static isHitRelated(element: HTMLElement, hit: Element): boolean {
+        return ShadowDom.composedContains(element, hit) ||
+            ShadowDom.isRetargetedHost(hit, element);
+    }
+
+    // An element inside an iframe is only reachable if the iframe itself isn't covered in the outer page(s)
+    private static isHostFrameOnTop(element: HTMLElement, x: number, y: number): boolean {
+        let frame = FrameUtils.getHostFrame(element);
+        let pointX = x;
+        let pointY = y;
+        while (frame) {
+            const offset = FrameUtils.getContentOffset(frame);
+            pointX += offset.x;
+            pointY += offset.y;
+            const pointElement = frame.ownerDocument.elementFromPoint(pointX, pointY);
+            if (pointElement !== frame) {
+                if (this.debugMode) {
+                    log.debug(`[SelectiveDomAnalyzer] Host frame ${frame.id || frame.tagName} is covered at (${pointX}, ${pointY}) by`, pointElement);
+                }
+                return false;
+            }
+            frame = FrameUtils.getHostFrame(frame);
+        }
+        return true;
+    }
+
     // --- Text Match Helper ---
      // MODIFIED: Replaced with logic from RobustElementFinder.fuzzyTextMatch
      private static isTextMatch(element: HTMLElement, targetText: string | undefined): boolean {
@@ -429,7 +468,7 @@ export class SelectiveDomAnalyzer {
         // If aria-label matching is needed here, it can be added.
 
         if (this.debugMode) {
-            console.log(`[SelectiveDomAnalyzer] Text Matching:
+            log.debug(`[SelectiveDomAnalyzer] Text Matching:
     - Target (normalized): "${normalizedTargetText}"
     - Element Best Text (normalized): "${bestElementText}" (from innerText/textContent)
     - Element Value (normalized): "${normalizedElementValue}"`);
@@ -450,7 +489,8 @@ export class SelectiveDomAnalyzer {
 
     // --- NEW: Helper methods for viewport detection and scrolling ---
     private static isElementInViewport(element: HTMLElement): boolean {
-        const rect = element.getBoundingClientRect();
+        // Measured in page coordinates so elements in a scrolled-away iframe count as off-screen
+        const rect = FrameUtils.getViewportRect(element);
         return (
             rect.top >= 0 &&
             rect.left >= 0 &&
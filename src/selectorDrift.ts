@@ -0,0 +1,106 @@
+import { InteractionData, ScoredCandidate, SelectorDriftReport } from './types';
+import { ShadowDom } from './shadowDom';
+
+/**
+ * Detects steps whose stored selector has drifted: the target was still found, but only by a
+ * fallback strategy, and the recorded id/selector no longer match it.
+ */
+export class SelectorDrift {
+  // Strategies that use the stored selector directly; a match through them is not drift
+  private static readonly SELECTOR_STRATEGIES = ['Escaped ID', 'Escaped CSS'];
+
+  // Attributes worth suggesting as a selector, most stable first
+  private static readonly SELECTOR_ATTRIBUTES = ['data-testid', 'data-test', 'data-cy', 'name', 'aria-label'];
+
+  // The only attributes reported back; others (value, href, data-*) can carry user input or secrets
+  private static readonly REPORTED_ATTRIBUTES = [...SelectorDrift.SELECTOR_ATTRIBUTES, 'class'];
+
+  private static readonly MAX_ATTRIBUTE_LENGTH = 200;
+
+  /**
+   * Build a drift report for the chosen candidate, or null if the stored selector still holds
+   */
+  static detect(
+    candidate: ScoredCandidate,
+    interaction: InteractionData,
+    step: { flowId: string; stepId?: string; position: number }
+  ): SelectorDriftReport | null {
+    if (!candidate.strategy || this.SELECTOR_STRATEGIES.includes(candidate.strategy)) return null;
+
+    const elementData = interaction.element || {};
+    const recordedSelector = elementData.cssSelector || interaction.cssSelector;
+    // Only drift if something recorded actually stopped matching (null signals mean nothing was recorded)
+    if (candidate.signals.selector !== 0 && candidate.signals.id !== 0) return null;
+
+    const element = candidate.element;
+    return {
+      flowId: step.flowId,
+      stepId: step.stepId,
+      stepPosition: step.position,
+      matchedStrategy: candidate.strategy,
+      confidence: candidate.confidence,
+      recorded: { cssSelector: recordedSelector, id: elementData.id },
+      current: {
+        cssSelector: this.buildSelector(element),
+        id: element.id || null,
+        attributes: this.getAttributes(element),
+        path: ShadowDom.getPath(element)
+      },
+      // Query strings and fragments can hold tokens; the path is enough to find the page
+      pageUrl: `${window.location.origin}${window.location.pathname}`
+    };
+  }
+
+  /**
+   * Shortest selector we can find that is unique within the element's document or shadow root
+   */
+  static buildSelector(element: HTMLElement): string {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const isUnique = (selector: string) => {
+      try {
+        return root.querySelectorAll(selector).length === 1;
+      } catch (e) {
+        return false;
+      }
+    };
+
+    if (element.id && isUnique(`#${CSS.escape(element.id)}`)) {
+      return `#${CSS.escape(element.id)}`;
+    }
+
+    const tag = element.tagName.toLowerCase();
+    for (const attr of this.SELECTOR_ATTRIBUTES) {
+      const value = element.getAttribute(attr);
+      if (!value) continue;
+      const selector = `${tag}[${attr}="${CSS.escape(value)}"]`;
+      if (isUnique(selector)) return selector;
+    }
+
+    // Fall back to a structural selector, anchored at the nearest ancestor with a unique id
+    const segments: string[] = [];
+    let current: Element | null = element;
+    while (current && current.parentElement) {
+      if (current !== element && current.id && isUnique(`#${CSS.escape(current.id)}`)) {
+        segments.unshift(`#${CSS.escape(current.id)}`);
+        break;
+      }
+      const parent: Element = current.parentElement;
+      const currentTag = current.tagName;
+      const sameTag = Array.from(parent.children).filter(child => child.tagName === currentTag);
+      const segment = current.tagName.toLowerCase();
+      segments.unshift(sameTag.length > 1 ? `${segment}:nth-of-type(${sameTag.indexOf(current) + 1})` : segment);
+      current = parent;
+    }
+    return segments.join(' > ');
+  }
+
+  private static getAttributes(element: HTMLElement): { [key: string]: string } {
+    const attributes: { [key: string]: string } = {};
+    this.REPORTED_ATTRIBUTES.forEach(name => {
+      const value = element.getAttribute(name);
+      if (value === null) return;
+      attributes[name] = value.length > this.MAX_ATTRIBUTE_LENGTH ? value.substring(0, this.MAX_ATTRIBUTE_LENGTH) : value;
+    });
+    return attributes;
+  }
+}
@@ -0,0 +1,189 @@
+import { Logger } from './logger';
+
+const log = Logger.for('finder');
+
+/**
+ * Helpers for targets inside open shadow roots (web components).
+ * Closed shadow roots are not reachable from script and are skipped.
+ *
+ * Element paths mark each shadow boundary with PATH_BOUNDARY, e.g.
+ * ['body', 'app-shell', '::shadow-root', 'div[2]', 'ds-button', '::shadow-root', 'button']
+ * Segments are tag names, with an optional 1-based index among same-tag siblings.
+ */
+export class ShadowDom {
+  static readonly PATH_BOUNDARY = '::shadow-root';
+  private static readonly MAX_SHADOW_ROOTS = 500;
+
+  /**
+   * All open shadow roots under a root, nested roots included
+   */
+  static getOpenShadowRoots(root: Document | Element | ShadowRoot): ShadowRoot[] {
+    const found: ShadowRoot[] = [];
+    const queue: Array<Document | Element | ShadowRoot> = [root];
+
+    while (queue.length > 0 && found.length < this.MAX_SHADOW_ROOTS) {
+      const current = queue.shift()!;
+      const doc = current.nodeType === Node.DOCUMENT_NODE ? current as Document : (current as Node).ownerDocument!;
+      const walker = doc.createTreeWalker(current, NodeFilter.SHOW_ELEMENT);
+      let node = walker.nextNode() as Element | null;
+      while (node) {
+        if (node.shadowRoot) {
+          found.push(node.shadowRoot);
+          queue.push(node.shadowRoot);
+        }
+        node = walker.nextNode() as Element | null;
+      }
+    }
+
+    if (found.length >= this.MAX_SHADOW_ROOTS) {
+      log.warn(`[ShadowDom] Stopped collecting shadow roots at ${this.MAX_SHADOW_ROOTS}`);
+    }
+    return found;
+  }
+
+  /**
+   * The shadow root containing a node, or null if it is in a light (document) tree
+   */
+  static getContainingShadowRoot(node: Node): ShadowRoot | null {
+    const rootNode = node.getRootNode();
+    return rootNode.nodeType === Node.DOCUMENT_FRAGMENT_NODE && (rootNode as ShadowRoot).host ? rootNode as ShadowRoot : null;
+  }
+
+  /**
+   * Parent in the composed (flattened) tree: crosses from a shadow root to its host
+   */
+  static getComposedParent(node: Node): Element | null {
+    if (node.parentElement) return node.parentElement;
+    const shadowRoot = this.getContainingShadowRoot(node);
+    return shadowRoot && node.parentNode === shadowRoot ? shadowRoot.host : null;
+  }
+
+  /**
+   * contains() that looks through shadow boundaries
+   */
+  static composedContains(ancestor: Node, node: Node | null): boolean {
+    let current: Node | null = node;
+    while (current) {
+      if (current === ancestor) return true;
+      current = this.getComposedParent(current);
+    }
+    return false;
+  }
+
+  /**
+   * closest() that continues past shadow boundaries into the host's tree
+   */
+  static closestComposed(element: Element, selector: string): Element | null {
+    let current: Element | null = element;
+    while (current) {
+      const match = current.closest(selector);
+      if (match) return match;
+      const shadowRoot = this.getContainingShadowRoot(current);
+      current = shadowRoot ? shadowRoot.host : null;
+    }
+    return null;
+  }
+
+  /**
+   * elementFromPoint that descends into open shadow roots.
+   * Document-level hit testing returns the outermost shadow host (retargeting); this returns the real hit.
+   */
+  static deepElementFromPoint(root: Document | ShadowRoot, x: number, y: number): Element | null {
+    let hit = root.elementFromPoint(x, y);
+    while (hit && hit.shadowRoot) {
+      const inner = hit.shadowRoot.elementFromPoint(x, y);
+      if (!inner || inner === hit) break;
+      hit = inner;
+    }
+    return hit;
+  }
+
+  /**
+   * Whether a hit-test result is a shadow host the element sits inside (e.g. a closed root we can't descend into)
+   */
+  static isRetargetedHost(hit: Element, element: Element): boolean {
+    let shadowRoot = this.getContainingShadowRoot(element);
+    while (shadowRoot) {
+      if (shadowRoot.host === hit) return true;
+      shadowRoot = this.getContainingShadowRoot(shadowRoot.host);
+    }
+    return false;
+  }
+
+  /**
+   * Build a path for an element, recording every shadow host on the way
+   */
+  static getPath(element: Element): string[] {
+    const segments: string[] = [];
+    let current: Element | null = element;
+
+    while (current) {
+      const parentNode: Node | null = current.parentNode;
+      segments.unshift(this.getSegment(current, parentNode));
+
+      const shadowRoot: ShadowRoot | null = parentNode && parentNode.nodeType === Node.DOCUMENT_FRAGMENT_NODE && (parentNode as ShadowRoot).host
+        ? parentNode as ShadowRoot
+        : null;
+      if (shadowRoot) {
+        segments.unshift(this.PATH_BOUNDARY);
+        current = shadowRoot.host;
+      } else {
+        current = current.parentElement;
+        if (current && current === current.ownerDocument.documentElement) break;
+      }
+    }
+    return segments;
+  }
+
+  /**
+   * Whether a recorded path crosses a shadow boundary
+   */
+  static hasShadowBoundary(path: string[] | undefined): boolean {
+    return !!path && path.includes(this.PATH_BOUNDARY);
+  }
+
+  /**
+   * Resolve a path produced by getPath
+   * @returns The element, or null if any segment can't be followed
+   */
+  static resolvePath(path: string[], root: Document = document): HTMLElement | null {
+    let scope: ParentNode | null = root.body || root.documentElement;
+    let segments = path;
+    // Paths normally start at body (or html); both resolve to the same scope
+    while (segments.length > 0 && /^(html|body)$/i.test(segments[0])) {
+      segments = segments.slice(1);
+    }
+
+    let current: Element | null = null;
+    for (const segment of segments) {
+      if (segment === this.PATH_BOUNDARY) {
+        if (!current || !current.shadowRoot) return null;
+        scope = current.shadowRoot;
+        continue;
+      }
+      if (!scope) return null;
+      current = this.resolveSegment(scope, segment);
+      if (!current) return null;
+      scope = current;
+    }
+    return current && (current as HTMLElement).style !== undefined ? current as HTMLElement : null;
+  }
+
+  private static getSegment(element: Element, parentNode: Node | null): string {
+    const tag = element.tagName.toLowerCase();
+    if (!parentNode) return tag;
+    const sameTag = Array.from(parentNode.childNodes).filter(
+      child => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === element.tagName
+    );
+    return sameTag.length > 1 ? `${tag}[${sameTag.indexOf(element) + 1}]` : tag;
+  }
+
+  private static resolveSegment(scope: ParentNode, segment: string): Element | null {
+    const match = /^([a-z0-9-]+)(?:\[(\d+)\])?$/i.exec(segment.trim());
+    if (!match) return null;
+    const tag = match[1].toUpperCase();
+    const index = match[2] ? parseInt(match[2], 10) - 1 : 0;
+    const sameTag = Array.from(scope.children).filter(child => child.tagName.toUpperCase() === tag);
+    return sameTag[index] || null;
+  }
+}
@@ -0,0 +1,72 @@
+import { StepEventPayload, StepPerformanceMetrics, StepPhase } from './types';
+
+/**
+ * Times the phases of resolving and showing one step (find, validate, scroll, render)
+ * against the step's time budget. The budget clock starts when the instance is created,
+ * so create it after any waitFor readiness rules and record their wait separately.
+ */
+export class StepPerformance {
+  static readonly DEFAULT_BUDGET_MS = 5000;
+
+  private phases: { [phase in StepPhase]?: number } = {};
+  private startedAt = performance.now();
+
+  constructor(readonly budgetMs: number = StepPerformance.DEFAULT_BUDGET_MS) {}
+
+  /**
+   * performance.now() value after which work should stop expanding (no further strategies, retries,
+   * fallbacks or optional-target polling)
+   */
+  get deadline(): number {
+    return this.startedAt + this.budgetMs;
+  }
+
+  isOverBudget(): boolean {
+    return performance.now() > this.deadline;
+  }
+
+  /**
+   * Start timing a phase
+   * @returns Function that stops the timer; repeated phases accumulate
+   */
+  start(phase: StepPhase): () => void {
+    const phaseStartedAt = performance.now();
+    let stopped = false;
+    return () => {
+      if (stopped) return;
+      stopped = true;
+      this.record(phase, performance.now() - phaseStartedAt);
+    };
+  }
+
+  async measure<T>(phase: StepPhase, work: () => Promise<T>): Promise<T> {
+    const stop = this.start(phase);
+    try {
+      return await work();
+    } finally {
+      stop();
+    }
+  }
+
+  record(phase: StepPhase, durationMs: number): void {
+    this.phases[phase] = (this.phases[phase] || 0) + durationMs;
+  }
+
+  toMetrics(step: StepEventPayload, outcome: StepPerformanceMetrics['outcome']): StepPerformanceMetrics {
+    const phases: { [phase in StepPhase]?: number } = {};
+    let totalMs = 0;
+    (Object.keys(this.phases) as StepPhase[]).forEach(phase => {
+      const durationMs = Math.round(this.phases[phase]!);
+      phases[phase] = durationMs;
+      if (phase !== 'readiness') totalMs += durationMs;
+    });
+    return {
+      ...step,
+      phases,
+      totalMs,
+      budgetMs: this.budgetMs,
+      overBudget: totalMs > this.budgetMs,
+      outcome
+    };
+  }
+}
@@ -0,0 +1,167 @@
+import { StepWaitFor, WaitForCallback, WaitForRule } from './types';
+import { NetworkMonitor } from './networkMonitor';
+import { Logger } from './logger';
+
+const log = Logger.for('steps');
+
+export interface WaitForResult {
+  ready: boolean;               // false when maxWaitMs ran out first
+  waitedMs: number;
+  unmetRules: WaitForRule['type'][];
+}
+
+/**
+ * Holds a step back until the page is ready for it, according to the step's `waitFor` rules.
+ * Rules are re-checked when the DOM mutates or network activity settles, so the step starts
+ * as soon as everything holds. Callback rules can turn true without either, so they are also polled.
+ */
+export class StepReadiness {
+  static readonly DEFAULT_MAX_WAIT_MS = 10000;
+  static readonly DEFAULT_NETWORK_IDLE_MS = 500;
+  static readonly CALLBACK_POLL_MS = 250;
+  static readonly RULE_TYPES: WaitForRule['type'][] = ['selector-visible', 'text-present', 'network-idle', 'callback'];
+
+  /**
+   * Wait until every rule holds, or until maxWaitMs elapses.
+   * With no rules, this is a plain delay of maxWaitMs.
+   * @param waitFor - The step's waitFor settings
+   * @param callbacks - Host-registered callbacks for 'callback' rules
+   */
+  static wait(waitFor: StepWaitFor, callbacks: { [name: string]: WaitForCallback } = {}): Promise<WaitForResult> {
+    const rules = waitFor.rules || [];
+    const maxWaitMs = waitFor.maxWaitMs ?? this.DEFAULT_MAX_WAIT_MS;
+    const startedAt = Date.now();
+
+    if (rules.length === 0) {
+      return new Promise(resolve => setTimeout(() => resolve({ ready: true, waitedMs: Date.now() - startedAt, unmetRules: [] }), maxWaitMs));
+    }
+
+    return new Promise(resolve => {
+      let settled = false;
+      let evaluating = false;
+      let recheckRequested = false;
+      let frameId: number | null = null;
+      let lastUnmet: WaitForRule['type'][] = rules.map(rule => rule.type);
+      // Requests already in flight before we subscribed aren't visible; quiet time is measured from now
+      let lastNetworkActivity = startedAt;
+      const cleanups: Array<() => void> = [];
+
+      const finish = (ready: boolean) => {
+        if (settled) return;
+        settled = true;
+        cleanups.forEach(cleanup => cleanup());
+        resolve({ ready, waitedMs: Date.now() - startedAt, unmetRules: ready ? [] : lastUnmet });
+      };
+
+      const evaluate = async () => {
+        frameId = null;
+        if (settled) return;
+        if (evaluating) {
+          recheckRequested = true;
+          return;
+        }
+        evaluating = true;
+        lastUnmet = await this.getUnmetRules(rules, callbacks, lastNetworkActivity);
+        evaluating = false;
+
+        if (lastUnmet.length === 0) {
+          finish(true);
+        } else if (recheckRequested) {
+          recheckRequested = false;
+          schedule();
+        }
+      };
+
+      // Coalesce bursts of mutations into one check per frame
+      const schedule = () => {
+        if (settled || frameId !== null) return;
+        frameId = requestAnimationFrame(() => { evaluate(); });
+      };
+
+      const observer = new MutationObserver(schedule);
+      observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+      cleanups.push(() => observer.disconnect());
+      cleanups.push(() => { if (frameId !== null) cancelAnimationFrame(frameId); });
+
+      const idleRule = rules.find(rule => rule.type === 'network-idle') as Extract<WaitForRule, { type: 'network-idle' }> | undefined;
+      if (idleRule) {
+        const idleMs = idleRule.idleMs ?? this.DEFAULT_NETWORK_IDLE_MS;
+        let idleTimer: any = setTimeout(schedule, idleMs);
+        const unsubscribe = NetworkMonitor.subscribe(() => {
+          lastNetworkActivity = Date.now();
+          clearTimeout(idleTimer);
+          idleTimer = setTimeout(schedule, idleMs);
+        });
+        cleanups.push(unsubscribe);
+        cleanups.push(() => clearTimeout(idleTimer));
+      }
+
+      if (rules.some(rule => rule.type === 'callback')) {
+        const pollId = setInterval(schedule, this.CALLBACK_POLL_MS);
+        cleanups.push(() => clearInterval(pollId));
+      }
+
+      const maxTimer = setTimeout(() => finish(false), maxWaitMs);
+      cleanups.push(() => clearTimeout(maxTimer));
+
+      schedule();
+    });
+  }
+
+  private static async getUnmetRules(
+    rules: WaitForRule[],
+    callbacks: { [name: string]: WaitForCallback },
+    lastNetworkActivity: number
+  ): Promise<WaitForRule['type'][]> {
+    const unmet: WaitForRule['type'][] = [];
+    for (const rule of rules) {
+      if (!(await this.isRuleMet(rule, callbacks, lastNetworkActivity))) {
+        unmet.push(rule.type);
+      }
+    }
+    return unmet;
+  }
+
+  private static async isRuleMet(
+    rule: WaitForRule,
+    callbacks: { [name: string]: WaitForCallback },
+    lastNetworkActivity: number
+  ): Promise<boolean> {
+    try {
+      switch (rule.type) {
+        case 'selector-visible': {
+          const element = document.querySelector(rule.selector) as HTMLElement | null;
+          if (!element || element.getClientRects().length === 0) return false;
+          const style = window.getComputedStyle(element);
+          return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+        }
+
+        case 'text-present': {
+          const scope = rule.selector ? document.querySelector(rule.selector) : document.body;
+          return !!scope && (scope.textContent || '').includes(rule.text);
+        }
+
+        case 'network-idle': {
+          const idleMs = rule.idleMs ?? this.DEFAULT_NETWORK_IDLE_MS;
+          return NetworkMonitor.getPendingCount() === 0 && Date.now() - lastNetworkActivity >= idleMs;
+        }
+
+        case 'callback': {
+          const callback = callbacks[rule.name];
+          if (!callback) {
+            log.warn(`[StepReadiness] No waitFor callback registered as "${rule.name}"`);
+            return false;
+          }
+          return !!(await callback(rule.args));
+        }
+
+        default:
+          log.warn('[StepReadiness] Unknown waitFor rule:', (rule as any).type);
+          return true;
+      }
+    } catch (error) {
+      log.warn('[StepReadiness] Error checking waitFor rule, treating as not met:', rule, error);
+      return false;
+    }
+  }
+}
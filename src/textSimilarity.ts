@@ -0,0 +1,42 @@
+/**
+ * Fuzzy comparison of short UI strings (button labels, names, neighbouring text).
+ */
+export class TextSimilarity {
+  /**
+   * Case- and whitespace-insensitive form used for every comparison
+   */
+  static normalize(text: string): string {
+    return text.trim().toLowerCase().replace(/\s+/g, '');
+  }
+
+  /**
+   * Dice coefficient over character bigrams, with the recorded text appearing inside the
+   * live text counted as a strong match (e.g. "Save" vs "Save changes")
+   * @param recorded - Text captured when the step was recorded
+   * @param live - Text found on the page now
+   * @returns Similarity from 0 to 1
+   */
+  static compare(recorded: string, live: string): number {
+    const target = this.normalize(recorded);
+    const text = this.normalize(live);
+    if (target === text) return 1;
+    if (target.length > 0 && text.includes(target)) return Math.max(0.7, target.length / text.length);
+    if (target.length < 2 || text.length < 2) return 0;
+
+    const bigrams = (value: string) => {
+      const counts = new Map<string, number>();
+      for (let i = 0; i < value.length - 1; i++) {
+        const bigram = value.substring(i, i + 2);
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+      }
+      return counts;
+    };
+    const targetBigrams = bigrams(target);
+    const textBigrams = bigrams(text);
+    let overlap = 0;
+    targetBigrams.forEach((count, bigram) => {
+      overlap += Math.min(count, textBigrams.get(bigram) || 0);
+    });
+    return (2 * overlap) / (target.length - 1 + text.length - 1);
+  }
+}
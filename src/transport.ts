@@ -0,0 +1,157 @@
+import axios, { AxiosInstance } from 'axios';
+import { ApiTransport, TransportRequest, TransportResponse } from './types';
+
+/**
+ * Error raised by transports when a request fails.
+ * Carries the HTTP status (if any) so callers don't need to know which transport is in use.
+ */
+export class TransportError extends Error {
+  status?: number;
+  data?: any;
+
+  constructor(message: string, status?: number, data?: any) {
+    super(message);
+    this.name = 'TransportError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * Build a query string from request params, skipping undefined/null values
+ */
+function buildQueryString(params?: TransportRequest['params']): string {
+  if (!params) return '';
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      search.append(key, String(value));
+    }
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Default transport, backed by axios
+ */
+export class AxiosTransport implements ApiTransport {
+  private client: AxiosInstance;
+
+  constructor(client?: AxiosInstance) {
+    this.client = client || axios.create();
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    try {
+      const response = await this.client.request({
+        baseURL: request.baseUrl,
+        url: request.path,
+        method: request.method,
+        params: request.params,
+        data: request.body,
+        headers: request.headers,
+        timeout: request.timeout
+      });
+      return { status: response.status, data: response.data };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new TransportError(error.message, error.response?.status, error.response?.data);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Transport backed by the browser fetch API (no axios dependency at runtime)
+ */
+export class FetchTransport implements ApiTransport {
+  private fetchFn: typeof fetch;
+
+  constructor(fetchFn?: typeof fetch) {
+    // Bind to window so fetch isn't invoked with a foreign `this`
+    this.fetchFn = fetchFn || fetch.bind(window);
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    const url = `${request.baseUrl.replace(/\/$/, '')}${request.path}${buildQueryString(request.params)}`;
+
+    let timeoutId: any = null;
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+    if (controller && request.timeout) {
+      timeoutId = setTimeout(() => controller.abort(), request.timeout);
+    }
+
+    try {
+      const response = await this.fetchFn(url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: controller ? controller.signal : undefined
+      });
+
+      const text = await response.text();
+      let data: any = null;
+      if (text) {
+        try {
+          data = JSON.parse(text);
+        } catch (e) {
+          data = text;
+        }
+      }
+
+      if (!response.ok) {
+        throw new TransportError(`Request failed with status code ${response.status}`, response.status, data);
+      }
+
+      return { status: response.status, data };
+    } catch (error) {
+      if (error instanceof TransportError) throw error;
+      throw new TransportError(error instanceof Error ? error.message : String(error));
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+    }
+  }
+}
+
+type InMemoryHandler = (request: TransportRequest) => any | Promise<any>;
+
+/**
+ * In-memory transport for offline harnesses and tests.
+ * Routes are matched on method + path; path patterns may use `:param` segments.
+ * Handlers return the response data directly, or throw a TransportError.
+ */
+export class InMemoryTransport implements ApiTransport {
+  private routes: Array<{ method: string; pattern: RegExp; handler: InMemoryHandler }> = [];
+  private requestLog: TransportRequest[] = [];
+
+  /**
+   * Register a handler for a method/path pair
+   * @param method - HTTP method
+   * @param path - Path such as '/api/sdk/flows/:id'
+   * @param handler - Returns the response data for the request
+   */
+  on(method: TransportRequest['method'], path: string, handler: InMemoryHandler): this {
+    const pattern = new RegExp('^' + path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/:[^/]+/g, '[^/]+') + '$');
+    this.routes.push({ method, pattern, handler });
+    return this;
+  }
+
+  /**
+   * Requests received so far, oldest first
+   */
+  getRequests(): TransportRequest[] {
+    return [...this.requestLog];
+  }
+
+  async request<T = any>(request: TransportRequest): Promise<TransportResponse<T>> {
+    this.requestLog.push(request);
+    const route = this.routes.find(r => r.method === request.method && r.pattern.test(request.path));
+    if (!route) {
+      throw new TransportError(`No in-memory route for ${request.method} ${request.path}`, 404);
+    }
+    const data = await route.handler(request);
+    return { status: 200, data };
+  }
+}
@@ -7,6 +7,19 @@ export interface CursorFlowOptions {
     userId: string;
     onboardingButtonText?: string;
     apiClient?: any; // Allow passing an ApiClient instance
+    apiUrl?: string; // Backend base URL (defaults to the hosted Hyphenbox backend)
+    transport?: ApiTransport; // How ApiClient talks to the backend (defaults to axios)
+    flowProvider?: FlowProvider; // Where flows, themes, checklists and search come from (defaults to the backend)
+    userAttributes?: { [key: string]: any }; // Role, plan, etc. - used by user-attribute step conditions
+    conditionPredicates?: { [name: string]: ConditionPredicate }; // Host checks used by predicate step conditions
+    waitForCallbacks?: { [name: string]: WaitForCallback }; // Host readiness checks used by callback waitFor rules
+    minTargetConfidence?: number; // Lowest acceptable target match confidence (0-1, default CandidateScorer.DEFAULT_MIN_CONFIDENCE)
+    handoffDomains?: string[]; // Other origins a guide may continue on, e.g. 'billing.example.com' or '.example.com'
+    handoffTokens?: HandoffTokenService; // Issues and redeems the URL tokens for handoffDomains (cross-origin handoff is off without it)
+    attachLocatorDiagnostics?: boolean; // Append a locator diagnostics summary to element_not_found abandonment details
+    domIndex?: boolean; // Keep an incremental index of interactive elements while a guide plays (faster search on large pages)
+    stepTimeBudgetMs?: number; // Time budget for finding and showing a step's target (default StepPerformance.DEFAULT_BUDGET_MS)
+    logger?: LoggerOptions; // SDK logging (silent unless configured; debug: true turns on debug-level console output)
   }
   
   export interface CursorFlowState {
@@ -19,6 +32,8 @@ export interface CursorFlowOptions {
     timestamp: number;
     debug?: boolean;
     executionId?: string;
+    isPaused?: boolean; // Guide is suspended: visuals hidden, navigation ignored, state kept
+    skippedSteps?: number[]; // Positions passed over by conditions/branches (also listed in completedSteps)
   }
   
   export interface ThemeOptions {
@@ -66,8 +81,161 @@ export interface ElementData {
   id?: string | null;
   textContent?: string;
   cssSelector?: string;
-  path?: string[]; 
+  path?: string[]; // Tag segments from body down; '::shadow-root' marks a shadow boundary (see ShadowDom.getPath)
   attributes?: string | { [key: string]: string };
+  role?: string;                 // ARIA role when recorded, e.g. 'button'
+  accessibleName?: string;       // Accessible name when recorded, e.g. 'Save changes'
+  rect?: { x: number; y: number; width: number; height: number }; // Viewport position/size when recorded
+  fingerprint?: ElementFingerprint; // Context captured at record time, used to re-identify the element fuzzily
+}
+
+/**
+ * What surrounds and describes an element, beyond its own selectors.
+ * Survives class renames and rewording better than any single attribute.
+ */
+export interface ElementFingerprint {
+  role?: string | null;          // ARIA role (explicit or implied by the tag)
+  accessibleName?: string;       // What assistive tech announces for the element
+  labelText?: string;            // Text of associated <label>s
+  neighborText?: string[];       // Text of the nearest siblings, closest first
+  landmarks?: string[];          // Enclosing landmarks, innermost first, e.g. 'form:Checkout', 'navigation'
+  containerIndex?: number;       // Position among same-tag siblings in its container (0-based)
+  containerSize?: number;        // Number of same-tag siblings in its container
+  visualHash?: string;           // Hash of the element's rendered box (size bucket, colors, font, shape)
+}
+
+/**
+ * How well a live element matches the recorded target, per signal (0-1).
+ * A signal is null when the recording has nothing to compare it with.
+ */
+export interface CandidateSignals {
+  id: number | null;
+  selector: number | null;
+  attributes: number | null;
+  text: number | null;
+  path: number | null;
+  geometry: number | null;
+  role: number | null;
+  fingerprint: number | null;
+}
+
+export interface ScoredCandidate {
+  element: HTMLElement;
+  confidence: number;           // Weighted combination of the available signals (0-1)
+  signals: CandidateSignals;
+  strategy?: string;            // RobustElementFinder strategy that found it, e.g. 'Escaped CSS'
+}
+
+/**
+ * A step whose stored selector no longer matches, found by a fallback strategy instead.
+ * Reported so flow authors can update the step before it stops matching at all.
+ */
+export interface SelectorDriftReport {
+  flowId: string;
+  stepId?: string;
+  stepPosition: number;
+  matchedStrategy: string;
+  confidence: number;
+  recorded: { cssSelector?: string; id?: string | null };
+  current: {
+    cssSelector: string;
+    id: string | null;
+    attributes: { [key: string]: string };  // Only selector attributes (data-testid, name, aria-label, ...) and class
+    path: string[];
+  };
+  pageUrl: string;                          // Origin and path, without query or hash
+}
+
+/**
+ * Phases of resolving and showing a step:
+ * - 'readiness': waiting on the step's waitFor rules (reported, not counted against the time budget)
+ * - 'find': RobustElementFinder's search, including its per-candidate SelectiveDomAnalyzer checks
+ *   and building the DOM index on a guide's first search
+ * - 'validate': the final re-validation of the ranked candidates before one is chosen
+ * - 'scroll': bringing the target into view
+ * - 'render': drawing the cursor, highlight and popup or guidance card
+ */
+export type StepPhase = 'readiness' | 'find' | 'validate' | 'scroll' | 'render';
+
+export interface StepPerformanceMetrics extends StepEventPayload {
+  phases: { [phase in StepPhase]?: number }; // Milliseconds per phase
+  totalMs: number;              // Budgeted phases only (everything but readiness)
+  budgetMs: number;
+  overBudget: boolean;
+  outcome: 'shown' | 'not_found' | 'cancelled';
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Areas of the SDK that log under their own name, so each can be turned up or down separately
+ */
+export type LogNamespace = 'core' | 'finder' | 'analyzer' | 'ui' | 'api' | 'tracker' | 'state' | 'handoff' | 'steps' | 'network' | 'events';
+
+export interface LogRecord {
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: LogNamespace;
+  args: any[];                  // As passed to the log call; the first is usually the message
+  timestamp: number;
+}
+
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggerOptions {
+  level?: LogLevel;             // Lowest level written (default 'silent')
+  namespaces?: { [namespace in LogNamespace]?: LogLevel }; // Per-namespace overrides, e.g. { finder: 'debug' }
+  sink?: LogSink;               // Where records go (default: the browser console)
+}
+
+/**
+ * Why a candidate element was rejected while locating a step's target
+ */
+export type CandidateRejectionReason =
+  | 'not_connected'
+  | 'tag_mismatch'
+  | 'id_mismatch'
+  | 'not_visible'
+  | 'occluded'
+  | 'text_mismatch'
+  | 'attribute_mismatch';
+
+export interface CandidateRejection {
+  element: string;              // Short description, e.g. 'button#save.btn.primary'
+  reason: CandidateRejectionReason;
+  detail?: string;
+  interactive?: boolean;        // Whether it looked interactive (informational; not a rejection reason on its own)
+}
+
+/**
+ * One locator strategy run: what it queried, how many candidates it found and why they were dropped
+ */
+export interface LocatorStrategyDiagnostic {
+  attempt: number;
+  name: string;
+  query?: string;               // Selector, XPath or path the strategy evaluated
+  durationMs: number;
+  candidatesFound: number;      // Elements the query returned
+  textMatched: number;          // Left after the text/name filter
+  valid: number;                // Left after deep validation
+  rejections: CandidateRejection[];
+  rejectionsOmitted: number;    // Rejections beyond the per-strategy cap
+}
+
+/**
+ * Structured record of one attempt to locate a step's target
+ */
+export interface LocatorDiagnostics extends StepEventPayload {
+  startedAt: string;            // ISO timestamp
+  durationMs: number;
+  pageUrl: string;
+  target: { tagName?: string; id?: string | null; cssSelector?: string; text?: string };
+  attempts: number;
+  searchRoots: string[];
+  strategies: LocatorStrategyDiagnostic[];
+  ranked: { element: string; confidence: number; strategy?: string; signals: CandidateSignals }[];
+  minConfidence: number;
+  selected: string | null;
+  outcome: 'found' | 'not_found' | 'low_confidence';
 }
 
 export interface PageInfo {
@@ -76,6 +244,21 @@ export interface PageInfo {
   title?: string;
 }
 
+/**
+ * How a typed/selected value is compared with the step's expected value
+ */
+export type ValueMatchMode = 'exact' | 'contains' | 'regex' | 'case-insensitive' | 'range' | 'email' | 'url' | 'non-empty';
+
+export interface ValueMatchRule {
+  mode: ValueMatchMode;
+  value?: string;               // Expected value for exact/contains/case-insensitive (defaults to InteractionData.value)
+  pattern?: string;             // regex: pattern source (defaults to value)
+  flags?: string;               // regex: flags, e.g. 'i'
+  min?: number;                 // range: inclusive lower bound
+  max?: number;                 // range: inclusive upper bound
+  message?: string;             // Custom feedback shown while the value doesn't match
+}
+
 export interface InteractionData {
   element?: ElementData;
   text?: string;                // Annotation text or target text for an element
@@ -83,14 +266,257 @@ export interface InteractionData {
   pageInfo?: PageInfo;
   isHighlightStep?: boolean;    // True if the step is a non-interactive highlight
   value?: string;               // Expected value for input fields, for validation
+  valueMatch?: ValueMatchRule;  // How `value` is matched (defaults: contains for inputs, exact for selects)
   // Potentially other fields derived from step_data in the backend
   annotation?: string; // This seems to be what backend provides for text
   // cssSelector can also be at the top level of interaction from backend
   cssSelector?: string;
+  key?: string;                 // keypress: key or combo, e.g. 'Enter', 'Ctrl+S', 'Mod+K'
+  dropTargetSelector?: string;  // drag-drop: where the element has to be dropped
+  fileTypes?: string[];         // file-select: accepted extensions ('.pdf') or MIME types ('image/*')
+  dwellMs?: number;             // hover: how long the pointer has to stay on the element
+  minVisibleRatio?: number;     // scroll-to: fraction of the element that must be in view (0-1, default 0.5)
+  minConfidence?: number;       // Lowest acceptable target match confidence for this step (0-1)
   // interaction object from backend might also have id, position, etc.
   // but those are usually on the step level itself, not inside interaction property.
 }
 
+// API Transport Types
+export interface TransportRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  baseUrl: string;
+  path: string;
+  params?: { [key: string]: string | number | boolean | undefined | null };
+  body?: any;
+  headers?: { [key: string]: string };
+  timeout?: number;
+}
+
+export interface TransportResponse<T = any> {
+  status: number;
+  data: T;
+}
+
+/**
+ * Pluggable transport used by ApiClient for every backend call.
+ * Implementations should throw a TransportError for non-2xx responses.
+ */
+export interface ApiTransport {
+  request<T = any>(request: TransportRequest): Promise<TransportResponse<T>>;
+}
+
+// Flow Provider Types
+export interface FlowSummary {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export interface FlowBundle {
+  flows: Flow[];
+  theme?: ThemeOptions | null;
+  checklists?: OnboardingChecklist[];
+}
+
+/**
+ * Source of flows and the data that surrounds them (themes, checklists, search).
+ * The backend is the default; a bundled implementation enables air-gapped use.
+ */
+export interface FlowProvider {
+  isAvailable(): Promise<boolean>;
+  getFlow(id: string): Promise<Flow>;
+  listFlows(searchQuery?: string): Promise<FlowSummary[]>;
+  searchFlows(query: string): Promise<{ id: string, name: string } | null>;
+  getTheme(): Promise<ThemeOptions | null>;
+  getOnboardingChecklists(): Promise<OnboardingChecklist[]>;
+}
+
+// Flow / Step Schema
+export type StepAction =
+  | 'click' | 'input' | 'type' | 'change' | 'focus' | 'hover' | 'navigation'
+  | 'keypress' | 'submit' | 'check' | 'uncheck' | 'dblclick' | 'drag-drop' | 'file-select' | 'scroll-to';
+
+/**
+ * What to do when the user clicks somewhere other than the highlighted element.
+ * - ignore: keep waiting silently
+ * - nudge: pulse the highlight and show a hint
+ * - stop: end the guide
+ */
+export type OffTargetClickPolicy = 'ignore' | 'nudge' | 'stop';
+
+export interface OffTargetClickSettings {
+  policy?: OffTargetClickPolicy;        // Defaults to 'nudge'
+  escalateAfter?: number;               // Off-target clicks tolerated before escalating (unset = never escalate)
+  escalateTo?: OffTargetClickPolicy;    // Policy once escalated (defaults to the next stricter one)
+  hint?: string;                        // Hint text shown when nudging
+}
+
+// Step Condition Types
+export type StepCondition =
+  | { type: 'element-present'; selector: string }
+  | { type: 'element-absent'; selector: string }
+  | { type: 'url-matches'; pattern: string }       // Regex tested against the full URL
+  | { type: 'user-attribute'; attribute: string; equals?: any; in?: any[]; exists?: boolean }
+  | { type: 'predicate'; name: string; args?: any } // Calls a host-provided predicate by name
+  | { type: 'all'; conditions: StepCondition[] }
+  | { type: 'any'; conditions: StepCondition[] }
+  | { type: 'not'; condition: StepCondition };
+
+/**
+ * Jump ahead when a condition holds, e.g. "if the modal is already open, skip to step 5".
+ * Evaluated when the step carrying it comes up next; steps jumped over are skipped.
+ */
+export interface StepBranch {
+  when: StepCondition;
+  goTo: number;                 // Position of the step to continue with (must come later in the flow)
+}
+
+export interface ConditionContext {
+  flowId: string | null;
+  step: Step;
+  userAttributes: { [key: string]: any };
+  predicates: { [name: string]: ConditionPredicate };
+}
+
+export type ConditionPredicate = (args: any, context: ConditionContext) => boolean;
+
+// Auto-advance Types
+export type AutoAdvanceTrigger =
+  | { type: 'delay'; seconds: number }
+  | { type: 'element-appears'; selector: string }      // Fires as soon as the selector matches
+  | { type: 'element-disappears'; selector: string }   // Fires as soon as the selector stops matching
+  | { type: 'url-changes'; pattern?: string }           // Any URL change, or one matching this regex
+  | { type: 'network-request'; urlPattern: string; method?: string; successOnly?: boolean }; // Fires when a matching request completes
+
+// Wait-for Types
+export type WaitForRule =
+  | { type: 'selector-visible'; selector: string }
+  | { type: 'text-present'; text: string; selector?: string }  // Text anywhere in the page, or inside selector
+  | { type: 'network-idle'; idleMs?: number }                   // No requests in flight for idleMs (default 500)
+  | { type: 'callback'; name: string; args?: any };              // Host-registered readiness check
+
+/**
+ * Hold a step until the page is ready. All rules must hold; after maxWaitMs
+ * (default 10000) the step plays anyway. With no rules it's a fixed delay.
+ */
+export interface StepWaitFor {
+  rules?: WaitForRule[];
+  maxWaitMs?: number;
+}
+
+export type WaitForCallback = (args?: any) => boolean | Promise<boolean>;
+
+export type StepSkipReason = 'condition' | 'branch' | 'optional';
+
+export interface Step {
+  id?: string;
+  position: number;             // Ordering key (1000, 2000, 3000...)
+  annotation?: string;          // Instruction text shown to the user
+  is_highlight_step?: boolean;  // Non-interactive step completed via the guidance card
+  url?: string;
+  interaction: InteractionData;
+  offTargetClicks?: OffTargetClickSettings; // Overrides the flow-level setting for this step
+  condition?: StepCondition;    // Step is only shown when this holds; skipped otherwise
+  branches?: StepBranch[];      // First matching branch wins
+  optional?: boolean;           // Skip silently if the target can't be found
+  optionalTimeoutMs?: number;   // How long to look for an optional step's target (default 3000)
+  autoAdvance?: AutoAdvanceTrigger | AutoAdvanceTrigger[]; // Step completes by itself when any trigger is met
+  waitFor?: StepWaitFor;        // Readiness rules checked before looking for the target
+  timeBudgetMs?: number;        // Overrides the instance's stepTimeBudgetMs for this step
+}
+
+export interface Flow {
+  id: string;
+  name?: string;
+  description?: string;
+  steps: Step[];
+  offTargetClicks?: OffTargetClickSettings; // Default for every step in the flow
+}
+
+// Event Types
+export type AbandonReason = 'user_initiated' | 'element_not_found' | 'sdk_error' | 'navigation';
+
+// How a guide moved between tabs/origins: BroadcastChannel to a new tab, or a URL token to another origin
+export type HandoffChannel = 'tab' | 'origin';
+
+/**
+ * What one tab/origin hands to the next so it can continue the guide
+ */
+export interface HandoffPayload {
+  state: CursorFlowState;
+  executionId: string | null;
+  issuedAt: number;
+  nonce: string;
+}
+
+/**
+ * Host-side issuer for cross-origin handoff tokens. Back it with your server: a token must be
+ * impossible to mint from anything readable in the page (api key, user id), or a crafted link
+ * could inject guide state into another user's session.
+ */
+export interface HandoffTokenService {
+  // Opaque token to put in the link to the other origin, or null to not hand off
+  issue(payload: HandoffPayload): Promise<string | null>;
+  // The payload the token was issued for, or null if it is invalid, expired or not for this user
+  redeem(token: string): Promise<HandoffPayload | null>;
+}
+
+export interface StepEventPayload {
+  flowId: string;
+  stepId?: string;
+  position: number;
+  index: number;
+}
+
+/**
+ * Events emitted by CursorFlow, keyed by event name
+ */
+export interface CursorFlowEvents {
+  flowStarted: { flowId: string; flowName?: string };
+  stepShown: StepEventPayload & { isHighlightStep: boolean; isLastStep: boolean };
+  stepCompleted: StepEventPayload;
+  stepFailed: StepEventPayload & { reason: string };
+  flowCompleted: { flowId: string };
+  flowAbandoned: { flowId: string; reason: AbandonReason; details: string };
+  navigationDetected: { flowId: string | null; url: string };
+  flowPaused: StepEventPayload;
+  flowResumed: StepEventPayload;
+  stepRewound: StepEventPayload & { fromPosition: number };
+  offTargetClick: StepEventPayload & { count: number; policy: OffTargetClickPolicy };
+  stepSkipped: StepEventPayload & { reason: StepSkipReason };
+  stepAutoAdvanced: StepEventPayload & { trigger: AutoAdvanceTrigger['type'] };
+  flowHandedOff: StepEventPayload & { to: HandoffChannel };
+  flowHandoffReceived: StepEventPayload & { from: HandoffChannel };
+  locatorDiagnostics: LocatorDiagnostics;
+  stepPerformance: StepPerformanceMetrics;
+  stepBudgetExceeded: StepPerformanceMetrics;
+}
+
+export type CursorFlowEventName = keyof CursorFlowEvents;
+export type CursorFlowEventHandler<K extends CursorFlowEventName> = (payload: CursorFlowEvents[K]) => void;
+
+// Programmatic Control Types
+export interface StartFlowOptions {
+  fromStep?: number | string; // Step position (number) or step id (string) to start from
+}
+
+/**
+ * Supported API for driving guides from host code (custom UI, shortcuts, deep links)
+ */
+export interface CursorFlowController {
+  startFlow(flowId: string, options?: StartFlowOptions): Promise<void>;
+  pause(): boolean;
+  resume(): Promise<boolean>;
+  next(): Promise<boolean>;
+  previous(): Promise<boolean>;
+  restartStep(): Promise<boolean>;
+  stop(): void;
+  getState(): CursorFlowState;
+  setUserAttributes(attributes: { [key: string]: any }): void;
+  getLocatorDiagnostics(): LocatorDiagnostics | null;
+  downloadLocatorDiagnostics(): boolean;
+}
+
 // Onboarding Checklist Types
 export interface OnboardingFlow {
   flow_id: string;
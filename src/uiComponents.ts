@@ -5,8 +5,12 @@ Things related to highlgiht, curosr position, tootlip, hihglightBox and notifica
 import crazeArrow from '../assets/arrowhead.svg';
 import hyphenboxSvg from '../assets/hyphenbox.svg';
 import { ThemeOptions, NotificationOptions, ErrorNotificationOptions, RedirectNotificationOptions } from './types';
+import { FrameUtils } from './frameUtils';
+import { Logger } from './logger';
 
-console.log('[SVG-DEBUG] Loaded hyphenbox SVG:', hyphenboxSvg.substring(0, 100) + '...');
+const log = Logger.for('ui');
+
+log.debug('[SVG-DEBUG] Loaded hyphenbox SVG:', hyphenboxSvg.substring(0, 100) + '...');
 
 interface EnhancedHTMLElement extends HTMLElement {
   [key: string]: any; // Allow any string property
@@ -22,14 +26,23 @@ interface EnhancedGuidanceCard extends HTMLElement {
 }
 
 export class CursorFlowUI {
+  // Marks the SDK's own UI so page-level listeners (e.g. off-target click detection) can skip it
+  static readonly UI_ATTRIBUTE = 'data-hyphen-ui';
+
   // Add these class variables to track scroll handlers
   private static cursorScrollHandler: EventListener | null = null;
   private static highlightScrollHandler: EventListener | null = null;
 
+  static markAsSdkUi<T extends HTMLElement>(element: T): T {
+    element.setAttribute(this.UI_ATTRIBUTE, '');
+    return element;
+  }
+
   static createStartButton(text: string, color: string, onClick: () => void, theme: ThemeOptions = {}): HTMLElement {
-    console.log('[BUTTON-DEBUG] Creating start button with text:', text);
+    log.debug('[BUTTON-DEBUG] Creating start button with text:', text);
     const button = document.createElement('button');
     button.className = 'hyphen-start-button';
+    this.markAsSdkUi(button);
     
     const iconContainer = document.createElement('div');
     iconContainer.className = 'hyphen-icon';
@@ -41,7 +54,7 @@ export class CursorFlowUI {
 
     // Use customer logo if available, otherwise no icon
     if (theme.logo_url) {
-        console.log('[BUTTON-DEBUG] Using customer logo URL for button icon:', theme.logo_url);
+        log.debug('[BUTTON-DEBUG] Using customer logo URL for button icon:', theme.logo_url);
         const logoImg = document.createElement('img');
         logoImg.src = theme.logo_url;
         logoImg.alt = theme.cursor_company_label || 'Logo'; // Use company label or default alt
@@ -51,12 +64,12 @@ export class CursorFlowUI {
             object-fit: contain;
         `;
         logoImg.addEventListener('error', () => {
-             console.warn('[BUTTON-DEBUG] Failed to load customer logo for button icon:', theme.logo_url);
+             log.warn('[BUTTON-DEBUG] Failed to load customer logo for button icon:', theme.logo_url);
              iconContainer.innerHTML = ''; // Clear icon on error
         });
         iconContainer.appendChild(logoImg);
     } else {
-        console.log('[BUTTON-DEBUG] No customer logo URL provided. Button will have no icon.');
+        log.debug('[BUTTON-DEBUG] No customer logo URL provided. Button will have no icon.');
         // iconContainer remains empty
     }
     
@@ -74,7 +87,7 @@ export class CursorFlowUI {
     if (finalIconContainer && finalIconContainer.hasChildNodes()) {
         // Potentially add styles to the container if needed
     } else {
-        console.warn('[BUTTON-DEBUG] Icon container is empty or not found after setting innerHTML');
+        log.warn('[BUTTON-DEBUG] Icon container is empty or not found after setting innerHTML');
     }
     
     // Modern styling with adjusted padding for icon
@@ -206,7 +219,7 @@ export class CursorFlowUI {
         };
         localStorage.setItem('hyphen-button-position', JSON.stringify(position));
       } catch (e) {
-        console.warn('Failed to save button position', e);
+        log.warn('Failed to save button position', e);
       }
       
       // Remove global event listeners
@@ -274,6 +287,7 @@ export class CursorFlowUI {
   static createCursor(theme: ThemeOptions, isThinking: boolean = false): HTMLElement {
     const cursorWrapper = document.createElement('div');
     cursorWrapper.className = 'hyphen-cursor-container';
+    this.markAsSdkUi(cursorWrapper);
     if (isThinking) {
         cursorWrapper.classList.add('hyphen-thinking');
     }
@@ -354,6 +368,7 @@ export class CursorFlowUI {
   static createHighlight(theme: ThemeOptions): HTMLElement {
     const highlight = document.createElement('div');
     highlight.className = 'hyphen-highlight';
+    this.markAsSdkUi(highlight);
     highlight.id = 'hyphenbox-highlight';
     
     // Set styles for the highlight
@@ -397,21 +412,22 @@ export class CursorFlowUI {
             highlight.style.border = `2px solid ${borderColor}`;
             highlight.style.backgroundColor = backgroundColor;
         } catch (e) {
-            console.warn('[Highlight] Could not parse brand_color. Highlight will have no background/border.', e);
+            log.warn('[Highlight] Could not parse brand_color. Highlight will have no background/border.', e);
             // Keep border/background as none/transparent if parsing fails
         }
     } else {
-        console.warn('[Highlight] No brand_color provided. Highlight will have no background/border.');
+        log.warn('[Highlight] No brand_color provided. Highlight will have no background/border.');
     }
     
     return highlight;
   }
 
-  static createTextPopup(text: string, theme: ThemeOptions): HTMLElement {
-    console.log('[CursorFlowUI] createTextPopup called with params:', { text: text.substring(0, 30) + '...', themeKeys: Object.keys(theme || {}) });
+  static createTextPopup(text: string, theme: ThemeOptions, showPrevious: boolean = false): HTMLElement {
+    log.debug('[CursorFlowUI] createTextPopup called with params:', { text: text.substring(0, 30) + '...', themeKeys: Object.keys(theme || {}) });
     
     const popup = document.createElement('div');
     popup.className = 'hyphen-text-popup';
+    this.markAsSdkUi(popup);
     popup.id = 'hyphenbox-text-popup';  // Updated ID
 
     // Create the text content
@@ -436,18 +452,27 @@ export class CursorFlowUI {
     // Add the text content to the popup
     popup.appendChild(textContainer);
     
-    console.log('[CursorFlowUI] Basic text-only popup created with ID:', popup.id);
+    if (showPrevious) {
+      const popupActions = document.createElement('div');
+      popupActions.className = 'hyphen-popup-actions';
+      popupActions.style.marginTop = '6px';
+      popupActions.appendChild(this.createPreviousButton(theme, true));
+      popup.appendChild(popupActions);
+    }
+    
+    log.debug('[CursorFlowUI] Basic text-only popup created with ID:', popup.id);
     // Button creation logic removed
     
-    console.log('[CursorFlowUI] Final text-only popup structure:', popup.outerHTML.substring(0, 200) + '...');
+    log.debug('[CursorFlowUI] Final text-only popup structure:', popup.outerHTML.substring(0, 200) + '...');
     return popup;
   }
 
-  static createGuidanceCard(text: string, isLastStep: boolean, theme: ThemeOptions): HTMLElement {
-    console.log('[CursorFlowUI] createGuidanceCard called with params:', { text: text.substring(0, 30) + '...', isLastStep, themeKeys: Object.keys(theme || {}) });
+  static createGuidanceCard(text: string, isLastStep: boolean, theme: ThemeOptions, showPrevious: boolean = false): HTMLElement {
+    log.debug('[CursorFlowUI] createGuidanceCard called with params:', { text: text.substring(0, 30) + '...', isLastStep, showPrevious, themeKeys: Object.keys(theme || {}) });
 
     const card = document.createElement('div');
     card.className = 'hyphen-guidance-card';
+    this.markAsSdkUi(card);
     card.id = 'hyphen-guidance-card'; // Unique ID for the card
 
     card.style.position = 'fixed'; // Default to fixed, will be overridden if placed near highlight
@@ -474,7 +499,8 @@ export class CursorFlowUI {
     const actionContainer = document.createElement('div');
     actionContainer.className = 'hyphen-guidance-actions';
     actionContainer.style.display = 'flex';
-    actionContainer.style.justifyContent = 'flex-end'; // Align button to the right
+    actionContainer.style.justifyContent = showPrevious ? 'space-between' : 'flex-end'; // Align button to the right
+    actionContainer.style.alignItems = 'center';
 
     const stepButton = document.createElement('button');
     stepButton.textContent = isLastStep ? 'Finish' : 'Next';
@@ -521,6 +547,9 @@ export class CursorFlowUI {
         // stepButton.style.setProperty('background-color', theme.brand_color || '#007bff', 'important');
     });
 
+    if (showPrevious) {
+      actionContainer.appendChild(this.createPreviousButton(theme, false));
+    }
     actionContainer.appendChild(stepButton);
 
     card.appendChild(textContainer);
@@ -535,10 +564,221 @@ export class CursorFlowUI {
     //     easing: 'ease-out'
     // });
 
-    console.log('[CursorFlowUI] Guidance card created (pre-positioning):', card.outerHTML.substring(0, 250) + '...');
+    log.debug('[CursorFlowUI] Guidance card created (pre-positioning):', card.outerHTML.substring(0, 250) + '...');
     return card;
   }
 
+  /**
+   * Show (or clear, with null) the auto-advance indicator inside the guidance card or text popup.
+   * A numeric fraction renders a filling bar (countdown); null renders an indeterminate pulse.
+   */
+  static setAutoAdvanceProgress(container: HTMLElement | null, progress: { fraction: number | null, label: string } | null, theme: ThemeOptions = {}): void {
+    if (!container) return;
+    let indicator = container.querySelector('.hyphen-auto-advance') as HTMLElement | null;
+
+    if (!progress) {
+        if (indicator && indicator.parentNode) {
+            indicator.parentNode.removeChild(indicator);
+        }
+        return;
+    }
+
+    if (!indicator) {
+        indicator = document.createElement('div');
+        indicator.className = 'hyphen-auto-advance';
+        indicator.style.cssText = `
+            margin-top: 6px;
+            font-size: 12px;
+            line-height: 1.4;
+            color: #666666;
+        `;
+
+        const label = document.createElement('div');
+        label.className = 'hyphen-auto-advance-label';
+
+        const track = document.createElement('div');
+        track.style.cssText = `
+            margin-top: 4px;
+            height: 3px;
+            border-radius: 2px;
+            background-color: #e5e5e5;
+            overflow: hidden;
+        `;
+        const bar = document.createElement('div');
+        bar.className = 'hyphen-auto-advance-bar';
+        bar.style.cssText = `
+            height: 100%;
+            width: 0%;
+            background-color: ${theme.brand_color || '#007bff'};
+            transition: width 0.1s linear;
+        `;
+        track.appendChild(bar);
+
+        indicator.appendChild(label);
+        indicator.appendChild(track);
+
+        const actions = container.querySelector('.hyphen-guidance-actions, .hyphen-popup-actions');
+        if (actions) {
+            container.insertBefore(indicator, actions);
+        } else {
+            container.appendChild(indicator);
+        }
+    }
+
+    const labelElement = indicator.querySelector('.hyphen-auto-advance-label') as HTMLElement;
+    const barElement = indicator.querySelector('.hyphen-auto-advance-bar') as HTMLElement;
+    labelElement.textContent = progress.label;
+
+    if (progress.fraction === null) {
+        // Indeterminate: full-width bar that pulses while we wait for an event
+        barElement.style.width = '100%';
+        if (!barElement.getAnimations || barElement.getAnimations().length === 0) {
+            barElement.animate?.([{ opacity: 0.3 }, { opacity: 1 }, { opacity: 0.3 }], { duration: 1500, iterations: Infinity });
+        }
+    } else {
+        barElement.style.width = `${Math.round(Math.min(1, Math.max(0, progress.fraction)) * 100)}%`;
+    }
+  }
+
+  /**
+   * Show (or clear, with null) an inline validation message inside the guidance card or text popup
+   * @param container - Guidance card or text popup element
+   * @param message - Feedback text, or null to remove it
+   */
+  static setValueFeedback(container: HTMLElement | null, message: string | null): void {
+    if (!container) return;
+    let feedback = container.querySelector('.hyphen-value-feedback') as HTMLElement | null;
+
+    if (!message) {
+        if (feedback && feedback.parentNode) {
+            feedback.parentNode.removeChild(feedback);
+        }
+        return;
+    }
+
+    if (!feedback) {
+        feedback = document.createElement('div');
+        feedback.className = 'hyphen-value-feedback';
+        feedback.setAttribute('role', 'status');
+        feedback.style.cssText = `
+            margin-top: 6px;
+            font-size: 12px;
+            line-height: 1.4;
+            color: #b45309;
+        `;
+        // Keep it under the instruction text, above any action buttons
+        const actions = container.querySelector('.hyphen-guidance-actions, .hyphen-popup-actions');
+        if (actions) {
+            container.insertBefore(feedback, actions);
+        } else {
+            container.appendChild(feedback);
+        }
+    }
+    feedback.textContent = message;
+  }
+
+  /**
+   * Briefly pulse the highlight to draw attention back to the target element
+   */
+  static pulseHighlight(highlight: HTMLElement | null): void {
+    if (!highlight || typeof highlight.animate !== 'function') return;
+    // Animate opacity only - transform/position are owned by positionHighlightOnElement
+    highlight.animate([
+        { opacity: 1 },
+        { opacity: 0.2 },
+        { opacity: 1 }
+    ], {
+        duration: 500,
+        iterations: 3,
+        easing: 'ease-in-out'
+    });
+  }
+
+  /**
+   * Show a short-lived hint next to the highlighted element
+   * @param targetElement - Element the hint points at
+   * @param text - Hint text
+   */
+  static showOffTargetHint(targetElement: HTMLElement, text: string, theme: ThemeOptions): HTMLElement {
+    const existingHint = document.getElementById('hyphenbox-off-target-hint');
+    if (existingHint && existingHint.parentNode) {
+        existingHint.parentNode.removeChild(existingHint);
+    }
+
+    const hint = document.createElement('div');
+    hint.className = 'hyphen-off-target-hint';
+    this.markAsSdkUi(hint);
+    hint.id = 'hyphenbox-off-target-hint';
+    hint.textContent = text;
+
+    const rect = FrameUtils.getViewportRect(targetElement);
+    const placeAbove = rect.bottom + 48 > window.innerHeight;
+    hint.style.cssText = `
+        position: fixed;
+        left: ${Math.max(8, Math.min(rect.left, window.innerWidth - 260))}px;
+        top: ${placeAbove ? Math.max(8, rect.top - 40) : rect.bottom + 8}px;
+        max-width: 250px;
+        z-index: 10001;
+        background-color: ${theme.brand_color || '#007bff'};
+        color: #ffffff;
+        padding: 6px 10px;
+        border-radius: 6px;
+        font-size: 13px;
+        line-height: 1.4;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.15);
+        pointer-events: none;
+        opacity: 0;
+        transition: opacity 0.2s ease;
+    `;
+
+    document.body.appendChild(hint);
+    requestAnimationFrame(() => { hint.style.opacity = '1'; });
+
+    setTimeout(() => {
+        hint.style.opacity = '0';
+        setTimeout(() => {
+            if (hint.parentNode) hint.parentNode.removeChild(hint);
+        }, 200);
+    }, 2500);
+
+    return hint;
+  }
+
+  /**
+   * Secondary "Previous" control shared by the guidance card and the text popup
+   * @param compact - Smaller, link-style variant for the text popup
+   */
+  private static createPreviousButton(theme: ThemeOptions, compact: boolean): HTMLElement {
+    const previousButton = document.createElement('button');
+    previousButton.textContent = compact ? '\u2190 Previous' : 'Previous';
+    previousButton.className = 'hyphen-previous-button';
+    previousButton.type = 'button';
+
+    const styles = {
+        'display': 'inline-block',
+        'padding': compact ? '2px 0' : '10px 16px',
+        'border': compact ? 'none' : '1px solid #d0d0d0',
+        'border-radius': '8px',
+        'cursor': 'pointer',
+        'background-color': 'transparent',
+        'color': compact ? (theme.brand_color || '#007bff') : '#555555',
+        'font-size': compact ? '12px' : '14px',
+        'font-weight': '500',
+        'font-family': '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        'margin': '0',
+        'line-height': '1.5',
+        // The cursor wrapper ignores pointer events; the button must still be clickable
+        'pointer-events': 'auto'
+    };
+
+    Object.entries(styles).forEach(([property, value]) => {
+        previousButton.style.setProperty(property, value, 'important');
+    });
+
+    return previousButton;
+  }
+
   static positionGuidanceCard(guidanceCard: HTMLElement, highlightElement: HTMLElement | null): void {
     if (!guidanceCard) return;
 
@@ -706,7 +946,7 @@ export class CursorFlowUI {
         if (card._mutationDebounceTimeout) clearTimeout(card._mutationDebounceTimeout);
         card._mutationDebounceTimeout = window.setTimeout(() => {
             if (document.body.contains(card)) { // Only update if card is still in DOM
-                 console.log('[CursorFlowUI] Guidance card: Mutation detected, updating position.');
+                 log.debug('[CursorFlowUI] Guidance card: Mutation detected, updating position.');
                  updateCardPositionLogic();
             }
         }, 50); // Debounce mutations slightly
@@ -723,7 +963,7 @@ export class CursorFlowUI {
     // Observe body for major layout shifts, but be cautious with subtree true on body.
     // Only observe direct children of body for additions/removals.
     card._observer.observe(document.body, { childList: true, subtree: false });
-    console.log('[CursorFlowUI] Dynamic tracking setup for guidance card.');
+    log.debug('[CursorFlowUI] Dynamic tracking setup for guidance card.');
   }
 
   static moveCursorToElement(element: HTMLElement, cursor: HTMLElement | null, interaction: any): void {
@@ -737,6 +977,7 @@ export class CursorFlowUI {
         wrapper = document.createElement('div') as EnhancedHTMLElement;
         wrapper.className = 'hyphen-cursor-wrapper';
         wrapper.id = 'hyphenbox-cursor-wrapper';
+        this.markAsSdkUi(wrapper);
         wrapper.style.position = 'absolute';
         wrapper.style.pointerEvents = 'none';
         wrapper.style.zIndex = '9999';
@@ -760,6 +1001,7 @@ export class CursorFlowUI {
         window.removeEventListener('resize', wrapper['resizeHandler']);
         wrapper['resizeHandler'] = null;
     }
+    this.detachFrameScrollHandler(wrapper);
     
     // Store current target element reference
     wrapper['currentElement'] = element;
@@ -776,7 +1018,7 @@ export class CursorFlowUI {
     cursor.style.transform = 'translate(-8px, -8px)';
     
     // Log cursor position for debugging
-    console.log('[CURSOR-DEBUG] Moving cursor to element:', {
+    log.debug('[CURSOR-DEBUG] Moving cursor to element:', {
         element: element.outerHTML.substring(0, 100),
         currentPosition: wrapper.style.transform,
         timestamp: new Date().getTime()
@@ -786,11 +1028,12 @@ export class CursorFlowUI {
     const updatePosition = () => {
         // Only update position if this is still the current target element
         if (wrapper['currentElement'] !== element) {
-            console.log('[CURSOR-DEBUG] Skipping position update - element is no longer current target');
+            log.debug('[CURSOR-DEBUG] Skipping position update - element is no longer current target');
             return;
         }
 
-        const rect = element.getBoundingClientRect();
+        // Elements inside iframes are measured in this page's coordinates
+        const rect = FrameUtils.getViewportRect(element);
         const scrollX = window.scrollX || window.pageXOffset;
         const scrollY = window.scrollY || window.pageYOffset;
         
@@ -800,7 +1043,7 @@ export class CursorFlowUI {
         wrapper.style.width = `${rect.width}px`;
         wrapper.style.height = `${rect.height}px`;
 
-        console.log('[CURSOR-DEBUG] Updated position for element:', {
+        log.debug('[CURSOR-DEBUG] Updated position for element:', {
             element: element.outerHTML.substring(0, 100),
             newPosition: wrapper.style.transform,
             timestamp: new Date().getTime()
@@ -871,6 +1114,9 @@ export class CursorFlowUI {
     window.addEventListener('scroll', scrollHandler, { passive: true });
     window.addEventListener('resize', resizeHandler, { passive: true });
     
+    // Scrolling inside an iframe moves the element without scrolling this window
+    this.attachFrameScrollHandler(wrapper, element, scrollHandler);
+    
     // Store the handlers on the wrapper for later cleanup
     wrapper['scrollHandler'] = scrollHandler;
     wrapper['resizeHandler'] = resizeHandler;
@@ -879,12 +1125,12 @@ export class CursorFlowUI {
   static positionTextPopupNearCursor(cursor: HTMLElement, popup: HTMLElement): void {
     if (!cursor || !popup) return;
     
-    console.log('[TEXT-DEBUG] Positioning text popup near cursor');
+    log.debug('[TEXT-DEBUG] Positioning text popup near cursor');
     
     // Get the cursor wrapper
     const wrapper = document.getElementById('hyphenbox-cursor-wrapper');
     if (!wrapper) {
-      console.error('[TEXT-DEBUG] Cursor wrapper not found');
+      log.error('[TEXT-DEBUG] Cursor wrapper not found');
       return;
     }
     
@@ -902,13 +1148,14 @@ export class CursorFlowUI {
       cursor : cursor.querySelector('.hyphen-cursor-container');
 
     if (!cursorContainer) {
-      console.error('[TEXT-DEBUG] Cursor container not found');
+      log.error('[TEXT-DEBUG] Cursor container not found');
       return;
     }
     
-    // Store original text for streaming effect
-    const originalText = popup.textContent || '';
-    popup.textContent = '';
+    // Store original text for streaming effect (stream into the content node so popup actions survive)
+    const textTarget = (popup.querySelector('.hyphen-popup-content') as HTMLElement) || popup;
+    const originalText = textTarget.textContent || '';
+    textTarget.textContent = '';
     
     // Get dimensions
     const containerRect = cursorContainer.getBoundingClientRect();
@@ -983,7 +1230,7 @@ export class CursorFlowUI {
     
     const streamText = () => {
       if (charIndex < textLength) {
-        popup.textContent = originalText.substring(0, charIndex + 1);
+        textTarget.textContent = originalText.substring(0, charIndex + 1);
         charIndex++;
         setTimeout(streamText, 30);
         
@@ -1006,6 +1253,7 @@ export class CursorFlowUI {
   static showNotification(options: NotificationOptions): HTMLElement {
     const notification = document.createElement('div');
     notification.className = 'hyphen-notification';
+    this.markAsSdkUi(notification);
     
     // Set basic styles
     notification.style.position = 'fixed';
@@ -1192,10 +1440,30 @@ export class CursorFlowUI {
     });
   }
 
+  // Keep an overlay in sync when the target scrolls inside (possibly nested) iframes
+  private static attachFrameScrollHandler(overlay: Element, element: HTMLElement, handler: EventListener): void {
+    const frameWindows = FrameUtils.getFrameWindows(element);
+    frameWindows.forEach(frameWindow => frameWindow.addEventListener('scroll', handler, { passive: true }));
+    (overlay as any)._frameWindows = frameWindows;
+    (overlay as any)._frameScrollHandler = handler;
+  }
+
+  private static detachFrameScrollHandler(overlay: Element): void {
+    const frameWindows: Window[] | undefined = (overlay as any)._frameWindows;
+    if (!frameWindows) return;
+    frameWindows.forEach(frameWindow => {
+      try {
+        frameWindow.removeEventListener('scroll', (overlay as any)._frameScrollHandler);
+      } catch (e) { /* Frame may have been navigated away or removed */ }
+    });
+    (overlay as any)._frameWindows = null;
+    (overlay as any)._frameScrollHandler = null;
+  }
+
   static positionHighlightOnElement(element: HTMLElement, highlight: HTMLElement | null): void {
     if (!highlight || !element) return;
     
-    console.log('[HIGHLIGHT-POSITION] Starting highlight positioning for:', {
+    log.debug('[HIGHLIGHT-POSITION] Starting highlight positioning for:', {
         element: {
             tag: element.tagName,
             id: element.id,
@@ -1211,32 +1479,33 @@ export class CursorFlowUI {
         window.removeEventListener('resize', (highlight as any)._scrollResizeHandler);
         window.removeEventListener('orientationchange', (highlight as any)._scrollResizeHandler); // Cleanup orientation change too
         (highlight as any)._scrollResizeHandler = null;
-        console.log('[HIGHLIGHT-POSITION] Cleaned up previous scroll/resize handlers');
+        log.debug('[HIGHLIGHT-POSITION] Cleaned up previous scroll/resize handlers');
     }
+    this.detachFrameScrollHandler(highlight);
     
     if ((highlight as any)._observer) {
         (highlight as any)._observer.disconnect();
         (highlight as any)._observer = null;
-        console.log('[HIGHLIGHT-POSITION] Cleaned up previous mutation observer');
+        log.debug('[HIGHLIGHT-POSITION] Cleaned up previous mutation observer');
     }
     
     // IMPORTANT: Cancel any pending animation frame from previous positioning
     if ((highlight as any)._frameRequestId) {
         cancelAnimationFrame((highlight as any)._frameRequestId);
         (highlight as any)._frameRequestId = null;
-        console.log('[HIGHLIGHT-POSITION] Cleaned up previous animation frame request');
+        log.debug('[HIGHLIGHT-POSITION] Cleaned up previous animation frame request');
     }
 
     // IMPORTANT: Always remove highlight from current parent and attach directly to document.body
     // This avoids issues with nested transforms and positioning contexts
     if (highlight.parentElement) {
         highlight.parentElement.removeChild(highlight);
-        console.log('[HIGHLIGHT-POSITION] Removed highlight from previous parent');
+        log.debug('[HIGHLIGHT-POSITION] Removed highlight from previous parent');
     }
     
     // Add the highlight to the document body - ALWAYS directly to body for consistent positioning
     document.body.appendChild(highlight);
-    console.log('[HIGHLIGHT-POSITION] Attached highlight directly to document.body');
+    log.debug('[HIGHLIGHT-POSITION] Attached highlight directly to document.body');
     
     // Ensure highlight has correct base styles
     highlight.style.position = 'absolute';
@@ -1253,7 +1522,7 @@ export class CursorFlowUI {
         try {
             // Enhanced Check: Ensure element and highlight are still valid
             if (!element || !highlight || !element.isConnected || !document.body.contains(highlight)) {
-                console.warn('[HIGHLIGHT-POSITION] Update aborted: Element/Highlight missing or disconnected.', {
+                log.warn('[HIGHLIGHT-POSITION] Update aborted: Element/Highlight missing or disconnected.', {
                     elementExists: !!element,
                     elementConnected: element?.isConnected,
                     highlightExists: !!highlight,
@@ -1262,13 +1531,13 @@ export class CursorFlowUI {
                 return; 
             }
             
-            // Get current element position
-            const rect = element.getBoundingClientRect();
+            // Get current element position (translated out of any iframe)
+            const rect = FrameUtils.getViewportRect(element);
             const scrollX = window.scrollX || document.documentElement.scrollLeft;
             const scrollY = window.scrollY || document.documentElement.scrollTop;
             
             // IMPORTANT: Log raw positions for debugging
-            console.log('[HIGHLIGHT-POSITION-RAW] Element position:', {
+            log.debug('[HIGHLIGHT-POSITION-RAW] Element position:', {
                 top: Math.round(rect.top), 
                 left: Math.round(rect.left), 
                 width: Math.round(rect.width), 
@@ -1292,7 +1561,7 @@ export class CursorFlowUI {
             // highlight.offsetHeight; // Force reflow
             // highlight.style.transition = 'top 0.2s, left 0.2s, width 0.2s, height 0.2s'; 
             
-            console.log('[HIGHLIGHT-POSITION] Updated highlight position:', {
+            log.debug('[HIGHLIGHT-POSITION] Updated highlight position:', {
                 element: `${element.tagName}#${element.id || 'noId'}`,
                 highlight: {
                     top: highlight.style.top,
@@ -1303,7 +1572,7 @@ export class CursorFlowUI {
                 timestamp: new Date().toISOString()
             });
         } catch (error) {
-            console.error('[HIGHLIGHT-POSITION] Error updating highlight position:', error);
+            log.error('[HIGHLIGHT-POSITION] Error updating highlight position:', error);
         }
     };
     
@@ -1321,7 +1590,7 @@ export class CursorFlowUI {
         
         // Request the next animation frame to update the position
         frameRequestId = requestAnimationFrame(() => {
-            console.log(`[HIGHLIGHT-POSITION] ${event.type} event triggered update via rAF`);
+            log.debug(`[HIGHLIGHT-POSITION] ${event.type} event triggered update via rAF`);
             updateHighlightPosition();
             frameRequestId = null; // Reset after execution, allowing next frame request
         });
@@ -1351,7 +1620,7 @@ export class CursorFlowUI {
             }
             
             mutationDebounceTimeout = setTimeout(() => {
-                console.log('[HIGHLIGHT-POSITION] Relevant DOM mutation detected, updating position');
+                log.debug('[HIGHLIGHT-POSITION] Relevant DOM mutation detected, updating position');
                 updateHighlightPosition();
             }, 50); // Keep a small debounce for DOM mutations
         }
@@ -1387,7 +1656,10 @@ export class CursorFlowUI {
     // Also listen for window orientation changes on mobile
     window.addEventListener('orientationchange', scrollResizeHandler);
     
-    console.log('[HIGHLIGHT-POSITION] Setup complete: Added event listeners (using rAF) and observers');
+    // Scrolling inside an iframe moves the element without scrolling this window
+    this.attachFrameScrollHandler(highlight, element, scrollResizeHandler);
+    
+    log.debug('[HIGHLIGHT-POSITION] Setup complete: Added event listeners (using rAF) and observers');
     
     // Double-check position after a short delay to catch any post-rendering changes
     setTimeout(updateHighlightPosition, 100);
@@ -1430,6 +1702,7 @@ export class CursorFlowUI {
                 window.removeEventListener('orientationchange', (highlight as any)._scrollResizeHandler); // Cleanup orientation change
                 (highlight as any)._scrollResizeHandler = null;
             }
+            this.detachFrameScrollHandler(highlight);
             
             if ((highlight as any)._observer) {
                 (highlight as any)._observer.disconnect();
@@ -1454,10 +1727,16 @@ export class CursorFlowUI {
                 highlight.parentNode.removeChild(highlight);
             }
         } catch (error) {
-            console.warn('Error cleaning up highlight:', error);
+            log.warn('Error cleaning up highlight:', error);
         }
     });
 
+    // Clean up off-target hint by ID
+    const offTargetHint = document.getElementById('hyphenbox-off-target-hint');
+    if (offTargetHint && offTargetHint.parentNode) {
+        offTargetHint.parentNode.removeChild(offTargetHint);
+    }
+
     // Clean up text popup by ID
     const textPopup = document.getElementById('hyphenbox-text-popup');
     if (textPopup && textPopup.parentNode) {
@@ -1512,6 +1791,7 @@ export class CursorFlowUI {
                     window.removeEventListener('resize', cursorWrapper['resizeHandler']);
                     cursorWrapper['resizeHandler'] = null;
                 }
+                this.detachFrameScrollHandler(cursorWrapper);
                 if (cursorWrapper['positionInterval']) {
                     clearInterval(cursorWrapper['positionInterval']);
                 }
@@ -1524,7 +1804,7 @@ export class CursorFlowUI {
                     cursorWrapper.parentNode.removeChild(cursorWrapper);
                 }
             } catch (error) {
-                console.warn('Error cleaning up cursor:', error);
+                log.warn('Error cleaning up cursor:', error);
             }
         }
     }
@@ -1539,7 +1819,7 @@ export class CursorFlowUI {
                 delete draggable['_hyphenDragHandlers'];
             }
         } catch (error) {
-            console.warn('Error cleaning up draggable:', error);
+            log.warn('Error cleaning up draggable:', error);
         }
     });
 
@@ -1553,7 +1833,7 @@ export class CursorFlowUI {
         });
     }
 
-    console.log('[CLEANUP-DEBUG] UI elements cleaned up', keepCursor ? '(keeping cursor)' : '(including cursor)', keepNotifications ? '(keeping notifications)' : '(including notifications)');
+    log.debug('[CLEANUP-DEBUG] UI elements cleaned up', keepCursor ? '(keeping cursor)' : '(including cursor)', keepNotifications ? '(keeping notifications)' : '(including notifications)');
   }
 
   // Add this as a new method in the CursorFlowUI class
@@ -1569,7 +1849,7 @@ export class CursorFlowUI {
     )) as HTMLElement[];
     
     // Log detailed info about portals and modals
-    console.log('[PORTAL-DETECTOR] Found portals:', {
+    log.debug('[PORTAL-DETECTOR] Found portals:', {
       count: portals.length,
       portals: portals.map(p => ({
         classes: p.className,
@@ -1579,7 +1859,7 @@ export class CursorFlowUI {
       }))
     });
     
-    console.log('[PORTAL-DETECTOR] Found modals:', {
+    log.debug('[PORTAL-DETECTOR] Found modals:', {
       count: modals.length,
       modals: modals.map(m => ({
         classes: m.className,
@@ -1613,7 +1893,7 @@ export class CursorFlowUI {
       });
       
       activeModal = visibleModals[0];
-      console.log('[PORTAL-DETECTOR] Active modal identified:', {
+      log.debug('[PORTAL-DETECTOR] Active modal identified:', {
         classes: activeModal.className,
         role: activeModal.getAttribute('role'),
         zIndex: window.getComputedStyle(activeModal).zIndex
@@ -1625,7 +1905,7 @@ export class CursorFlowUI {
 
   // Add a new method to show thinking indicator
   static showThinkingIndicator(button: HTMLElement, theme: ThemeOptions): HTMLElement {
-    console.log('[THINKING-DEBUG] Showing thinking indicator');
+    log.debug('[THINKING-DEBUG] Showing thinking indicator');
     
     // Remove any existing thinking indicators
     const existingIndicators = document.querySelectorAll('.hyphen-thinking-indicator');
@@ -1646,6 +1926,7 @@ export class CursorFlowUI {
     // Create a container for positioning the thinking cursor
     const container = document.createElement('div');
     container.className = 'hyphen-thinking-indicator-positioner';
+    this.markAsSdkUi(container);
     container.style.cssText = `
       position: fixed;
       z-index: 9999;
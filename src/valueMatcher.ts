@@ -0,0 +1,133 @@
+import { InteractionData, ValueMatchMode, ValueMatchRule } from './types';
+import { Logger } from './logger';
+
+const log = Logger.for('steps');
+
+/**
+ * Checks values typed or selected by the user against a step's expected value rule,
+ * and describes the rule in words for inline feedback.
+ */
+export class ValueMatcher {
+  static readonly MODES: ValueMatchMode[] = ['exact', 'contains', 'regex', 'case-insensitive', 'range', 'email', 'url', 'non-empty'];
+
+  private static readonly EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+  /**
+   * Work out which rule applies to a step. Steps without `valueMatch` keep the
+   * legacy behaviour: `value` is matched with `fallbackMode`, no value means any non-empty input.
+   * @param interaction - The step's interaction data
+   * @param fallbackMode - Mode for a bare `value` ('contains' for inputs, 'exact' for selects)
+   */
+  static resolveRule(interaction: InteractionData, fallbackMode: ValueMatchMode): ValueMatchRule {
+    if (interaction.valueMatch) {
+      return {
+        ...interaction.valueMatch,
+        value: interaction.valueMatch.value ?? interaction.value
+      };
+    }
+    if (interaction.value) {
+      return { mode: fallbackMode, value: interaction.value };
+    }
+    return { mode: 'non-empty' };
+  }
+
+  /**
+   * Check a value against a rule
+   * @returns true if the value satisfies the rule
+   */
+  static matches(actual: string, rule: ValueMatchRule): boolean {
+    const value = actual ?? '';
+    const expected = rule.value ?? '';
+
+    switch (rule.mode) {
+      case 'exact':
+        return value === expected;
+
+      case 'contains':
+        return value.includes(expected);
+
+      case 'case-insensitive':
+        return value.trim().toLowerCase() === expected.trim().toLowerCase();
+
+      case 'regex': {
+        const regex = this.compile(rule);
+        return regex ? regex.test(value) : false;
+      }
+
+      case 'range': {
+        const number = this.parseNumber(value);
+        if (number === null) return false;
+        if (rule.min !== undefined && number < rule.min) return false;
+        if (rule.max !== undefined && number > rule.max) return false;
+        return true;
+      }
+
+      case 'email':
+        return this.EMAIL_PATTERN.test(value.trim());
+
+      case 'url':
+        try {
+          const url = new URL(value.trim());
+          return url.protocol === 'http:' || url.protocol === 'https:';
+        } catch (e) {
+          return false;
+        }
+
+      case 'non-empty':
+        return value.trim().length > 0;
+
+      default:
+        log.warn(`[ValueMatcher] Unknown match mode "${rule.mode}", accepting value`);
+        return true;
+    }
+  }
+
+  /**
+   * Human-readable description of what the rule expects, for inline feedback
+   */
+  static describe(rule: ValueMatchRule): string {
+    if (rule.message) return rule.message;
+
+    switch (rule.mode) {
+      case 'exact':
+      case 'case-insensitive':
+        return `Enter "${rule.value ?? ''}"`;
+      case 'contains':
+        return `The value should include "${rule.value ?? ''}"`;
+      case 'range':
+        if (rule.min !== undefined && rule.max !== undefined) return `Enter a number between ${rule.min} and ${rule.max}`;
+        if (rule.min !== undefined) return `Enter a number of at least ${rule.min}`;
+        if (rule.max !== undefined) return `Enter a number no greater than ${rule.max}`;
+        return 'Enter a number';
+      case 'email':
+        return 'Enter a valid email address';
+      case 'url':
+        return 'Enter a valid URL (starting with http:// or https://)';
+      case 'non-empty':
+        return 'Enter a value to continue';
+      default:
+        return 'The value doesn\'t match what this step expects yet';
+    }
+  }
+
+  /**
+   * Compile a regex rule, or return null (and log) if the pattern is invalid
+   */
+  static compile(rule: ValueMatchRule): RegExp | null {
+    const pattern = rule.pattern ?? rule.value ?? '';
+    try {
+      return new RegExp(pattern, rule.flags || '');
+    } catch (error) {
+      log.warn(`[ValueMatcher] Invalid regex pattern "${pattern}":`, error);
+      return null;
+    }
+  }
+
+  // Accepts "1,234.5" and surrounding whitespace; returns null for anything else
+  private static parseNumber(value: string): number | null {
+    const cleaned = value.replace(/,/g, '').trim();
+    if (!cleaned) return null;
+    const number = Number(cleaned);
+    return isFinite(number) ? number : null;
+  }
+}